@@ -22,6 +22,8 @@ function Router() {
           <Route path="/dashboard" component={Home} />
           <Route path="/lead-generation" component={Home} />
           <Route path="/results" component={Home} />
+          <Route path="/leads/:id" component={Home} />
+          <Route path="/campaigns/:id" component={Home} />
           <Route path="/analytics" component={Home} />
           <Route path="/files" component={Home} />
           <Route path="/settings" component={Home} />
@@ -1,33 +1,56 @@
+import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import type { Campaign, Lead } from "@shared/schema";
+import type { Campaign, CampaignRun, CampaignWithLastRun, PipelineStage, PipelineStats } from "@shared/schema";
+
+const formatDays = (days: number | null) => (days === null ? "—" : days < 1 ? "< 1 day" : `${days} days`);
+
+const runStatusLabels: Record<string, string> = {
+  running: "Running",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+function describeLastRun(run: CampaignRun) {
+  const when = new Date(run.finishedAt ?? run.startedAt!).toLocaleString();
+  const counts = run.leadsDuplicate > 0
+    ? `${run.leadsNew} new, ${run.leadsDuplicate} duplicate`
+    : `${run.leadsNew} new`;
+  return `Last run ${runStatusLabels[run.status] ?? run.status} ${when} · ${counts}`;
+}
 
 export function Analytics() {
   const { data: stats, isLoading: statsLoading } = useQuery<any>({
     queryKey: ["/api/stats"],
   });
 
-  const { data: campaigns = [], isLoading: campaignsLoading } = useQuery<Campaign[]>({
+  const { data: campaigns = [], isLoading: campaignsLoading } = useQuery<CampaignWithLastRun[]>({
     queryKey: ["/api/campaigns"],
   });
 
-  const { data: leads = [], isLoading: leadsLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
+  const { data: stages = [] } = useQuery<PipelineStage[]>({
+    queryKey: ["/api/pipeline"],
+  });
+
+  const { data: pipelineStats } = useQuery<PipelineStats>({
+    queryKey: ["/api/pipeline/stats"],
   });
 
+
   // Calculate analytics data
   const analytics = {
     totalCampaigns: campaigns.length,
     completedCampaigns: campaigns.filter((c: Campaign) => c.status === "completed").length,
     activeCampaigns: campaigns.filter((c: Campaign) => c.status === "running").length,
-    averageLeadsPerCampaign: campaigns.length > 0 ? Math.round(leads.length / campaigns.length) : 0,
-    topCategories: getTopCategories(leads),
+    averageLeadsPerCampaign: campaigns.length > 0 ? Math.round((stats?.totalLeads || 0) / campaigns.length) : 0,
+    topCategories: stats?.topCategories || [],
     recentPerformance: getRecentPerformance(campaigns),
   };
 
-  if (statsLoading || campaignsLoading || leadsLoading) {
+  if (statsLoading || campaignsLoading) {
     return <div className="p-6">Loading analytics...</div>;
   }
 
@@ -131,13 +154,34 @@ export function Analytics() {
               </div>
             ) : (
               <div className="space-y-4">
-                {campaigns.slice(0, 5).map((campaign: Campaign, index: number) => (
+                {campaigns.slice(0, 5).map((campaign: CampaignWithLastRun, index: number) => (
                   <div key={campaign.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
                     <div className="flex-1">
-                      <p className="font-medium text-foreground text-sm">{campaign.name}</p>
+                      <Link
+                        href={`/campaigns/${campaign.id}`}
+                        className="font-medium text-foreground text-sm hover:underline"
+                        data-testid={`link-campaign-${campaign.id}`}
+                      >
+                        {campaign.name}
+                      </Link>
                       <p className="text-xs text-muted-foreground">
                         {campaign.businessCategory} • {campaign.location}
                       </p>
+                      {campaign.lastRun && (
+                        <Link
+                          href={`/campaigns/${campaign.id}?run=${campaign.lastRun.id}`}
+                          className={`block text-xs hover:underline ${campaign.lastRun.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}
+                          data-testid={`text-last-run-${campaign.id}`}
+                        >
+                          {describeLastRun(campaign.lastRun)}
+                        </Link>
+                      )}
+                      {campaign.nextRunAt && (
+                        <p className="text-xs text-muted-foreground" data-testid={`text-next-run-${campaign.id}`}>
+                          <i className="fas fa-clock mr-1"></i>
+                          Next run {new Date(campaign.nextRunAt).toLocaleString()}
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <Badge 
@@ -187,6 +231,69 @@ export function Analytics() {
           </CardContent>
         </Card>
 
+        {/* Sales Pipeline */}
+        <Card className="lg:col-span-2" data-testid="card-pipeline-stats">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-lg font-semibold font-serif">
+              Sales Pipeline
+              {pipelineStats?.winRate !== null && pipelineStats?.winRate !== undefined && (
+                <Badge variant="secondary" className="text-xs" data-testid="badge-win-rate">
+                  {pipelineStats.winRate}% win rate
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!pipelineStats ? (
+              <div className="text-center py-8 text-muted-foreground">Loading pipeline...</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left">
+                      <th className="pb-3 text-muted-foreground font-medium">Stage</th>
+                      <th className="pb-3 text-muted-foreground font-medium text-right">Leads Now</th>
+                      <th className="pb-3 text-muted-foreground font-medium text-right">Ever Reached</th>
+                      <th className="pb-3 text-muted-foreground font-medium text-right" title="Share of leads that moved on to a later stage">
+                        Conversion
+                      </th>
+                      <th className="pb-3 text-muted-foreground font-medium text-right" title="Average time before leads moved on">
+                        Avg. Time in Stage
+                      </th>
+                      <th className="pb-3 text-muted-foreground font-medium text-right" title="Average time the current leads have waited">
+                        Current Wait
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pipelineStats.stages.map((stat) => {
+                      const stage = stages.find((item) => item.key === stat.key);
+                      return (
+                        <tr key={stat.key} className="border-b border-border/50" data-testid={`row-pipeline-${stat.key}`}>
+                          <td className="py-3">
+                            <span className="flex items-center">
+                              <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: stage?.color }}></span>
+                              {stage?.name ?? stat.key}
+                              {stage && stage.outcome !== "open" && (
+                                <Badge variant="outline" className="ml-2 text-xs">{stage.outcome}</Badge>
+                              )}
+                            </span>
+                          </td>
+                          <td className="py-3 text-right">{stat.current}</td>
+                          <td className="py-3 text-right">{stat.reached}</td>
+                          <td className="py-3 text-right">{stat.conversionRate === null ? "—" : `${stat.conversionRate}%`}</td>
+                          <td className="py-3 text-right">{formatDays(stat.avgDaysInStage)}</td>
+                          <td className="py-3 text-right">{formatDays(stat.avgDaysCurrent)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Lead Generation Trends Chart Placeholder */}
         <Card className="lg:col-span-2" data-testid="card-trends-chart">
           <CardHeader>
@@ -227,26 +334,6 @@ export function Analytics() {
   );
 }
 
-function getTopCategories(leads: any[]) {
-  const categoryCount: { [key: string]: number } = {};
-  const total = leads.length;
-  
-  leads.forEach(lead => {
-    if (lead.category) {
-      categoryCount[lead.category] = (categoryCount[lead.category] || 0) + 1;
-    }
-  });
-  
-  return Object.entries(categoryCount)
-    .map(([name, count]) => ({
-      name,
-      count,
-      percentage: total > 0 ? Math.round((count / total) * 100) : 0,
-    }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 5);
-}
-
 function getRecentPerformance(campaigns: any[]) {
   return campaigns
     .filter(c => c.status === "completed")
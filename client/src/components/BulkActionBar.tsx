@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TagInput } from "@/components/TagInput";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  BulkLeadActionType,
+  BulkLeadFailure,
+  BulkLeadRequest,
+  BulkLeadResult,
+  Campaign,
+  ExportFormat,
+  LeadQueryParams,
+  PipelineStage,
+} from "@shared/schema";
+
+// Failures listed before the rest are summed up
+const MAX_LISTED_FAILURES = 10;
+
+const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+  vcard: "vCard",
+};
+
+const actionTitles: Record<BulkLeadActionType, string> = {
+  set_stage: "Stage Changed",
+  add_tags: "Tags Added",
+  remove_tags: "Tags Removed",
+  mark_validated: "Leads Marked Validated",
+  move_campaign: "Leads Moved",
+  export: "Export Saved",
+  delete: "Leads Deleted",
+};
+
+interface BulkActionBarProps {
+  // The ticked leads, or every lead matching the filters
+  selection: { leadIds: string[] } | { filter: Omit<LeadQueryParams, "sort"> };
+  count: number;
+  // Offered while every loaded row is ticked but more leads match
+  matchingTotal?: number;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  stages: PipelineStage[];
+  campaigns: Campaign[];
+}
+
+export function BulkActionBar({
+  selection,
+  count,
+  matchingTotal,
+  onSelectAllMatching,
+  onClear,
+  stages,
+  campaigns,
+}: BulkActionBarProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // Kept after the selection is cleared so the failures stay readable
+  const [failures, setFailures] = useState<BulkLeadFailure[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: BulkLeadRequest["action"]) => {
+      const response = await apiRequest("POST", "/api/leads/bulk", { ...selection, action });
+      return response.json() as Promise<BulkLeadResult>;
+    },
+    onSuccess: (result) => {
+      const { succeeded, failed } = result;
+      setFailures(failed);
+      setConfirmDelete(false);
+      toast({
+        title: actionTitles[result.action],
+        description: `${succeeded} lead${succeeded === 1 ? "" : "s"} ${result.action === "export" ? "exported" : "updated"}.`
+          + (failed.length > 0 ? ` ${failed.length} could not be changed.` : ""),
+        variant: failed.length > 0 && succeeded === 0 ? "destructive" : undefined,
+      });
+      if (result.fileId) {
+        window.open(`/api/files/${result.fileId}/download`, "_blank");
+        queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      }
+      if (result.action === "add_tags" || result.action === "remove_tags") {
+        setTags([]);
+        queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      }
+      if (result.action === "delete") {
+        onClear();
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/map"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to update the selected leads. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const run = (action: BulkLeadRequest["action"]) => bulkMutation.mutate(action);
+  const busy = bulkMutation.isPending;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-muted/50" data-testid="bar-selected-leads">
+          <span className="text-sm font-medium">
+            {"filter" in selection ? `All ${count} matching leads selected` : `${count} selected`}
+          </span>
+          {matchingTotal !== undefined && (
+            <Button size="sm" variant="link" onClick={onSelectAllMatching} data-testid="button-select-all-matching">
+              Select all {matchingTotal} matching leads
+            </Button>
+          )}
+          <Select value="" onValueChange={(stage) => run({ type: "set_stage", stage })} disabled={busy}>
+            <SelectTrigger className="w-40 h-9" data-testid="select-bulk-stage">
+              <SelectValue placeholder="Set stage..." />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(campaignId) => run({ type: "move_campaign", campaignId })} disabled={busy}>
+            <SelectTrigger className="w-44 h-9" data-testid="select-bulk-campaign">
+              <SelectValue placeholder="Move to campaign..." />
+            </SelectTrigger>
+            <SelectContent>
+              {campaigns.map((campaign) => (
+                <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => run({ type: "mark_validated" })}
+            disabled={busy}
+            data-testid="button-bulk-validate"
+          >
+            <i className="fas fa-check-circle mr-2"></i>
+            Mark Validated
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" disabled={busy} data-testid="button-bulk-export">
+                <i className="fas fa-download mr-2"></i>
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {(Object.keys(exportFormatLabels) as ExportFormat[]).map((format) => (
+                <DropdownMenuItem
+                  key={format}
+                  onClick={() => run({ type: "export", format })}
+                  data-testid={`menu-bulk-export-${format}`}
+                >
+                  {exportFormatLabels[format]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => setConfirmDelete(true)}
+            disabled={busy}
+            data-testid="button-bulk-delete"
+          >
+            <i className="fas fa-trash mr-2"></i>
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} data-testid="button-clear-selection">
+            Clear Selection
+          </Button>
+          <div className="flex items-center gap-2 basis-full">
+            <div className="flex-1">
+              <TagInput value={tags} onChange={setTags} placeholder="Tags to add or remove..." testId="input-bulk-tags" />
+            </div>
+            <Button
+              size="sm"
+              onClick={() => run({ type: "add_tags", tags })}
+              disabled={tags.length === 0 || busy}
+              data-testid="button-bulk-add-tags"
+            >
+              <i className="fas fa-tag mr-2"></i>
+              Add Tags
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run({ type: "remove_tags", tags })}
+              disabled={tags.length === 0 || busy}
+              data-testid="button-bulk-remove-tags"
+            >
+              Remove Tags
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="p-3 rounded-lg border border-destructive/40 text-sm" data-testid="list-bulk-failures">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-destructive">
+              {failures.length} lead{failures.length === 1 ? "" : "s"} could not be changed
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => setFailures([])} data-testid="button-dismiss-failures">
+              Dismiss
+            </Button>
+          </div>
+          <ul className="space-y-0.5 text-muted-foreground">
+            {failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+              <li key={failure.leadId}>
+                {failure.businessName ?? failure.leadId}: {failure.message}
+              </li>
+            ))}
+            {failures.length > MAX_LISTED_FAILURES && <li>and {failures.length - MAX_LISTED_FAILURES} more</li>}
+          </ul>
+        </div>
+      )}
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {count} lead{count === 1 ? "" : "s"}?</DialogTitle>
+            <DialogDescription>
+              The leads are removed along with their activity history and tags. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDelete(false)} data-testid="button-cancel-bulk-delete">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => run({ type: "delete" })}
+              disabled={busy}
+              data-testid="button-confirm-bulk-delete"
+            >
+              {busy ? "Deleting..." : "Delete Leads"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import type { Campaign, CampaignRun, CampaignRunParameters, LeadPage } from "@shared/schema";
+
+// Leads listed in a run's drill-down before linking to the rest
+const RUN_LEADS_LIMIT = 25;
+
+const runStatusLabels: Record<string, string> = {
+  running: "Running",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+const triggerLabels: Record<string, string> = {
+  manual: "Started by hand",
+  scheduled: "Scheduled",
+};
+
+const parameterLabels: Record<keyof CampaignRunParameters, string> = {
+  businessCategory: "Category",
+  location: "Location",
+  radius: "Radius (miles)",
+  outsideRadiusAction: "Outside the radius",
+  scraperProvider: "Data source",
+  scrapingMode: "Scraping mode",
+  pageLimit: "Page limit",
+  delay: "Delay (seconds)",
+};
+
+const runStatusVariant = (status: string) =>
+  status === "failed" ? "destructive" : status === "completed" ? "default" : status === "running" ? "secondary" : "outline";
+
+function formatDuration(run: CampaignRun) {
+  if (!run.startedAt || !run.finishedAt) return "—";
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function CampaignDetail({ campaignId }: { campaignId: string }) {
+  const [, navigate] = useLocation();
+  const runId = new URLSearchParams(useSearch()).get("run") ?? undefined;
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+
+  const { data: campaign, isLoading, error } = useQuery<Campaign>({
+    queryKey: ["/api/campaigns", campaignId],
+  });
+
+  const { data: runs = [] } = useQuery<CampaignRun[]>({
+    queryKey: ["/api/campaigns", campaignId, "runs"],
+  });
+
+  // Runs of this campaign move on as pages come in
+  useEffect(() => {
+    if (
+      ["campaign_status", "scraping_progress", "scraping_completed", "scraping_failed"].includes(lastMessage?.type) &&
+      lastMessage.campaignId === campaignId
+    ) {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns", campaignId] });
+    }
+  }, [lastMessage]);
+
+  const selectRun = (id?: string) => navigate(id ? `/campaigns/${campaignId}?run=${id}` : `/campaigns/${campaignId}`);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error || !campaign) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-muted-foreground">This campaign doesn't exist or was deleted.</p>
+          <Link href="/analytics" className="text-primary hover:underline" data-testid="link-back-to-analytics">
+            Back to Analytics
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/analytics" className="text-sm text-muted-foreground hover:text-foreground" data-testid="link-back-to-analytics">
+          <i className="fas fa-arrow-left mr-2"></i>
+          Analytics
+        </Link>
+        <h1 className="text-3xl font-bold font-serif text-foreground mt-2 mb-2" data-testid="text-campaign-name">
+          {campaign.name}
+        </h1>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <Badge variant={runStatusVariant(campaign.status)} className="text-xs" data-testid="badge-campaign-status">
+            {campaign.status}
+          </Badge>
+          <span>
+            {campaign.businessCategory} within {campaign.radius} mi of {campaign.location}
+          </span>
+          {campaign.nextRunAt && (
+            <span data-testid="text-campaign-next-run">
+              <i className="fas fa-clock mr-1"></i>
+              Next run {new Date(campaign.nextRunAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              This campaign hasn't run yet. Start it from Lead Generation or give it a schedule.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left">
+                    <th className="pb-3 text-muted-foreground font-medium">Started</th>
+                    <th className="pb-3 text-muted-foreground font-medium">Trigger</th>
+                    <th className="pb-3 text-muted-foreground font-medium">Status</th>
+                    <th className="pb-3 text-muted-foreground font-medium text-right">Pages</th>
+                    <th className="pb-3 text-muted-foreground font-medium text-right">Found</th>
+                    <th className="pb-3 text-muted-foreground font-medium text-right">New</th>
+                    <th className="pb-3 text-muted-foreground font-medium text-right">Duplicate</th>
+                    <th className="pb-3 text-muted-foreground font-medium text-right">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => (
+                    <tr
+                      key={run.id}
+                      className={`border-b border-border cursor-pointer hover:bg-muted/50 ${run.id === runId ? "bg-muted/50" : ""}`}
+                      onClick={() => selectRun(run.id === runId ? undefined : run.id)}
+                      data-testid={`row-run-${run.id}`}
+                    >
+                      <td className="py-3">{run.startedAt ? new Date(run.startedAt).toLocaleString() : "—"}</td>
+                      <td className="py-3 text-muted-foreground">{triggerLabels[run.trigger] ?? run.trigger}</td>
+                      <td className="py-3">
+                        <Badge variant={runStatusVariant(run.status)} className="text-xs">
+                          {runStatusLabels[run.status] ?? run.status}
+                        </Badge>
+                        {run.errors.length > 0 && (
+                          <span className="ml-2 text-xs text-destructive">
+                            {run.errors.length} error{run.errors.length === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">{run.pagesFetched}</td>
+                      <td className="py-3 text-right">{run.leadsFound}</td>
+                      <td className="py-3 text-right">{run.leadsNew}</td>
+                      <td className="py-3 text-right">{run.leadsDuplicate}</td>
+                      <td className="py-3 text-right text-muted-foreground">{formatDuration(run)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {runId && <CampaignRunDetail key={runId} campaignId={campaignId} runId={runId} onClose={() => selectRun()} />}
+    </div>
+  );
+}
+
+interface CampaignRunDetailProps {
+  campaignId: string;
+  runId: string;
+  onClose: () => void;
+}
+
+// One run's settings, errors and the leads it saved
+function CampaignRunDetail({ campaignId, runId, onClose }: CampaignRunDetailProps) {
+  const { data: run, error } = useQuery<CampaignRun>({
+    queryKey: ["/api/campaigns", campaignId, "runs", runId],
+  });
+
+  const { data: leadPage } = useQuery<LeadPage>({
+    queryKey: ["/api/leads", { runId, limit: RUN_LEADS_LIMIT }],
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">This run no longer exists.</CardContent>
+      </Card>
+    );
+  }
+  if (!run) return null;
+
+  return (
+    <Card data-testid="card-run-detail">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Run of {run.startedAt ? new Date(run.startedAt).toLocaleString() : "—"}</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-run">
+            <i className="fas fa-times"></i>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-sm">
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-medium text-foreground mb-2">Parameters</h4>
+            <dl className="space-y-1">
+              {(Object.keys(parameterLabels) as (keyof CampaignRunParameters)[]).map((key) => (
+                <div key={key} className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">{parameterLabels[key]}</dt>
+                  <dd className="text-foreground text-right">{run.parameters[key] ?? "—"}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+          <div>
+            <h4 className="font-medium text-foreground mb-2">Result</h4>
+            <p className="text-muted-foreground">
+              {runStatusLabels[run.status] ?? run.status}
+              {run.finishedAt && ` ${new Date(run.finishedAt).toLocaleString()}`} · {run.pagesFetched} page
+              {run.pagesFetched === 1 ? "" : "s"} · {run.leadsNew} new of {run.leadsFound} found
+            </p>
+          </div>
+          {run.errors.length > 0 && (
+            <div data-testid="list-run-errors">
+              <h4 className="font-medium text-destructive mb-2">Errors</h4>
+              <ul className="space-y-1 text-xs">
+                {run.errors.map((item, index) => (
+                  <li key={index}>
+                    <span className="text-muted-foreground">
+                      Page {item.page} · {new Date(item.at).toLocaleString()}:
+                    </span>{" "}
+                    {item.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          <h4 className="font-medium text-foreground mb-2">
+            Leads Saved{leadPage ? ` (${leadPage.total})` : ""}
+          </h4>
+          {!leadPage ? (
+            <p className="text-muted-foreground">Loading leads...</p>
+          ) : leadPage.leads.length === 0 ? (
+            <p className="text-muted-foreground">
+              {run.leadsNew > 0
+                ? "The leads this run saved have since been deleted."
+                : "This run didn't find any leads the campaign didn't already have."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border" data-testid="list-run-leads">
+              {leadPage.leads.map((lead) => (
+                <li key={lead.id} className="py-2 flex justify-between gap-4">
+                  <Link href={`/leads/${lead.id}`} className="text-primary hover:underline">
+                    {lead.businessName}
+                  </Link>
+                  <span className="text-muted-foreground text-xs">
+                    {[lead.city, lead.state].filter(Boolean).join(", ") || lead.category || ""}
+                  </span>
+                </li>
+              ))}
+              {leadPage.total > leadPage.leads.length && (
+                <li className="py-2 text-muted-foreground text-xs">
+                  and {leadPage.total - leadPage.leads.length} more
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
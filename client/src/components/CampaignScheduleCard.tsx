@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { Campaign, CampaignSchedule } from "@shared/schema";
+
+type ScheduleType = "none" | CampaignSchedule["type"];
+
+const CUSTOM_PRESET = "custom";
+
+const cronPresets: { cron: string; label: string }[] = [
+  { cron: "0 * * * *", label: "Every hour" },
+  { cron: "0 9 * * *", label: "Every day at 9:00" },
+  { cron: "0 9 * * 1-5", label: "Weekdays at 9:00" },
+  { cron: "0 9 * * 1", label: "Every Monday at 9:00" },
+  { cron: "0 9 1 * *", label: "1st of every month at 9:00" },
+];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// "YYYY-MM-DDTHH:mm" in local time, as datetime-local inputs expect
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+interface CampaignScheduleCardProps {
+  campaign: Campaign;
+  onSaved: (campaign: Campaign) => void;
+}
+
+// Runs the campaign once at a set time or on a cron-style recurrence.
+// Reruns only add leads the campaign doesn't have yet.
+export function CampaignScheduleCard({ campaign, onSaved }: CampaignScheduleCardProps) {
+  const [type, setType] = useState<ScheduleType>("none");
+  const [runAt, setRunAt] = useState("");
+  const [cron, setCron] = useState(cronPresets[1].cron);
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const schedule = campaign.schedule;
+    setType(schedule?.type ?? "none");
+    setRunAt(schedule?.type === "once" ? toLocalInput(schedule.runAt) : "");
+    setCron(schedule?.type === "recurring" ? schedule.cron : cronPresets[1].cron);
+    setTimezone(schedule?.type === "recurring" ? schedule.timezone : browserTimezone);
+  }, [campaign.id]);
+
+  const preset = cronPresets.some((item) => item.cron === cron) ? cron : CUSTOM_PRESET;
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (schedule: CampaignSchedule | null) => {
+      const response = await apiRequest("PUT", `/api/campaigns/${campaign.id}/schedule`, { schedule });
+      return response.json() as Promise<Campaign>;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: saved.schedule ? "Schedule Saved" : "Schedule Cleared",
+        description: saved.nextRunAt
+          ? `Next run ${new Date(saved.nextRunAt).toLocaleString()}.`
+          : "The campaign only runs when started by hand.",
+      });
+      onSaved(saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to save the schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (type === "none") {
+      scheduleMutation.mutate(null);
+    } else if (type === "once") {
+      scheduleMutation.mutate({ type, runAt: new Date(runAt).toISOString() });
+    } else {
+      scheduleMutation.mutate({ type, cron, timezone });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold font-serif">Schedule</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-type">Runs</Label>
+          <Select value={type} onValueChange={(value) => setType(value as ScheduleType)}>
+            <SelectTrigger id="schedule-type" data-testid="select-schedule-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Only when started by hand</SelectItem>
+              <SelectItem value="once">Once, at a set time</SelectItem>
+              <SelectItem value="recurring">On a recurring schedule</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === "once" && (
+          <div className="space-y-2">
+            <Label htmlFor="schedule-run-at">Run At</Label>
+            <Input
+              id="schedule-run-at"
+              type="datetime-local"
+              value={runAt}
+              onChange={(e) => setRunAt(e.target.value)}
+              data-testid="input-schedule-run-at"
+            />
+          </div>
+        )}
+
+        {type === "recurring" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-preset">Repeat</Label>
+              <Select
+                value={preset}
+                onValueChange={(value) => value !== CUSTOM_PRESET && setCron(value)}
+              >
+                <SelectTrigger id="schedule-preset" data-testid="select-schedule-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cronPresets.map((item) => (
+                    <SelectItem key={item.cron} value={item.cron}>{item.label}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_PRESET}>Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-cron">Cron Expression</Label>
+              <Input
+                id="schedule-cron"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                placeholder="minute hour day-of-month month day-of-week"
+                className="font-mono"
+                data-testid="input-schedule-cron"
+              />
+              <p className="text-xs text-muted-foreground">Times are in {timezone}.</p>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground" data-testid="text-next-run">
+          {campaign.nextRunAt
+            ? `Next run ${new Date(campaign.nextRunAt).toLocaleString()}. Reruns only add leads the campaign doesn't have yet.`
+            : "No run scheduled."}
+        </p>
+
+        <Button
+          className="w-full"
+          variant="outline"
+          onClick={handleSave}
+          disabled={(type === "once" && !runAt) || (type === "recurring" && !cron.trim()) || scheduleMutation.isPending}
+          data-testid="button-save-schedule"
+        >
+          <i className="fas fa-clock mr-2"></i>
+          {scheduleMutation.isPending ? "Saving..." : "Save Schedule"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,18 +1,37 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Lead } from "@shared/schema";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import type { Lead, LeadPage, SavedViewWithCount } from "@shared/schema";
 
 export function Dashboard() {
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+
   const { data: stats, isLoading: statsLoading } = useQuery<any>({
     queryKey: ["/api/stats"],
   });
 
-  const { data: recentLeads, isLoading: leadsLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
+  const { data: recentPage, isLoading: leadsLoading } = useQuery<LeadPage>({
+    queryKey: ["/api/leads", { limit: 5 }],
+  });
+  const recentLeads = recentPage?.leads;
+
+  // Counts are refreshed on every visit and as background jobs change leads
+  const { data: pinnedViews = [] } = useQuery<SavedViewWithCount[]>({
+    queryKey: ["/api/views/pinned"],
+    refetchOnMount: "always",
   });
 
+  useEffect(() => {
+    if (["leads_validated", "leads_enriched", "leads_scored", "leads_geocoded", "scraping_completed"].includes(lastMessage?.type)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/views/pinned"] });
+    }
+  }, [lastMessage]);
+
   const statsCards = [
     {
       title: "Total Leads Generated",
@@ -90,6 +109,28 @@ export function Dashboard() {
         ))}
       </div>
 
+      {/* Pinned Views */}
+      {pinnedViews.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6" data-testid="list-pinned-views">
+          {pinnedViews.map((view) => (
+            <Link key={view.id} href={`/results?view=${view.id}`}>
+              <Card className="cursor-pointer hover:bg-accent/50 transition-colors" data-testid={`card-pinned-view-${view.id}`}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-muted-foreground truncate">{view.name}</p>
+                    <i className="fas fa-bookmark text-muted-foreground"></i>
+                  </div>
+                  <p className="text-2xl font-bold text-foreground" data-testid={`text-pinned-view-count-${view.id}`}>
+                    {view.count}
+                  </p>
+                  <p className="text-xs text-muted-foreground">matching leads</p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
       {/* Recent Results */}
       <Card>
         <CardHeader>
@@ -124,7 +165,7 @@ export function Dashboard() {
                   </tr>
                 </thead>
                 <tbody>
-                  {recentLeads.slice(0, 5).map((lead: Lead, index: number) => (
+                  {recentLeads.map((lead: Lead, index: number) => (
                     <tr key={lead.id} className="border-b border-border/50" data-testid={`row-lead-${index}`}>
                       <td className="py-3 text-foreground font-medium">{lead.businessName}</td>
                       <td className="py-3 text-muted-foreground">{lead.category || "N/A"}</td>
@@ -147,7 +188,7 @@ export function Dashboard() {
           {recentLeads && recentLeads.length > 0 && (
             <div className="mt-4 flex items-center justify-between">
               <p className="text-sm text-muted-foreground">
-                Showing {Math.min(5, recentLeads.length)} of {recentLeads.length} results
+                Showing {recentLeads.length} of {recentPage?.total ?? recentLeads.length} results
               </p>
               <Button variant="link" className="text-sm">
                 View All Results →
@@ -6,10 +6,12 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { File as FileType } from "@shared/schema";
+import { ImportLeadsDialog } from "@/components/ImportLeadsDialog";
+import type { File as FileType, LeadValidationQueued, ValidateLeadsRequest } from "@shared/schema";
 
 export function FileManagement() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [importFileId, setImportFileId] = useState<string | undefined>();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -51,6 +53,28 @@ export function FileManagement() {
     },
   });
 
+  const validateMutation = useMutation({
+    mutationFn: async (request: ValidateLeadsRequest) => {
+      const response = await apiRequest("POST", "/api/leads/validate", request);
+      return response.json() as Promise<LeadValidationQueued>;
+    },
+    onSuccess: ({ queued }) => {
+      toast({
+        title: "Validation Started",
+        description: queued > 0
+          ? `${queued} leads queued. Results appear as each batch finishes.`
+          : "There are no leads to validate.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Validation Failed",
+        description: "Failed to start validation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -206,6 +230,17 @@ export function FileManagement() {
                   </div>
                   
                   <div className="flex items-center space-x-2">
+                    {/\.(csv|txt|xlsx)$/i.test(file.originalName) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setImportFileId(file.id)}
+                        title="Import leads"
+                        data-testid={`button-import-${index}`}
+                      >
+                        <i className="fas fa-file-import text-muted-foreground"></i>
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -241,8 +276,14 @@ export function FileManagement() {
               <i className="fas fa-object-group mr-2"></i>
               Merge Files
             </Button>
-            <Button variant="outline" disabled data-testid="button-validate-data">
-              <i className="fas fa-check-double mr-2"></i>
+            <Button
+              variant="outline"
+              onClick={() => validateMutation.mutate({})}
+              disabled={validateMutation.isPending}
+              title="Check the email, phone, website and address of every lead"
+              data-testid="button-validate-data"
+            >
+              <i className={`fas ${validateMutation.isPending ? "fa-spinner fa-spin" : "fa-check-double"} mr-2`}></i>
               Validate Data
             </Button>
             <Button variant="outline" disabled data-testid="button-export-all">
@@ -251,10 +292,16 @@ export function FileManagement() {
             </Button>
           </div>
           <p className="text-xs text-muted-foreground mt-2">
-            Select files above to enable bulk operations
+            Select files above to enable merging and exporting
           </p>
         </CardContent>
       </Card>
+
+      <ImportLeadsDialog
+        open={!!importFileId}
+        onOpenChange={(open) => !open && setImportFileId(undefined)}
+        fileId={importFileId}
+      />
     </div>
   );
 }
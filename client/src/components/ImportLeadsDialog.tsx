@@ -0,0 +1,390 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  Campaign,
+  File as FileType,
+  FilePreview,
+  ImportableLeadField,
+  ImportColumnMapping,
+  LeadImportRequest,
+  LeadImportResult,
+} from "@shared/schema";
+
+const fieldLabels: Record<ImportableLeadField, string> = {
+  businessName: "Business Name *",
+  category: "Category",
+  phone: "Phone",
+  email: "Email",
+  website: "Website",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "ZIP Code",
+  rating: "Rating",
+  reviewCount: "Reviews",
+  contactStatus: "Contact Status",
+  tags: "Tags",
+  notes: "Notes",
+};
+
+const SKIP_COLUMN = "__skip__";
+const NEW_CAMPAIGN = "__new__";
+
+const isSpreadsheet = (file: FileType) => /\.(csv|txt|xlsx)$/i.test(file.originalName);
+
+interface ImportLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Skips the file picker when importing a specific file
+  fileId?: string;
+}
+
+export function ImportLeadsDialog({ open, onOpenChange, fileId }: ImportLeadsDialogProps) {
+  const [selectedFileId, setSelectedFileId] = useState<string | undefined>(fileId);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [campaignChoice, setCampaignChoice] = useState(NEW_CAMPAIGN);
+  const [newCampaign, setNewCampaign] = useState({ name: "", businessCategory: "", location: "" });
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setSelectedFileId(fileId);
+      setResult(null);
+    }
+  }, [open, fileId]);
+
+  const { data: files = [] } = useQuery<FileType[]>({
+    queryKey: ["/api/files"],
+    enabled: open && !selectedFileId,
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: open,
+  });
+
+  const {
+    data: preview,
+    isLoading: isPreviewLoading,
+    error: previewError,
+  } = useQuery<FilePreview>({
+    queryKey: ["/api/files", selectedFileId, "preview"],
+    enabled: open && !!selectedFileId,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (preview) {
+      setMapping(preview.suggestedMapping);
+    }
+  }, [preview]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/files/upload", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error("Upload failed");
+      }
+
+      return response.json() as Promise<FileType>;
+    },
+    onSuccess: (file) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      setSelectedFileId(file.id);
+    },
+    onError: () => {
+      toast({
+        title: "Upload Failed",
+        description: "Failed to upload file. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (request: LeadImportRequest) => {
+      const response = await apiRequest("POST", `/api/files/${selectedFileId}/import`, request);
+      return response.json() as Promise<LeadImportResult>;
+    },
+    onSuccess: (importResult) => {
+      setResult(importResult);
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({
+        title: "Import Finished",
+        description: `${importResult.imported} leads imported, ${importResult.failed} rows skipped.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMapping = (field: ImportableLeadField, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header === SKIP_COLUMN) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const isNewCampaign = campaignChoice === NEW_CAMPAIGN;
+  const canImport =
+    !!mapping.businessName &&
+    (isNewCampaign
+      ? !!(newCampaign.name && newCampaign.businessCategory && newCampaign.location)
+      : !!campaignChoice);
+
+  const handleImport = () => {
+    importMutation.mutate({
+      mapping,
+      ...(isNewCampaign ? { newCampaign } : { campaignId: campaignChoice }),
+    });
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+  };
+
+  const importableFiles = files.filter(isSpreadsheet);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Leads</DialogTitle>
+          <DialogDescription>
+            Import leads from a CSV or Excel (XLSX) file. The first row must contain column headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4" data-testid="import-result">
+            <div className="flex items-center space-x-3">
+              <Badge className="bg-green-100 text-green-800">{result.imported} imported</Badge>
+              {result.failed > 0 && (
+                <Badge className="bg-red-100 text-red-800">{result.failed} failed</Badge>
+              )}
+            </div>
+            {result.errors.length > 0 && (
+              <div className="max-h-72 overflow-y-auto border border-border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left">
+                      <th className="p-2 text-muted-foreground font-medium w-20">Row</th>
+                      <th className="p-2 text-muted-foreground font-medium">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.errors.map((rowError) => (
+                      <tr key={rowError.row} className="border-b border-border" data-testid={`import-error-row-${rowError.row}`}>
+                        <td className="p-2 font-mono">{rowError.row}</td>
+                        <td className="p-2 text-destructive">{rowError.errors.join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)} data-testid="button-import-done">
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : !selectedFileId ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="import-upload">Upload a new file</Label>
+              <Input
+                id="import-upload"
+                type="file"
+                accept=".csv,.xlsx,.txt"
+                onChange={handleFileSelect}
+                disabled={uploadMutation.isPending}
+                data-testid="input-import-upload"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Or choose an uploaded file</Label>
+              {importableFiles.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No CSV or XLSX files uploaded yet.</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {importableFiles.map((file) => (
+                    <button
+                      key={file.id}
+                      type="button"
+                      className="w-full flex items-center justify-between p-3 border border-border rounded-lg hover:bg-accent/50 text-left"
+                      onClick={() => setSelectedFileId(file.id)}
+                      data-testid={`button-import-file-${file.id}`}
+                    >
+                      <span className="text-sm font-medium">{file.originalName}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {file.uploadedAt ? new Date(file.uploadedAt).toLocaleDateString() : "N/A"}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : isPreviewLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Reading file...</div>
+        ) : previewError || !preview ? (
+          <div className="space-y-4">
+            <p className="text-sm text-destructive">
+              {previewError ? apiErrorMessage(previewError) : "This file could not be read."}
+            </p>
+            {!fileId && (
+              <Button variant="outline" onClick={() => setSelectedFileId(undefined)}>
+                Choose another file
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h4 className="text-sm font-medium text-foreground mb-2">
+                Preview ({preview.rows.length} of {preview.totalRows} rows)
+              </h4>
+              <div className="max-h-56 overflow-auto border border-border rounded-lg">
+                <table className="w-full text-xs" data-testid="table-import-preview">
+                  <thead>
+                    <tr className="border-b border-border text-left">
+                      {preview.headers.map((header) => (
+                        <th key={header} className="p-2 text-muted-foreground font-medium whitespace-nowrap">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-b border-border">
+                        {preview.headers.map((header, index) => (
+                          <td key={header} className="p-2 whitespace-nowrap max-w-48 truncate">{row[index]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-foreground mb-2">Column Mapping</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {(Object.keys(fieldLabels) as ImportableLeadField[]).map((field) => (
+                  <div key={field} className="flex items-center justify-between space-x-3">
+                    <Label className="text-sm w-32 shrink-0">{fieldLabels[field]}</Label>
+                    <Select value={mapping[field] ?? SKIP_COLUMN} onValueChange={(value) => updateMapping(field, value)}>
+                      <SelectTrigger data-testid={`select-mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                        {preview.headers.map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">Campaign</h4>
+              <Select value={campaignChoice} onValueChange={setCampaignChoice}>
+                <SelectTrigger data-testid="select-import-campaign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_CAMPAIGN}>Create a new campaign</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isNewCampaign && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <Input
+                    placeholder="Campaign name"
+                    value={newCampaign.name}
+                    onChange={(e) => setNewCampaign((prev) => ({ ...prev, name: e.target.value }))}
+                    data-testid="input-import-campaign-name"
+                  />
+                  <Input
+                    placeholder="Business category"
+                    value={newCampaign.businessCategory}
+                    onChange={(e) => setNewCampaign((prev) => ({ ...prev, businessCategory: e.target.value }))}
+                    data-testid="input-import-campaign-category"
+                  />
+                  <Input
+                    placeholder="Location"
+                    value={newCampaign.location}
+                    onChange={(e) => setNewCampaign((prev) => ({ ...prev, location: e.target.value }))}
+                    data-testid="input-import-campaign-location"
+                  />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              {!fileId && (
+                <Button variant="outline" onClick={() => setSelectedFileId(undefined)}>
+                  Back
+                </Button>
+              )}
+              <Button
+                onClick={handleImport}
+                disabled={!canImport || importMutation.isPending}
+                data-testid="button-import-leads"
+              >
+                <i className="fas fa-file-import mr-2"></i>
+                {importMutation.isPending ? "Importing..." : `Import ${preview.totalRows} Rows`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,758 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { TagInput } from "@/components/TagInput";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  Campaign,
+  CreateLeadNoteRequest,
+  EnrichedLeadField,
+  FieldValidationStatus,
+  Lead,
+  LeadActivity,
+  LeadTag,
+  PipelineStage,
+  ScoringRuleKey,
+  SocialNetwork,
+  TaggedLead,
+  ValidatedLeadField,
+} from "@shared/schema";
+
+type EditableField =
+  | "businessName"
+  | "category"
+  | "phone"
+  | "email"
+  | "website"
+  | "address"
+  | "city"
+  | "state"
+  | "zipCode"
+  | "rating"
+  | "reviewCount"
+  | "description"
+  | "notes";
+
+type LeadForm = Record<EditableField, string> & { contactStatus: string };
+
+// Tags are edited on their own, and bulk actions also validate leads and
+// move them between campaigns; all of these show up in the timeline's edits
+const leadFieldLabels: Record<EditableField | "contactStatus" | "tags" | "isValidated" | "campaign", string> = {
+  businessName: "Business Name",
+  category: "Category",
+  phone: "Phone",
+  email: "Email",
+  website: "Website",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "ZIP Code",
+  rating: "Rating",
+  reviewCount: "Reviews",
+  description: "Description",
+  tags: "Tags",
+  notes: "Notes",
+  contactStatus: "Pipeline Stage",
+  isValidated: "Validated",
+  campaign: "Campaign",
+};
+
+// Laid out two to a row; the long text fields get a row of their own
+const inputFields: EditableField[] = [
+  "businessName",
+  "category",
+  "phone",
+  "email",
+  "website",
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "rating",
+  "reviewCount",
+];
+const textareaFields: EditableField[] = ["description", "notes"];
+
+const validatedFieldLabels: Record<ValidatedLeadField, string> = {
+  email: "Email",
+  phone: "Phone",
+  website: "Website",
+  address: "Address",
+};
+
+const validationStatusStyles: Record<FieldValidationStatus, { label: string; className: string }> = {
+  valid: { label: "Valid", className: "bg-green-100 text-green-800" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800" },
+  unverified: { label: "Unverified", className: "bg-yellow-100 text-yellow-800" },
+  missing: { label: "Missing", className: "bg-muted text-muted-foreground" },
+};
+
+const enrichedFieldLabels: Record<EnrichedLeadField, string> = {
+  email: "Email",
+  phone: "Phone",
+  description: "Description",
+  facebook: "Facebook",
+  instagram: "Instagram",
+  linkedin: "LinkedIn",
+  twitter: "X / Twitter",
+  youtube: "YouTube",
+  tiktok: "TikTok",
+};
+
+const scoringRuleLabels: Record<ScoringRuleKey, string> = {
+  hasEmail: "Has Email",
+  hasWebsite: "Has Website",
+  rating: "Rating",
+  reviewCount: "Review Count",
+  validation: "Validation",
+  categoryMatch: "Category Match",
+  distance: "Distance",
+};
+
+const scoreBadgeClassName = (score: number) =>
+  score >= 70 ? "bg-green-100 text-green-800" : score >= 40 ? "bg-yellow-100 text-yellow-800" : "bg-red-100 text-red-800";
+
+const formValue = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+const displayValue = (value: unknown) => {
+  const text = formValue(value);
+  if (!text) return "empty";
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+// Stage names are the user's own; removed stages show their key
+const stageName = (stages: PipelineStage[], key: string | null) =>
+  stages.find((stage) => stage.key === key)?.name ?? key ?? "no stage";
+
+const toForm = (lead: Lead): LeadForm => ({
+  ...(Object.fromEntries([...inputFields, ...textareaFields].map((field) => [field, formValue(lead[field])])) as Record<
+    EditableField,
+    string
+  >),
+  contactStatus: lead.contactStatus ?? "",
+});
+
+// Only the fields that changed are sent, so the timeline and the record of
+// user-edited fields stay accurate
+function changedFields(lead: Lead, form: LeadForm): Record<string, string | number | null> {
+  const updates: Record<string, string | number | null> = {};
+  for (const field of [...inputFields, ...textareaFields]) {
+    const value = form[field].trim();
+    if (value === formValue(lead[field])) continue;
+    updates[field] = value === "" ? null : field === "reviewCount" ? parseInt(value, 10) : value;
+  }
+  if (form.contactStatus !== (lead.contactStatus ?? "")) {
+    updates.contactStatus = form.contactStatus;
+  }
+  return updates;
+}
+
+interface TimelineEntry {
+  id: string;
+  icon: string;
+  title: string;
+  lines: string[];
+  at: Date | string | null;
+}
+
+function describeActivity(activity: LeadActivity, stages: PipelineStage[]): Omit<TimelineEntry, "id" | "at"> {
+  switch (activity.type) {
+    case "status_changed":
+      return {
+        icon: "fa-flag",
+        title: `Moved from ${stageName(stages, activity.details.from)} to ${stageName(stages, activity.details.to)}`,
+        lines: [],
+      };
+    case "updated":
+      return {
+        icon: "fa-pen",
+        title: "Details edited",
+        lines: Object.entries(activity.details.changes).map(
+          ([field, { from, to }]) =>
+            `${leadFieldLabels[field as keyof typeof leadFieldLabels] ?? field}: ${displayValue(from)} → ${displayValue(to)}`,
+        ),
+      };
+    case "note_added":
+      return { icon: "fa-sticky-note", title: "Note", lines: [activity.details.note] };
+    case "exported":
+      return {
+        icon: "fa-file-export",
+        title: `Exported as ${activity.details.format.toUpperCase()}`,
+        lines: [activity.details.fileName],
+      };
+    case "merged":
+      return {
+        icon: "fa-object-group",
+        title: `Merged ${activity.details.duplicates.length} duplicate${activity.details.duplicates.length === 1 ? "" : "s"}`,
+        lines: activity.details.duplicates.map(({ businessName }) => businessName),
+      };
+  }
+}
+
+export function LeadDetail({ leadId }: { leadId: string }) {
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+
+  const { data: lead, isLoading, error } = useQuery<TaggedLead>({
+    queryKey: ["/api/leads", leadId],
+  });
+
+  const { data: activities = [] } = useQuery<LeadActivity[]>({
+    queryKey: ["/api/leads", leadId, "activities"],
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: stages = [] } = useQuery<PipelineStage[]>({
+    queryKey: ["/api/pipeline"],
+  });
+
+  // Pipelines running in the background may have changed this lead
+  useEffect(() => {
+    if (["leads_validated", "leads_enriched", "leads_scored", "leads_geocoded"].includes(lastMessage?.type)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", leadId] });
+    }
+  }, [lastMessage]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error || !lead) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <p className="text-muted-foreground">This lead doesn't exist or was merged into another lead.</p>
+          <Link href="/results" className="text-primary hover:underline" data-testid="link-back-to-results">
+            Back to Results
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const campaign = campaigns.find((item) => item.id === lead.campaignId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <Link href="/results" className="text-sm text-muted-foreground hover:text-foreground" data-testid="link-back-to-results">
+            <i className="fas fa-arrow-left mr-2"></i>
+            Results & Data
+          </Link>
+          <h1 className="text-3xl font-bold font-serif text-foreground mt-2 mb-2" data-testid="text-lead-name">
+            {lead.businessName}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge
+              variant="outline"
+              className="text-xs"
+              style={{ borderColor: stages.find((stage) => stage.key === lead.contactStatus)?.color }}
+              data-testid="badge-lead-stage"
+            >
+              {stageName(stages, lead.contactStatus)}
+            </Badge>
+            <Badge variant={lead.isValidated ? "default" : "secondary"} className="text-xs">
+              {lead.isValidated ? "Validated" : "Pending"}
+            </Badge>
+            {lead.score !== null && (
+              <Badge className={`text-xs ${scoreBadgeClassName(lead.score)}`} data-testid="badge-lead-score">
+                Score {lead.score}
+              </Badge>
+            )}
+            {lead.isDuplicate && (
+              <Badge variant="destructive" className="text-xs">
+                Duplicate
+              </Badge>
+            )}
+            {lead.outsideRadius && (
+              <Badge variant="outline" className="text-xs">
+                Outside radius
+              </Badge>
+            )}
+          </div>
+        </div>
+        {lead.website && (
+          <Button variant="outline" onClick={() => window.open(lead.website!, "_blank")} data-testid="button-visit-website">
+            <i className="fas fa-external-link-alt mr-2"></i>
+            Visit Website
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Remounted when the lead changes on the server so the form shows the saved values */}
+          <LeadTagsCard key={lead.tags.map((tag) => tag.name).join(",")} lead={lead} />
+          <LeadFieldsCard key={String(lead.updatedAt)} lead={lead} stages={stages} />
+          <LeadTimeline lead={lead} activities={activities} campaign={campaign} stages={stages} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Source Campaign</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm" data-testid="lead-campaign">
+              {campaign ? (
+                <>
+                  <Link href={`/campaigns/${campaign.id}`} className="text-foreground font-medium hover:underline">
+                    {campaign.name}
+                  </Link>
+                  <p className="text-muted-foreground">
+                    {campaign.businessCategory} within {campaign.radius} mi of {campaign.location}
+                  </p>
+                  <Badge variant="outline" className="text-xs">{campaign.status}</Badge>
+                  {lead.runId && (
+                    <Link
+                      href={`/campaigns/${campaign.id}?run=${lead.runId}`}
+                      className="block text-primary hover:underline"
+                      data-testid="link-lead-run"
+                    >
+                      View the run that found this lead
+                    </Link>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">Loading campaign...</p>
+              )}
+              {lead.distanceMiles !== null && (
+                <p className="text-muted-foreground">{lead.distanceMiles} mi from the campaign centre</p>
+              )}
+              {lead.latitude !== null && lead.longitude !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {lead.latitude.toFixed(5)}, {lead.longitude.toFixed(5)}
+                  {lead.geocodePrecision && ` (located by ${lead.geocodePrecision})`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <LeadScoreCard lead={lead} />
+          <LeadValidationCard lead={lead} />
+          <LeadEnrichmentCard lead={lead} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LeadFieldsCard({ lead, stages }: { lead: Lead; stages: PipelineStage[] }) {
+  const [form, setForm] = useState<LeadForm>(() => toForm(lead));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updates = changedFields(lead, form);
+  const isDirty = Object.keys(updates).length > 0;
+
+  const updateLeadMutation = useMutation({
+    mutationFn: async (changes: Record<string, string | number | null>) => {
+      const response = await apiRequest("PATCH", `/api/leads/${lead.id}`, changes);
+      return response.json() as Promise<Lead>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Lead Updated",
+        description: "Lead information has been updated successfully.",
+      });
+      queryClient.setQueryData(["/api/leads", lead.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/map"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to update lead. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setField = (field: keyof LeadForm, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+  const socialProfiles = Object.entries(lead.socialProfiles ?? {}) as [SocialNetwork, string][];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Details</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="lead-contactStatus">{leadFieldLabels.contactStatus}</Label>
+          <Select value={form.contactStatus} onValueChange={(value) => setField("contactStatus", value)}>
+            <SelectTrigger id="lead-contactStatus" data-testid="select-contact-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.key} value={stage.key}>
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: stage.color }}></span>
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {inputFields.map((field) => (
+            <div key={field}>
+              <Label htmlFor={`lead-${field}`}>{leadFieldLabels[field]}</Label>
+              <Input
+                id={`lead-${field}`}
+                type={field === "rating" || field === "reviewCount" ? "number" : "text"}
+                step={field === "rating" ? "0.1" : undefined}
+                min={field === "rating" || field === "reviewCount" ? 0 : undefined}
+                max={field === "rating" ? 5 : undefined}
+                value={form[field]}
+                onChange={(e) => setField(field, e.target.value)}
+                data-testid={`input-lead-${field}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        {textareaFields.map((field) => (
+          <div key={field}>
+            <Label htmlFor={`lead-${field}`}>{leadFieldLabels[field]}</Label>
+            <Textarea
+              id={`lead-${field}`}
+              value={form[field]}
+              onChange={(e) => setField(field, e.target.value)}
+              rows={3}
+              data-testid={`textarea-lead-${field}`}
+            />
+          </div>
+        ))}
+
+        {socialProfiles.length > 0 && (
+          <div className="space-y-1">
+            <Label>Social Profiles</Label>
+            {socialProfiles.map(([network, url]) => (
+              <a
+                key={network}
+                href={url}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-primary hover:underline truncate block"
+              >
+                {enrichedFieldLabels[network]}: {url}
+              </a>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Added {lead.createdAt ? new Date(lead.createdAt).toLocaleString() : "—"}
+            {lead.updatedAt && ` · Updated ${new Date(lead.updatedAt).toLocaleString()}`}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="ghost"
+              onClick={() => setForm(toForm(lead))}
+              disabled={!isDirty || updateLeadMutation.isPending}
+              data-testid="button-reset-lead"
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={() => updateLeadMutation.mutate(updates)}
+              disabled={!isDirty || !form.businessName.trim() || updateLeadMutation.isPending}
+              data-testid="button-update-lead"
+            >
+              {updateLeadMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeadTagsCard({ lead }: { lead: TaggedLead }) {
+  const saved = lead.tags.map((tag) => tag.name);
+  const [names, setNames] = useState(saved);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isDirty = names.join(",") !== saved.join(",");
+
+  const saveTagsMutation = useMutation({
+    mutationFn: async (tags: string[]) => {
+      const response = await apiRequest("PUT", `/api/leads/${lead.id}/tags`, { tags });
+      return response.json() as Promise<LeadTag[]>;
+    },
+    onSuccess: (tags) => {
+      queryClient.setQueryData<TaggedLead>(["/api/leads", lead.id], (current) => current && { ...current, tags });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to save tags. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <TagInput value={names} onChange={setNames} placeholder="Add tags..." testId="input-lead-tags" />
+        {isDirty && (
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setNames(saved)} disabled={saveTagsMutation.isPending}>
+              Reset
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveTagsMutation.mutate(names)}
+              disabled={saveTagsMutation.isPending}
+              data-testid="button-save-lead-tags"
+            >
+              {saveTagsMutation.isPending ? "Saving..." : "Save Tags"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface LeadTimelineProps {
+  lead: Lead;
+  activities: LeadActivity[];
+  campaign?: Campaign;
+  stages: PipelineStage[];
+}
+
+function LeadTimeline({ lead, activities, campaign, stages }: LeadTimelineProps) {
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (request: CreateLeadNoteRequest) => {
+      await apiRequest("POST", `/api/leads/${lead.id}/notes`, request);
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "activities"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to add note. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Activities come newest first; the lead's creation always closes the list
+  const entries: TimelineEntry[] = [
+    ...activities.map((activity) => ({ id: activity.id, at: activity.createdAt, ...describeActivity(activity, stages) })),
+    {
+      id: "created",
+      icon: "fa-plus",
+      title: campaign ? `Added by ${campaign.name}` : "Added",
+      lines: [],
+      at: lead.createdAt,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note about a call, email or meeting..."
+            rows={2}
+            data-testid="textarea-new-note"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => addNoteMutation.mutate({ note })}
+              disabled={!note.trim() || addNoteMutation.isPending}
+              data-testid="button-add-note"
+            >
+              {addNoteMutation.isPending ? "Adding..." : "Add Note"}
+            </Button>
+          </div>
+        </div>
+
+        <ol className="relative border-l border-border ml-3 space-y-6" data-testid="lead-timeline">
+          {entries.map((entry) => (
+            <li key={entry.id} className="ml-6">
+              <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-muted">
+                <i className={`fas ${entry.icon} text-xs text-muted-foreground`}></i>
+              </span>
+              <p className="text-sm text-foreground font-medium">{entry.title}</p>
+              {entry.lines.map((line, index) => (
+                <p key={index} className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+                  {line}
+                </p>
+              ))}
+              <p className="text-xs text-muted-foreground mt-1">
+                {entry.at ? new Date(entry.at).toLocaleString() : "—"}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeadScoreCard({ lead }: { lead: Lead }) {
+  const scoreBreakdown = lead.scoreBreakdown;
+  if (lead.score === null || !scoreBreakdown) return null;
+  const totalWeight = scoreBreakdown.reduce((total, { weight }) => total + weight, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Score
+          <Badge className={`text-xs ${scoreBadgeClassName(lead.score)}`}>{lead.score} / 100</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2" data-testid="lead-score-breakdown">
+        {scoreBreakdown.map((component) => (
+          <div key={component.rule} className="flex items-start justify-between text-sm">
+            <div className="min-w-0">
+              <p className="text-foreground">{scoringRuleLabels[component.rule]}</p>
+              <p className="text-xs text-muted-foreground">{component.detail}</p>
+            </div>
+            <span className="text-xs text-muted-foreground shrink-0">
+              +{component.points} of {Math.round((1000 * component.weight) / totalWeight) / 10}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeadValidationCard({ lead }: { lead: Lead }) {
+  const validationDetails = lead.validationDetails;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Validation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2" data-testid="lead-validation-details">
+        {!validationDetails ? (
+          <p className="text-sm text-muted-foreground">Not validated yet.</p>
+        ) : (
+          (Object.keys(validatedFieldLabels) as ValidatedLeadField[])
+            .filter((field) => validationDetails[field])
+            .map((field) => {
+              const result = validationDetails[field]!;
+              return (
+                <div key={field} className="flex items-start justify-between text-sm">
+                  <div className="min-w-0">
+                    <p className="text-foreground">{validatedFieldLabels[field]}</p>
+                    {(result.message || result.normalized) && (
+                      <p className="text-xs text-muted-foreground truncate">{result.message ?? result.normalized}</p>
+                    )}
+                  </div>
+                  <Badge className={`text-xs shrink-0 ${validationStatusStyles[result.status].className}`}>
+                    {validationStatusStyles[result.status].label}
+                  </Badge>
+                </div>
+              );
+            })
+        )}
+        {lead.validatedAt && (
+          <p className="text-xs text-muted-foreground">Checked {new Date(lead.validatedAt).toLocaleString()}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeadEnrichmentCard({ lead }: { lead: Lead }) {
+  const enrichment = lead.enrichment;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Website Enrichment</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2" data-testid="lead-enrichment-details">
+        {!enrichment ? (
+          <p className="text-sm text-muted-foreground">
+            {lead.website ? "The website hasn't been crawled yet." : "No website to crawl."}
+          </p>
+        ) : enrichment.error ? (
+          <p className="text-xs text-destructive">{enrichment.error}</p>
+        ) : Object.keys(enrichment.found).length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Nothing found on {enrichment.pages.length} page{enrichment.pages.length === 1 ? "" : "s"}
+            {enrichment.blocked.length > 0 && ` (${enrichment.blocked.length} blocked by robots.txt)`}.
+          </p>
+        ) : (
+          (Object.keys(enrichedFieldLabels) as EnrichedLeadField[])
+            .filter((field) => enrichment.found[field])
+            .map((field) => {
+              const { value, sourceUrl } = enrichment.found[field]!;
+              return (
+                <div key={field} className="flex items-start justify-between text-sm">
+                  <div className="min-w-0">
+                    <p className="text-foreground">{enrichedFieldLabels[field]}</p>
+                    <p className="text-xs text-muted-foreground truncate" title={value}>{value}</p>
+                    <a
+                      href={sourceUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-primary hover:underline truncate block"
+                    >
+                      {sourceUrl}
+                    </a>
+                  </div>
+                  {enrichment.applied.includes(field) && (
+                    <Badge variant="secondary" className="text-xs shrink-0">Applied</Badge>
+                  )}
+                </div>
+              );
+            })
+        )}
+        {lead.enrichedAt && (
+          <p className="text-xs text-muted-foreground">Crawled {new Date(lead.enrichedAt).toLocaleString()}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -14,28 +15,72 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import { ImportLeadsDialog } from "@/components/ImportLeadsDialog";
+import { CampaignScheduleCard } from "@/components/CampaignScheduleCard";
 import { apiRequest } from "@/lib/queryClient";
+import type { Campaign, UserSettings } from "@shared/schema";
 
 const campaignSchema = z.object({
   name: z.string().min(1, "Campaign name is required"),
   businessCategory: z.string().min(1, "Business category is required"),
   location: z.string().min(1, "Location is required"),
   radius: z.coerce.number().min(1).max(100),
+  outsideRadiusAction: z.enum(["flag", "exclude"]),
   scrapingMode: z.enum(["fast", "standard", "thorough", "debug"]),
+  scraperProvider: z.string().min(1, "Data source is required"),
   pageLimit: z.coerce.number().min(1).max(200).optional(),
   delay: z.coerce.number().min(0.5).max(10).optional(),
 });
 
 type CampaignForm = z.infer<typeof campaignSchema>;
 
+type CampaignAction = "pause" | "resume" | "cancel";
+
+const scrapingModeDescriptions: Record<CampaignForm["scrapingMode"], string> = {
+  fast: "Results pages only, no retries",
+  standard: "Results pages only, retries failed pages once",
+  thorough: "Also fetches each listing's detail page, retries failed pages",
+  debug: "Fetches detail pages and logs every request on the server",
+};
+
+const outsideRadiusDescriptions: Record<CampaignForm["outsideRadiusAction"], string> = {
+  flag: "Keep leads beyond the radius and mark them as outside it",
+  exclude: "Leave out leads beyond the radius",
+};
+
+const statusLabels: Record<string, string> = {
+  draft: "Ready",
+  running: "Running",
+  paused: "Paused",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+const statusDescriptions: Record<string, string> = {
+  running: "Campaign is running, monitoring progress...",
+  paused: "Campaign is paused. Resume to continue from the next page.",
+  completed: "Campaign finished successfully",
+  cancelled: "Campaign was cancelled",
+  failed: "Campaign stopped with an error",
+};
+
 export function LeadGeneration() {
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentCampaign, setCurrentCampaign] = useState<any>(null);
+  const [currentCampaign, setCurrentCampaign] = useState<Campaign | null>(null);
+  const [showImport, setShowImport] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { lastMessage } = useWebSocket();
 
+  const campaignStatus: string = currentCampaign?.status || "draft";
+  const isProcessing = campaignStatus === "running";
+  const isActive = campaignStatus === "running" || campaignStatus === "paused";
+
+  const { data: scrapers = [] } = useQuery<{ name: string; label: string }[]>({
+    queryKey: ["/api/scrapers"],
+  });
+
   const form = useForm<CampaignForm>({
     resolver: zodResolver(campaignSchema),
     defaultValues: {
@@ -43,16 +88,34 @@ export function LeadGeneration() {
       businessCategory: "",
       location: "",
       radius: 25,
+      outsideRadiusAction: "flag",
       scrapingMode: "standard",
+      scraperProvider: "debug",
       pageLimit: 50,
       delay: 1.5,
     },
   });
 
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Pre-fill the scraping options from the saved defaults, keeping anything
+  // the user has already changed
+  useEffect(() => {
+    if (settings) {
+      const { defaultMode, defaultDelay, defaultPageLimit } = settings.scraping;
+      form.reset(
+        { ...form.getValues(), scrapingMode: defaultMode, delay: defaultDelay, pageLimit: defaultPageLimit },
+        { keepDirtyValues: true },
+      );
+    }
+  }, [settings]);
+
   const createCampaignMutation = useMutation({
     mutationFn: async (data: CampaignForm) => {
       const response = await apiRequest("POST", "/api/campaigns", data);
-      return response.json();
+      return response.json() as Promise<Campaign>;
     },
     onSuccess: (campaign) => {
       toast({
@@ -74,10 +137,10 @@ export function LeadGeneration() {
   const startCampaignMutation = useMutation({
     mutationFn: async (campaignId: string) => {
       const response = await apiRequest("POST", `/api/campaigns/${campaignId}/start`);
-      return response.json();
+      return response.json() as Promise<Campaign>;
     },
-    onSuccess: () => {
-      setIsProcessing(true);
+    onSuccess: (campaign) => {
+      setCurrentCampaign(campaign);
       toast({
         title: "Campaign Started",
         description: "Lead generation has started. You can monitor progress in real-time.",
@@ -92,18 +155,42 @@ export function LeadGeneration() {
     },
   });
 
+  const campaignActionMutation = useMutation({
+    mutationFn: async ({ campaignId, action }: { campaignId: string; action: CampaignAction }) => {
+      const response = await apiRequest("POST", `/api/campaigns/${campaignId}/${action}`);
+      return response.json() as Promise<Campaign>;
+    },
+    onSuccess: (campaign) => {
+      setCurrentCampaign((prev) => prev ? { ...prev, status: campaign.status } : campaign);
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update campaign. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle WebSocket messages for real-time updates
   useEffect(() => {
     if (lastMessage) {
       if (lastMessage.type === "scraping_progress") {
-        setCurrentCampaign((prev: any) => prev ? {
+        setCurrentCampaign((prev) => prev ? {
           ...prev,
           progress: lastMessage.progress,
           totalPages: lastMessage.totalPages,
           leadsFound: lastMessage.leadsFound,
         } : null);
+      } else if (lastMessage.type === "campaign_status") {
+        setCurrentCampaign((prev) => prev && prev.id === lastMessage.campaignId ? {
+          ...prev,
+          status: lastMessage.status,
+        } : prev);
+        queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
       } else if (lastMessage.type === "scraping_completed") {
-        setIsProcessing(false);
+        setCurrentCampaign((prev) => prev ? { ...prev, status: "completed", progress: 100 } : null);
         toast({
           title: "Campaign Completed",
           description: "Lead generation has finished successfully!",
@@ -111,6 +198,15 @@ export function LeadGeneration() {
         queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
         queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
         queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      } else if (lastMessage.type === "scraping_failed") {
+        setCurrentCampaign((prev) => prev ? { ...prev, status: "failed" } : null);
+        toast({
+          title: "Campaign Failed",
+          description: lastMessage.message || "Lead generation stopped with an error.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
       }
     }
   }, [lastMessage, toast, queryClient]);
@@ -125,6 +221,12 @@ export function LeadGeneration() {
     }
   };
 
+  const handleCampaignAction = (action: CampaignAction) => {
+    if (currentCampaign) {
+      campaignActionMutation.mutate({ campaignId: currentCampaign.id, action });
+    }
+  };
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Query Builder */}
@@ -211,6 +313,47 @@ export function LeadGeneration() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="outsideRadiusAction">Leads Outside the Radius</Label>
+                <Select
+                  value={form.watch("outsideRadiusAction")}
+                  onValueChange={(value) => form.setValue("outsideRadiusAction", value as CampaignForm["outsideRadiusAction"])}
+                >
+                  <SelectTrigger data-testid="select-outside-radius-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flag">Flag</SelectItem>
+                    <SelectItem value="exclude">Exclude</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {outsideRadiusDescriptions[form.watch("outsideRadiusAction")]}. Distances are measured from
+                  the location's ZIP code or city centre.
+                </p>
+              </div>
+
+              {/* Data Source */}
+              <div className="space-y-2">
+                <Label htmlFor="scraperProvider">Data Source</Label>
+                <Select
+                  value={form.watch("scraperProvider")}
+                  onValueChange={(value) => form.setValue("scraperProvider", value)}
+                >
+                  <SelectTrigger data-testid="select-scraper-provider">
+                    <SelectValue placeholder="Select data source..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scrapers.map((scraper) => (
+                      <SelectItem key={scraper.name} value={scraper.name}>{scraper.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.formState.errors.scraperProvider && (
+                  <p className="text-sm text-destructive">{form.formState.errors.scraperProvider.message}</p>
+                )}
+              </div>
+
               {/* Scraping Mode */}
               <div className="space-y-3">
                 <Label>Scraping Mode</Label>
@@ -237,6 +380,9 @@ export function LeadGeneration() {
                     <Label htmlFor="debug">Debug</Label>
                   </div>
                 </RadioGroup>
+                <p className="text-xs text-muted-foreground" data-testid="text-scraping-mode-description">
+                  {scrapingModeDescriptions[form.watch("scrapingMode")]}
+                </p>
               </div>
 
               {/* Advanced Options */}
@@ -297,7 +443,7 @@ export function LeadGeneration() {
                   <Button
                     type="button"
                     onClick={handleStartScraping}
-                    disabled={isProcessing || startCampaignMutation.isPending}
+                    disabled={isActive || startCampaignMutation.isPending}
                     data-testid="button-start-scraping"
                   >
                     <i className="fas fa-play mr-2"></i>
@@ -305,7 +451,12 @@ export function LeadGeneration() {
                   </Button>
                 )}
                 
-                <Button type="button" variant="outline" data-testid="button-batch-upload">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowImport(true)}
+                  data-testid="button-batch-upload"
+                >
                   <i className="fas fa-upload mr-2"></i>Batch Upload
                 </Button>
               </div>
@@ -325,16 +476,63 @@ export function LeadGeneration() {
             <div className="p-4 bg-accent/50 rounded-lg border border-border">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium text-foreground">Current Status</span>
-                <Badge variant={isProcessing ? "default" : "secondary"} className="text-xs">
-                  {isProcessing ? "Running" : "Ready"}
+                <Badge
+                  variant={isProcessing ? "default" : campaignStatus === "failed" ? "destructive" : "secondary"}
+                  className="text-xs"
+                  data-testid="badge-campaign-status"
+                >
+                  {statusLabels[campaignStatus] || campaignStatus}
                 </Badge>
               </div>
               <p className="text-xs text-muted-foreground">
-                {isProcessing 
-                  ? "Campaign is running, monitoring progress..." 
-                  : "System ready for new scraping task"
-                }
+                {statusDescriptions[campaignStatus] || "System ready for new scraping task"}
               </p>
+              {currentCampaign && (
+                <Link
+                  href={`/campaigns/${currentCampaign.id}`}
+                  className="inline-block mt-2 text-xs text-primary hover:underline"
+                  data-testid="link-campaign-runs"
+                >
+                  Run history
+                </Link>
+              )}
+              {isActive && (
+                <div className="flex gap-2 mt-3">
+                  {isProcessing ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleCampaignAction("pause")}
+                      disabled={campaignActionMutation.isPending}
+                      data-testid="button-pause-campaign"
+                    >
+                      <i className="fas fa-pause mr-2"></i>Pause
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleCampaignAction("resume")}
+                      disabled={campaignActionMutation.isPending}
+                      data-testid="button-resume-campaign"
+                    >
+                      <i className="fas fa-play mr-2"></i>Resume
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 text-destructive hover:text-destructive"
+                    onClick={() => handleCampaignAction("cancel")}
+                    disabled={campaignActionMutation.isPending}
+                    data-testid="button-cancel-campaign"
+                  >
+                    <i className="fas fa-stop mr-2"></i>Cancel
+                  </Button>
+                </div>
+              )}
             </div>
 
             {/* Progress */}
@@ -384,7 +582,20 @@ export function LeadGeneration() {
             </div>
           </CardContent>
         </Card>
+
+        {currentCampaign && (
+          <CampaignScheduleCard
+            campaign={currentCampaign}
+            onSaved={(campaign) => setCurrentCampaign((prev) => prev ? {
+              ...prev,
+              schedule: campaign.schedule,
+              nextRunAt: campaign.nextRunAt,
+            } : campaign)}
+          />
+        )}
       </div>
+
+      <ImportLeadsDialog open={showImport} onOpenChange={setShowImport} />
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Circle, MapContainer, Polygon, Polyline, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.markercluster";
+import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+import { Button } from "@/components/ui/button";
+import type { Campaign, GeoPolygon, LeadMapPoint, PipelineStage } from "@shared/schema";
+
+const MILES_TO_METERS = 1609.344;
+// Roughly the contiguous US, shown until there are leads to fit
+const DEFAULT_CENTER: L.LatLngTuple = [39.8, -98.6];
+const DEFAULT_ZOOM = 4;
+
+// Leads in a stage that no longer exists
+const FALLBACK_COLOR = "#6b7280";
+
+function markerIcon(color: string, selected: boolean) {
+  const size = selected ? 20 : 14;
+  return L.divIcon({
+    className: "",
+    iconSize: [size, size],
+    html: `<span style="display:block;width:${size}px;height:${size}px;border-radius:9999px;background:${color};border:2px solid ${selected ? "#111827" : "#ffffff"};box-shadow:0 0 2px rgba(0,0,0,0.5)"></span>`,
+  });
+}
+
+interface ClusteredMarkersProps {
+  points: LeadMapPoint[];
+  // Changes when the filters do, so the map only re-fits on a new result set
+  boundsKey: string;
+  stageColors: Map<string, string>;
+  selectedLeadId?: string;
+  onSelectLead: (id: string) => void;
+}
+
+// leaflet.markercluster is imperative, so the markers are managed by hand
+// rather than rendered as react-leaflet components
+function ClusteredMarkers({ points, boundsKey, stageColors, selectedLeadId, onSelectLead }: ClusteredMarkersProps) {
+  const map = useMap();
+  const clusterRef = useRef<L.MarkerClusterGroup>();
+  const markersRef = useRef(new Map<string, L.Marker>());
+  const fittedKeyRef = useRef<string>();
+  const shownLeadIdRef = useRef<string>();
+  const onSelectRef = useRef(onSelectLead);
+  onSelectRef.current = onSelectLead;
+  const colorOf = (point: LeadMapPoint) => stageColors.get(point.contactStatus ?? "") ?? FALLBACK_COLOR;
+
+  useEffect(() => {
+    const cluster = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 });
+    map.addLayer(cluster);
+    clusterRef.current = cluster;
+    return () => {
+      map.removeLayer(cluster);
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const cluster = clusterRef.current!;
+    cluster.clearLayers();
+    markersRef.current.clear();
+
+    const markers = points.map((point) => {
+      const marker = L.marker([point.latitude, point.longitude], {
+        icon: markerIcon(colorOf(point), false),
+      });
+      // Business names are scraped text, so they go in as text, never HTML
+      const label = document.createElement("span");
+      label.textContent = point.businessName;
+      marker.bindTooltip(label);
+      marker.on("click", () => onSelectRef.current(point.id));
+      markersRef.current.set(point.id, marker);
+      return marker;
+    });
+    cluster.addLayers(markers);
+
+    if (points.length > 0 && fittedKeyRef.current !== boundsKey) {
+      fittedKeyRef.current = boundsKey;
+      map.fitBounds(cluster.getBounds(), { padding: [30, 30], maxZoom: 14 });
+    }
+  }, [points, boundsKey, stageColors]);
+
+  // Highlights the selected lead. A newly selected lead is also zoomed to,
+  // far enough to pull it out of its cluster.
+  useEffect(() => {
+    const marker = selectedLeadId ? markersRef.current.get(selectedLeadId) : undefined;
+    if (!marker) return;
+    const point = points.find((item) => item.id === selectedLeadId)!;
+    marker.setIcon(markerIcon(colorOf(point), true));
+    marker.setZIndexOffset(1000);
+    if (shownLeadIdRef.current !== selectedLeadId) {
+      shownLeadIdRef.current = selectedLeadId;
+      clusterRef.current!.zoomToShowLayer(marker, () => marker.openTooltip());
+    }
+    return () => {
+      marker.setIcon(markerIcon(colorOf(point), false));
+      marker.setZIndexOffset(0);
+    };
+  }, [selectedLeadId, points, stageColors]);
+
+  return null;
+}
+
+function VertexCollector({ onAdd }: { onAdd: (vertex: L.LatLngTuple) => void }) {
+  const map = useMapEvents({
+    click: (event) => onAdd([event.latlng.lat, event.latlng.lng]),
+  });
+
+  // Double clicks would otherwise zoom in while placing points
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    return () => {
+      map.doubleClickZoom.enable();
+    };
+  }, [map]);
+
+  return null;
+}
+
+interface LeadMapProps {
+  points: LeadMapPoint[];
+  total: number;
+  campaigns: Campaign[];
+  // Markers are coloured by pipeline stage
+  stages: PipelineStage[];
+  boundsKey: string;
+  selectedLeadId?: string;
+  onSelectLead: (id: string) => void;
+  polygon?: GeoPolygon;
+  onPolygonChange: (polygon: GeoPolygon | undefined) => void;
+}
+
+export function LeadMap({
+  points,
+  total,
+  campaigns,
+  stages,
+  boundsKey,
+  selectedLeadId,
+  onSelectLead,
+  polygon,
+  onPolygonChange,
+}: LeadMapProps) {
+  const [drawing, setDrawing] = useState(false);
+  const [vertices, setVertices] = useState<L.LatLngTuple[]>([]);
+  const stageColors = useMemo(() => new Map(stages.map((stage) => [stage.key, stage.color])), [stages]);
+
+  const finishDrawing = () => {
+    onPolygonChange(vertices.map(([latitude, longitude]) => ({ latitude, longitude })));
+    setDrawing(false);
+    setVertices([]);
+  };
+
+  const cancelDrawing = () => {
+    setDrawing(false);
+    setVertices([]);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="lead-map">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {stages.map((stage) => (
+            <span key={stage.key} className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ background: stage.color }}></span>
+              {stage.name}
+            </span>
+          ))}
+          {total > points.length && <span>Showing the newest {points.length} of {total} located leads</span>}
+        </div>
+        <div className="flex items-center space-x-2">
+          {drawing ? (
+            <>
+              <span className="text-xs text-muted-foreground">Click the map to add corners</span>
+              <Button size="sm" onClick={finishDrawing} disabled={vertices.length < 3} data-testid="button-finish-area">
+                Finish ({vertices.length})
+              </Button>
+              <Button size="sm" variant="ghost" onClick={cancelDrawing} data-testid="button-cancel-area">
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              {polygon && (
+                <Button size="sm" variant="ghost" onClick={() => onPolygonChange(undefined)} data-testid="button-clear-area">
+                  <i className="fas fa-times mr-2"></i>
+                  Clear Area
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => setDrawing(true)} data-testid="button-draw-area">
+                <i className="fas fa-draw-polygon mr-2"></i>
+                {polygon ? "Redraw Area" : "Draw Area"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="h-[480px] rounded-lg overflow-hidden border border-border relative z-0">
+        <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} className="h-full w-full">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          {campaigns
+            .filter((campaign) => campaign.latitude !== null && campaign.longitude !== null)
+            .map((campaign) => (
+              <Circle
+                key={campaign.id}
+                center={[campaign.latitude!, campaign.longitude!]}
+                radius={campaign.radius * MILES_TO_METERS}
+                pathOptions={{ color: "#2563eb", weight: 1, fillOpacity: 0.05 }}
+              />
+            ))}
+          <ClusteredMarkers
+            points={points}
+            boundsKey={boundsKey}
+            stageColors={stageColors}
+            selectedLeadId={selectedLeadId}
+            onSelectLead={onSelectLead}
+          />
+          {polygon && !drawing && (
+            <Polygon
+              positions={polygon.map(({ latitude, longitude }) => [latitude, longitude] as L.LatLngTuple)}
+              pathOptions={{ color: "#7c3aed", weight: 2, fillOpacity: 0.1 }}
+            />
+          )}
+          {drawing && (
+            <>
+              <VertexCollector onAdd={(vertex) => setVertices((prev) => [...prev, vertex])} />
+              <Polyline positions={vertices} pathOptions={{ color: "#7c3aed", dashArray: "4 4" }} />
+            </>
+          )}
+        </MapContainer>
+      </div>
+    </div>
+  );
+}
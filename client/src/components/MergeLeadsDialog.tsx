@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { Lead, LeadDuplicateGroup, LeadMergeField, LeadMergeRequest } from "@shared/schema";
+
+const fieldLabels: Record<LeadMergeField, string> = {
+  businessName: "Business Name",
+  category: "Category",
+  phone: "Phone",
+  email: "Email",
+  website: "Website",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "ZIP Code",
+  rating: "Rating",
+  reviewCount: "Reviews",
+  contactStatus: "Contact Status",
+  notes: "Notes",
+};
+
+const fieldValue = (lead: Lead, field: LeadMergeField) => {
+  const value = lead[field];
+  return value === null || value === undefined ? "" : String(value);
+};
+
+// Keeps the canonical lead's value unless it is empty
+function defaultChoices(leads: Lead[]): Partial<Record<LeadMergeField, string>> {
+  const choices: Partial<Record<LeadMergeField, string>> = {};
+  for (const field of Object.keys(fieldLabels) as LeadMergeField[]) {
+    const source = leads.find((lead) => fieldValue(lead, field)) ?? leads[0];
+    choices[field] = source.id;
+  }
+  return choices;
+}
+
+interface MergeLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Any lead of the duplicate group
+  leadId?: string;
+}
+
+export function MergeLeadsDialog({ open, onOpenChange, leadId }: MergeLeadsDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<LeadMergeField, string>>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: group, isLoading } = useQuery<LeadDuplicateGroup>({
+    queryKey: ["/api/leads", leadId, "duplicates"],
+    enabled: open && !!leadId,
+  });
+
+  const leads = group ? [group.canonical, ...group.duplicates] : [];
+
+  useEffect(() => {
+    if (group) {
+      setChoices(defaultChoices([group.canonical, ...group.duplicates]));
+    }
+  }, [group]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (request: LeadMergeRequest) => {
+      const response = await apiRequest("POST", `/api/leads/${group!.canonical.id}/merge`, request);
+      return response.json() as Promise<Lead>;
+    },
+    onSuccess: (lead, request) => {
+      toast({
+        title: "Leads Merged",
+        description: `${request.duplicateIds.length} duplicate${request.duplicateIds.length === 1 ? "" : "s"} merged into ${lead.businessName}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Merge Failed",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only fields where the leads disagree need a decision
+  const conflictingFields = (Object.keys(fieldLabels) as LeadMergeField[]).filter(
+    (field) => new Set(leads.map((lead) => fieldValue(lead, field))).size > 1,
+  );
+
+  const handleMerge = () => {
+    if (!group) return;
+    const values = Object.fromEntries(
+      Object.entries(choices).filter(([, sourceId]) => sourceId !== group.canonical.id),
+    );
+    mergeMutation.mutate({
+      duplicateIds: group.duplicates.map((lead) => lead.id),
+      values,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicates</DialogTitle>
+          <DialogDescription>
+            Choose which value to keep for each field. The merged lead keeps the tags of every duplicate, and the
+            duplicates are deleted after merging.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !group ? (
+          <div className="text-center py-8 text-muted-foreground">Loading duplicates...</div>
+        ) : group.duplicates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">This lead has no duplicates.</div>
+        ) : (
+          <div className="space-y-4">
+            <div
+              className="grid gap-3 text-sm"
+              style={{ gridTemplateColumns: `8rem repeat(${leads.length}, minmax(0, 1fr))` }}
+            >
+              <div></div>
+              {leads.map((lead) => (
+                <div key={lead.id} className="font-medium text-foreground truncate">
+                  {lead.businessName}
+                  {lead.id === group.canonical.id && (
+                    <Badge variant="secondary" className="ml-2 text-xs">Kept</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {conflictingFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All fields match; merging just removes the duplicates.</p>
+            ) : (
+              conflictingFields.map((field) => (
+                <RadioGroup
+                  key={field}
+                  value={choices[field]}
+                  onValueChange={(sourceId) => setChoices((prev) => ({ ...prev, [field]: sourceId }))}
+                  className="grid gap-3 items-start border-t border-border pt-3"
+                  style={{ gridTemplateColumns: `8rem repeat(${leads.length}, minmax(0, 1fr))` }}
+                  data-testid={`radio-merge-${field}`}
+                >
+                  <Label className="text-sm text-muted-foreground">{fieldLabels[field]}</Label>
+                  {leads.map((lead) => (
+                    <div key={lead.id} className="flex items-start space-x-2">
+                      <RadioGroupItem value={lead.id} id={`merge-${field}-${lead.id}`} />
+                      <Label htmlFor={`merge-${field}-${lead.id}`} className="text-sm font-normal break-words">
+                        {fieldValue(lead, field) || <span className="text-muted-foreground italic">empty</span>}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ))
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleMerge} disabled={mergeMutation.isPending} data-testid="button-merge-leads">
+                <i className="fas fa-object-group mr-2"></i>
+                {mergeMutation.isPending ? "Merging..." : `Merge ${group.duplicates.length + 1} Leads`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
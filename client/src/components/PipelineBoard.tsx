@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, buildQueryString } from "@/lib/queryClient";
+import type { Lead, LeadPage, LeadQueryParams, PipelineStage } from "@shared/schema";
+
+// Cards loaded per column at a time
+const COLUMN_PAGE_SIZE = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scoreBadgeClassName = (score: number) =>
+  score >= 70 ? "bg-green-100 text-green-800" : score >= 40 ? "bg-yellow-100 text-yellow-800" : "bg-red-100 text-red-800";
+
+const daysInStage = (lead: Lead) => {
+  const since = lead.stageChangedAt ?? lead.createdAt;
+  return since ? Math.floor((Date.now() - new Date(since).getTime()) / DAY_MS) : 0;
+};
+
+interface LeadMove {
+  leadId: string;
+  from: string;
+  to: string;
+}
+
+interface BoardColumnProps {
+  stage: PipelineStage;
+  params: LeadQueryParams;
+  onMove: (move: LeadMove) => void;
+}
+
+function BoardColumn({ stage, params, onMove }: BoardColumnProps) {
+  const [isOver, setIsOver] = useState(false);
+  const columnParams: LeadQueryParams = { ...params, contactStatus: stage.key, limit: COLUMN_PAGE_SIZE };
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<LeadPage>({
+    queryKey: ["/api/leads", columnParams],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest(
+        "GET",
+        `/api/leads${buildQueryString({ ...columnParams, cursor: pageParam as string | undefined })}`,
+      );
+      return response.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const leads = data?.pages.flatMap((page) => page.leads) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  return (
+    <div
+      className={`flex flex-col w-72 shrink-0 rounded-lg bg-muted/50 border-t-4 ${isOver ? "ring-2 ring-primary" : ""}`}
+      style={{ borderTopColor: stage.color }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        const move = JSON.parse(e.dataTransfer.getData("application/json") || "null") as Omit<LeadMove, "to"> | null;
+        if (move && move.from !== stage.key) {
+          onMove({ ...move, to: stage.key });
+        }
+      }}
+      data-testid={`board-column-${stage.key}`}
+    >
+      <div className="flex items-center justify-between px-3 py-2">
+        <span className="text-sm font-medium text-foreground">{stage.name}</span>
+        <Badge variant="secondary" className="text-xs">{total}</Badge>
+      </div>
+      <div className="flex-1 space-y-2 px-2 pb-2 min-h-24 max-h-[640px] overflow-y-auto">
+        {isLoading && <p className="text-xs text-muted-foreground px-1">Loading...</p>}
+        {leads.map((lead) => (
+          <div
+            key={lead.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData("application/json", JSON.stringify({ leadId: lead.id, from: stage.key }));
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            className="rounded-md bg-background border border-border p-3 space-y-1 cursor-grab active:cursor-grabbing"
+            data-testid={`board-card-${lead.id}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <Link href={`/leads/${lead.id}`} className="text-sm font-medium text-foreground hover:underline">
+                {lead.businessName}
+              </Link>
+              {lead.score !== null && (
+                <Badge className={`text-xs shrink-0 ${scoreBadgeClassName(lead.score)}`}>{lead.score}</Badge>
+              )}
+            </div>
+            {(lead.category || lead.city) && (
+              <p className="text-xs text-muted-foreground">
+                {[lead.category, lead.city].filter(Boolean).join(" • ")}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {daysInStage(lead) === 0 ? "Moved here today" : `${daysInStage(lead)}d in stage`}
+            </p>
+          </div>
+        ))}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid={`button-board-more-${stage.key}`}
+          >
+            {isFetchingNextPage ? "Loading..." : `Show more (${leads.length} of ${total})`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PipelineBoardProps {
+  stages: PipelineStage[];
+  // The Results filters; each column adds its own stage
+  params: LeadQueryParams;
+}
+
+export function PipelineBoard({ stages, params }: PipelineBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const moveLeadMutation = useMutation({
+    mutationFn: async ({ leadId, to }: LeadMove) => {
+      const response = await apiRequest("PATCH", `/api/leads/${leadId}`, { contactStatus: to });
+      return response.json() as Promise<Lead>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/map"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to move the lead. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div
+      className={`flex gap-4 overflow-x-auto pb-2 transition-opacity ${moveLeadMutation.isPending ? "opacity-60" : ""}`}
+      data-testid="pipeline-board"
+    >
+      {stages.map((stage) => (
+        <BoardColumn key={stage.key} stage={stage} params={params} onMove={(move) => moveLeadMutation.mutate(move)} />
+      ))}
+    </div>
+  );
+}
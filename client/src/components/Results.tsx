@@ -1,104 +1,420 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { Lead } from "@shared/schema";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { MergeLeadsDialog } from "@/components/MergeLeadsDialog";
+import { LeadMap } from "@/components/LeadMap";
+import { PipelineBoard } from "@/components/PipelineBoard";
+import { TagInput } from "@/components/TagInput";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
+import { apiErrorMessage, apiRequest, buildQueryString } from "@/lib/queryClient";
+import type {
+  Campaign,
+  DedupResult,
+  EnrichLeadsRequest,
+  ExportFormat,
+  GeocodeLeadsRequest,
+  GeoPolygon,
+  LeadExportParams,
+  LeadEnrichmentQueued,
+  LeadGeocodingQueued,
+  LeadMapData,
+  LeadPage,
+  LeadQueryParams,
+  LeadColumn,
+  LeadSortField,
+  PipelineStage,
+  SavedView,
+  SavedViewQuery,
+  UserSettings,
+} from "@shared/schema";
+
+type LeadSort = { field: LeadSortField; direction: "asc" | "desc" };
+
+const sortFieldLabels: Record<LeadSortField, string> = {
+  createdAt: "Date Added",
+  businessName: "Business Name",
+  category: "Category",
+  city: "City",
+  state: "State",
+  rating: "Rating",
+  reviewCount: "Review Count",
+  contactStatus: "Contact Status",
+  score: "Score",
+  distance: "Distance",
+};
+
+const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+  vcard: "vCard",
+};
+
+const scoreBadgeClassName = (score: number) =>
+  score >= 70 ? "bg-green-100 text-green-800" : score >= 40 ? "bg-yellow-100 text-yellow-800" : "bg-red-100 text-red-800";
+
+const defaultSort: LeadSort[] = [{ field: "createdAt", direction: "desc" }];
+
+const emptyFilters = {
+  contactStatus: "all",
+  category: "all",
+  city: "all",
+  state: "all",
+  campaignId: "all",
+  minRating: "",
+  maxRating: "",
+  duplicates: "all",
+  radius: "all",
+};
+
+const allToUndefined = (value: string) => (value === "all" ? undefined : value);
+
+const columnLabels: Record<LeadColumn, string> = {
+  category: "Category",
+  contact: "Contact",
+  location: "Location",
+  status: "Status",
+  score: "Score",
+};
+
+const allColumns = Object.keys(columnLabels) as LeadColumn[];
+
+const listValue = (value: string | string[] | undefined) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+const firstValue = (value: string | string[] | undefined) => listValue(value)[0] ?? "all";
+const booleanFilter = (value: string | undefined, whenTrue: string, whenFalse: string) =>
+  value === "true" ? whenTrue : value === "false" ? whenFalse : "all";
+
+// The filter controls' values for a saved view's query, the reverse of the
+// query Results builds from them
+function viewControls(query: SavedViewQuery) {
+  const sort = listValue(query.sort).map((item) => {
+    const [field, direction = "asc"] = item.split(":");
+    return { field: field as LeadSortField, direction: direction as LeadSort["direction"] };
+  });
+  return {
+    searchTerm: query.q ?? "",
+    filterStatus: booleanFilter(query.isValidated, "validated", "pending"),
+    filters: {
+      contactStatus: firstValue(query.contactStatus),
+      category: firstValue(query.category),
+      city: firstValue(query.city),
+      state: firstValue(query.state),
+      campaignId: firstValue(query.campaignId),
+      minRating: query.minRating === undefined ? "" : String(query.minRating),
+      maxRating: query.maxRating === undefined ? "" : String(query.maxRating),
+      duplicates: booleanFilter(query.isDuplicate, "only", "hide"),
+      radius: booleanFilter(query.outsideRadius, "outside", "inside"),
+    },
+    tags: listValue(query.tags),
+    polygon: query.polygon?.split(";").map((pair) => {
+      const [latitude, longitude] = pair.split(",").map(Number);
+      return { latitude, longitude };
+    }),
+    sort: sort.length > 0 ? sort : defaultSort,
+  };
+}
 
 export function Results() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState("all");
-  const [selectedLead, setSelectedLead] = useState<any>(null);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [sort, setSort] = useState<LeadSort[]>(defaultSort);
+  const [view, setView] = useState<"table" | "map" | "board">("table");
+  // Shared by the table and the map: clicking either highlights the lead in both
+  const [highlightedLeadId, setHighlightedLeadId] = useState<string>();
+  const [polygon, setPolygon] = useState<GeoPolygon>();
+  const [mergeLeadId, setMergeLeadId] = useState<string>();
+  // Rows ticked for bulk actions; kept while paging through more results
+  const [visibleColumns, setVisibleColumns] = useState<LeadColumn[]>(allColumns);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Every lead matching the filters, loaded or not
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const debouncedSearch = useDebounce(searchTerm);
+  const { lastMessage } = useWebSocket();
+  // Saved views open as /results?view=<id>
+  const viewId = new URLSearchParams(useSearch()).get("view") ?? undefined;
 
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ["/api/leads"],
+  const { data: activeView } = useQuery<SavedView>({
+    queryKey: ["/api/views", viewId],
+    enabled: !!viewId,
   });
 
-  const updateLeadMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: any }) => {
-      const response = await apiRequest("PATCH", `/api/leads/${id}`, updates);
+  // Opening a view replaces the filters, sort and columns; they can then be
+  // changed freely until the view is saved again
+  useEffect(() => {
+    if (!activeView) return;
+    const controls = viewControls(activeView.query);
+    setSearchTerm(controls.searchTerm);
+    setFilterStatus(controls.filterStatus);
+    setFilters(controls.filters);
+    setFilterTags(controls.tags);
+    setPolygon(controls.polygon);
+    setSort(controls.sort);
+    setVisibleColumns(allColumns.filter((column) => activeView.columns.includes(column)));
+  }, [activeView?.id]);
+
+  useEffect(() => {
+    if (["leads_validated", "leads_enriched", "leads_scored", "leads_geocoded"].includes(lastMessage?.type)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/map"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    }
+  }, [lastMessage]);
+
+  const queryParams: LeadQueryParams = {
+    q: debouncedSearch || undefined,
+    isValidated: filterStatus === "all" ? undefined : filterStatus === "validated" ? "true" : "false",
+    contactStatus: allToUndefined(filters.contactStatus),
+    category: allToUndefined(filters.category),
+    city: allToUndefined(filters.city),
+    state: allToUndefined(filters.state),
+    campaignId: allToUndefined(filters.campaignId),
+    tags: filterTags,
+    minRating: filters.minRating ? Number(filters.minRating) : undefined,
+    maxRating: filters.maxRating ? Number(filters.maxRating) : undefined,
+    isDuplicate: filters.duplicates === "hide" ? "false" : filters.duplicates === "only" ? "true" : undefined,
+    outsideRadius: filters.radius === "inside" ? "false" : filters.radius === "outside" ? "true" : undefined,
+    polygon: polygon?.map(({ latitude, longitude }) => `${latitude.toFixed(6)},${longitude.toFixed(6)}`).join(";"),
+    sort: sort.map(({ field, direction }) => `${field}:${direction}`),
+  };
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<LeadPage>({
+    queryKey: ["/api/leads", queryParams],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest(
+        "GET",
+        `/api/leads${buildQueryString({ ...queryParams, cursor: pageParam as string | undefined })}`,
+      );
       return response.json();
     },
-    onSuccess: () => {
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
+    // The board loads each stage's leads itself
+    enabled: view !== "board",
+  });
+
+  const filteredLeads = data?.pages.flatMap((page) => page.leads) ?? [];
+  const totalLeads = data?.pages[0]?.total ?? 0;
+
+  const { sort: _sort, ...mapParams } = queryParams;
+  const filterKey = JSON.stringify(mapParams);
+
+  // A new filter matches a different set of leads
+  useEffect(() => {
+    setAllMatchingSelected(false);
+  }, [filterKey]);
+  const { data: mapData } = useQuery<LeadMapData>({
+    queryKey: ["/api/leads/map", mapParams],
+    enabled: view === "map",
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: facets } = useQuery<{ categories: string[]; cities: string[]; states: string[] }>({
+    queryKey: ["/api/leads/facets"],
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: stages = [] } = useQuery<PipelineStage[]>({
+    queryKey: ["/api/pipeline"],
+  });
+  const stagesByKey = new Map(stages.map((stage) => [stage.key, stage]));
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // Radius circles for the campaigns the plotted leads belong to
+  const mapCampaignIds = new Set(mapData?.points.map((point) => point.campaignId));
+  const mapCampaigns = campaigns.filter((campaign) => mapCampaignIds.has(campaign.id));
+
+  const handleSelectOnMap = (id: string) => {
+    setHighlightedLeadId(id);
+    document.querySelector(`[data-lead-id="${id}"]`)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  const activeFilterCount = Object.entries(filters)
+    .filter(([key, value]) => value !== emptyFilters[key as keyof typeof emptyFilters])
+    .length + (filterTags.length > 0 ? 1 : 0);
+
+  const showsColumn = (column: LeadColumn) => visibleColumns.includes(column);
+
+  const isSelected = (id: string) => allMatchingSelected || selectedIds.has(id);
+  const allLoadedSelected = filteredLeads.length > 0 && filteredLeads.every((lead) => isSelected(lead.id));
+
+  // Unticking a row while every match is selected falls back to the loaded rows
+  const toggleSelected = (id: string, checked: boolean) => {
+    const base = allMatchingSelected ? new Set(filteredLeads.map((lead) => lead.id)) : selectedIds;
+    const next = new Set(base);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setAllMatchingSelected(false);
+    setSelectedIds(next);
+  };
+
+  const clearSelection = () => {
+    setAllMatchingSelected(false);
+    setSelectedIds(new Set());
+  };
+
+  // Clicking a column sorts by it alone; shift-click adds it as a secondary sort
+  const handleSortClick = (field: LeadSortField, append: boolean) => {
+    setSort((prev) => {
+      const existing = prev.find((item) => item.field === field);
+      const direction: LeadSort["direction"] = existing?.direction === "asc" ? "desc" : "asc";
+      if (!append) {
+        return [{ field, direction }];
+      }
+      return existing
+        ? prev.map((item) => (item.field === field ? { field, direction } : item))
+        : [...prev, { field, direction: "asc" }];
+    });
+  };
+
+  const sortIndicator = (field: LeadSortField) => {
+    const index = sort.findIndex((item) => item.field === field);
+    if (index === -1) return <i className="fas fa-sort ml-1 text-muted-foreground/50"></i>;
+    return (
+      <>
+        <i className={`fas fa-sort-${sort[index].direction === "asc" ? "up" : "down"} ml-1`}></i>
+        {sort.length > 1 && <sup className="ml-0.5">{index + 1}</sup>}
+      </>
+    );
+  };
+
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Metadata and compression come from the saved export preferences
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const params: LeadExportParams = { ...queryParams, format };
+      const response = await apiRequest("GET", `/api/leads/export${buildQueryString(params)}`);
+      const disposition = response.headers.get("Content-Disposition");
+      return {
+        blob: await response.blob(),
+        filename: disposition?.match(/filename="(.+)"/)?.[1] ?? `leads.${format}`,
+        count: Number(response.headers.get("X-Lead-Count") ?? 0),
+      };
+    },
+    onSuccess: ({ blob, filename, count }, format) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Export Successful",
+        description: `${count} leads exported to ${exportFormatLabels[format]}. A copy was saved to your files.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    },
+    onError: () => {
+      toast({
+        title: "Export Failed",
+        description: "Failed to export leads. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dedupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/leads/dedup");
+      return response.json() as Promise<DedupResult>;
+    },
+    onSuccess: (result) => {
       toast({
-        title: "Lead Updated",
-        description: "Lead information has been updated successfully.",
+        title: "Duplicate Scan Complete",
+        description: result.duplicates > 0
+          ? `Found ${result.duplicates} duplicates in ${result.groups} groups across ${result.scanned} leads.`
+          : `No duplicates found across ${result.scanned} leads.`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-      setSelectedLead(null);
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to update lead. Please try again.",
+        description: "Failed to scan for duplicates. Please try again.",
         variant: "destructive",
       });
     },
   });
 
-  const filteredLeads = leads.filter((lead: Lead) => {
-    const matchesSearch = lead.businessName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (lead.category && lead.category.toLowerCase().includes(searchTerm.toLowerCase())) ||
-                         (lead.city && lead.city.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesFilter = filterStatus === "all" || 
-                         (filterStatus === "validated" && lead.isValidated) ||
-                         (filterStatus === "pending" && !lead.isValidated);
-    
-    return matchesSearch && matchesFilter;
+  const enrichMutation = useMutation({
+    mutationFn: async (request: EnrichLeadsRequest) => {
+      const response = await apiRequest("POST", "/api/leads/enrich", request);
+      return response.json() as Promise<LeadEnrichmentQueued>;
+    },
+    onSuccess: ({ queued }) => {
+      toast({
+        title: "Enrichment Started",
+        description: queued > 0
+          ? `Crawling ${queued} website${queued === 1 ? "" : "s"} for contact details.`
+          : "No leads with a website are missing an email.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start enrichment. Please try again.",
+        variant: "destructive",
+      });
+    },
   });
 
-  const handleUpdateLead = (updates: any) => {
-    if (selectedLead) {
-      updateLeadMutation.mutate({ id: selectedLead.id, updates });
-    }
-  };
-
-  const handleExport = () => {
-    // Simple CSV export
-    const csvHeaders = ["Business Name", "Category", "Phone", "Email", "Website", "Address", "City", "State", "Status"];
-    const csvData = filteredLeads.map((lead: Lead) => [
-      lead.businessName,
-      lead.category || "",
-      lead.phone || "",
-      lead.email || "",
-      lead.website || "",
-      lead.address || "",
-      lead.city || "",
-      lead.state || "",
-      lead.isValidated ? "Validated" : "Pending"
-    ]);
-    
-    const csvContent = [csvHeaders, ...csvData]
-      .map(row => row.map((cell: any) => `"${cell}"`).join(","))
-      .join("\n");
-    
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "leads.csv";
-    a.click();
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Export Successful",
-      description: "Leads have been exported to CSV file.",
-    });
-  };
-
-  if (isLoading) {
-    return <div className="p-6">Loading results...</div>;
-  }
+  const geocodeMutation = useMutation({
+    mutationFn: async (request: GeocodeLeadsRequest) => {
+      const response = await apiRequest("POST", "/api/leads/geocode", request);
+      return response.json() as Promise<LeadGeocodingQueued>;
+    },
+    onSuccess: ({ queued }) => {
+      toast({
+        title: "Geocoding Started",
+        description: queued > 0
+          ? `Locating ${queued} lead${queued === 1 ? "" : "s"} and measuring their distance from the campaign.`
+          : "All leads have already been located.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start geocoding. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
   return (
     <div className="space-y-6">
@@ -108,9 +424,59 @@ export function Results() {
           <h1 className="text-3xl font-bold font-serif text-foreground mb-2">Results & Data</h1>
           <p className="text-muted-foreground">Manage and analyze your generated leads</p>
         </div>
-        <Button onClick={handleExport} data-testid="button-export-results">
-          <i className="fas fa-download mr-2"></i>Export to CSV
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => dedupMutation.mutate()}
+            disabled={dedupMutation.isPending}
+            data-testid="button-find-duplicates"
+          >
+            <i className={`fas ${dedupMutation.isPending ? "fa-spinner fa-spin" : "fa-clone"} mr-2`}></i>
+            {dedupMutation.isPending ? "Scanning..." : "Find Duplicates"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => enrichMutation.mutate({})}
+            disabled={enrichMutation.isPending}
+            title="Crawl the websites of leads without an email for contact details"
+            data-testid="button-enrich-leads"
+          >
+            <i className="fas fa-globe mr-2"></i>
+            Enrich from Websites
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => geocodeMutation.mutate({})}
+            disabled={geocodeMutation.isPending}
+            title="Geocode leads that haven't been located yet"
+            data-testid="button-geocode-leads"
+          >
+            <i className="fas fa-map-marker-alt mr-2"></i>
+            Locate Leads
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={exportMutation.isPending} data-testid="button-export-results">
+                <i className={`fas ${exportMutation.isPending ? "fa-spinner fa-spin" : "fa-download"} mr-2`}></i>
+                {exportMutation.isPending ? "Exporting..." : "Export"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(exportFormatLabels) as ExportFormat[]).map((format) => (
+                <DropdownMenuItem
+                  key={format}
+                  onClick={() => exportMutation.mutate(format)}
+                  data-testid={`menu-export-${format}`}
+                >
+                  {exportFormatLabels[format]}
+                  {settings?.export.defaultFormat === format && (
+                    <span className="ml-2 text-xs text-muted-foreground">(default)</span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
 
       {/* Filters */}
@@ -146,6 +512,9 @@ export function Results() {
                 onClick={() => {
                   setSearchTerm("");
                   setFilterStatus("all");
+                  setFilters(emptyFilters);
+                  setFilterTags([]);
+                  setSort(defaultSort);
                 }}
                 data-testid="button-clear-filters"
               >
@@ -153,6 +522,144 @@ export function Results() {
               </Button>
             </div>
           </div>
+
+          {showFilters && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4 pt-4 border-t border-border" data-testid="panel-advanced-filters">
+              <div>
+                <Label>Contact Status</Label>
+                <Select value={filters.contactStatus} onValueChange={(value) => updateFilter("contactStatus", value)}>
+                  <SelectTrigger data-testid="select-filter-contact-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Category</Label>
+                <Select value={filters.category} onValueChange={(value) => updateFilter("category", value)}>
+                  <SelectTrigger data-testid="select-filter-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    {facets?.categories.map((category) => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>City</Label>
+                <Select value={filters.city} onValueChange={(value) => updateFilter("city", value)}>
+                  <SelectTrigger data-testid="select-filter-city">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    {facets?.cities.map((city) => (
+                      <SelectItem key={city} value={city}>{city}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>State</Label>
+                <Select value={filters.state} onValueChange={(value) => updateFilter("state", value)}>
+                  <SelectTrigger data-testid="select-filter-state">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    {facets?.states.map((state) => (
+                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Campaign</Label>
+                <Select value={filters.campaignId} onValueChange={(value) => updateFilter("campaignId", value)}>
+                  <SelectTrigger data-testid="select-filter-campaign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    {campaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="filter-tags">Tags</Label>
+                <TagInput
+                  id="filter-tags"
+                  value={filterTags}
+                  onChange={setFilterTags}
+                  allowNew={false}
+                  placeholder="Any of these tags"
+                  testId="input-filter-tags"
+                />
+              </div>
+              <div>
+                <Label>Rating</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max="5"
+                    step="0.5"
+                    placeholder="Min"
+                    value={filters.minRating}
+                    onChange={(e) => updateFilter("minRating", e.target.value)}
+                    data-testid="input-filter-min-rating"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="5"
+                    step="0.5"
+                    placeholder="Max"
+                    value={filters.maxRating}
+                    onChange={(e) => updateFilter("maxRating", e.target.value)}
+                    data-testid="input-filter-max-rating"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Duplicates</Label>
+                <Select value={filters.duplicates} onValueChange={(value) => updateFilter("duplicates", value)}>
+                  <SelectTrigger data-testid="select-filter-duplicates">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Show all</SelectItem>
+                    <SelectItem value="hide">Hide duplicates</SelectItem>
+                    <SelectItem value="only">Duplicates only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Campaign Radius</Label>
+                <Select value={filters.radius} onValueChange={(value) => updateFilter("radius", value)}>
+                  <SelectTrigger data-testid="select-filter-radius">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Show all</SelectItem>
+                    <SelectItem value="inside">Inside radius</SelectItem>
+                    <SelectItem value="outside">Outside radius only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -160,107 +667,382 @@ export function Results() {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Lead Results ({filteredLeads.length})</span>
+            <div className="flex items-center space-x-3">
+              <span>Lead Results ({totalLeads})</span>
+              {polygon && (
+                <Badge variant="secondary" className="text-xs font-normal" data-testid="badge-map-area">
+                  In drawn area
+                  <button className="ml-1" onClick={() => setPolygon(undefined)} title="Clear area">
+                    <i className="fas fa-times"></i>
+                  </button>
+                </Badge>
+              )}
+            </div>
             <div className="flex items-center space-x-2">
-              <Button variant="ghost" size="sm" data-testid="button-filter-options">
+              <SavedViewsMenu activeView={activeView} query={queryParams} columns={visibleColumns} />
+              <Tabs value={view} onValueChange={(value) => setView(value as "table" | "map" | "board")}>
+                <TabsList className="h-9">
+                  <TabsTrigger value="table" data-testid="tab-results-table">
+                    <i className="fas fa-table mr-2"></i>Table
+                  </TabsTrigger>
+                  <TabsTrigger value="map" data-testid="tab-results-map">
+                    <i className="fas fa-map mr-2"></i>Map
+                  </TabsTrigger>
+                  <TabsTrigger value="board" data-testid="tab-results-board">
+                    <i className="fas fa-columns mr-2"></i>Board
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button
+                variant={showFilters ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setShowFilters(!showFilters)}
+                data-testid="button-filter-options"
+              >
                 <i className="fas fa-filter text-muted-foreground"></i>
+                {activeFilterCount > 0 && (
+                  <Badge variant="secondary" className="ml-1 text-xs">{activeFilterCount}</Badge>
+                )}
               </Button>
-              <Button variant="ghost" size="sm" data-testid="button-sort-options">
-                <i className="fas fa-sort text-muted-foreground"></i>
-              </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" title="Columns" data-testid="button-column-options">
+                    <i className="fas fa-columns text-muted-foreground"></i>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-56 space-y-3">
+                  <p className="text-sm font-medium">Columns</p>
+                  {allColumns.map((column) => (
+                    <div key={column} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`column-${column}`}
+                        checked={showsColumn(column)}
+                        onCheckedChange={(checked) => setVisibleColumns(
+                          allColumns.filter((item) => (item === column ? checked === true : showsColumn(item))),
+                        )}
+                        data-testid={`checkbox-column-${column}`}
+                      />
+                      <Label htmlFor={`column-${column}`} className="text-sm font-normal">{columnLabels[column]}</Label>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" data-testid="button-sort-options">
+                    <i className="fas fa-sort text-muted-foreground"></i>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-80 space-y-3">
+                  <p className="text-sm font-medium">Sort by</p>
+                  {sort.map((item, index) => (
+                    <div key={item.field} className="flex items-center justify-between text-sm">
+                      <span>{index + 1}. {sortFieldLabels[item.field]}</span>
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSort(sort.map((entry) => entry.field === item.field
+                            ? { ...entry, direction: entry.direction === "asc" ? "desc" : "asc" }
+                            : entry))}
+                          data-testid={`button-toggle-sort-${item.field}`}
+                        >
+                          {item.direction === "asc" ? "Ascending" : "Descending"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={sort.length === 1}
+                          onClick={() => setSort(sort.filter((entry) => entry.field !== item.field))}
+                          data-testid={`button-remove-sort-${item.field}`}
+                        >
+                          <i className="fas fa-times text-muted-foreground"></i>
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Select
+                    value=""
+                    onValueChange={(value) => setSort([...sort, { field: value as LeadSortField, direction: "asc" }])}
+                  >
+                    <SelectTrigger data-testid="select-add-sort">
+                      <SelectValue placeholder="Add sort column..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(sortFieldLabels) as LeadSortField[])
+                        .filter((field) => !sort.some((item) => item.field === field))
+                        .map((field) => (
+                          <SelectItem key={field} value={field}>{sortFieldLabels[field]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Tip: shift-click a column header to add it as a secondary sort.</p>
+                </PopoverContent>
+              </Popover>
             </div>
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          {filteredLeads.length === 0 ? (
+        <CardContent className="space-y-6">
+          {view === "map" && (
+            <LeadMap
+              points={mapData?.points ?? []}
+              total={mapData?.total ?? 0}
+              campaigns={mapCampaigns}
+              stages={stages}
+              boundsKey={JSON.stringify({ ...mapParams, polygon: undefined })}
+              selectedLeadId={highlightedLeadId}
+              onSelectLead={handleSelectOnMap}
+              polygon={polygon}
+              onPolygonChange={setPolygon}
+            />
+          )}
+          {view === "board" ? (
+            <PipelineBoard stages={stages} params={{ ...queryParams, contactStatus: undefined }} />
+          ) : isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading results...</div>
+          ) : filteredLeads.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               No leads found matching your criteria.
             </div>
           ) : (
-            <div className="overflow-x-auto">
+            <div className={`overflow-x-auto transition-opacity ${isFetching && !isFetchingNextPage ? "opacity-60" : ""}`}>
+              <BulkActionBar
+                selection={allMatchingSelected ? { filter: mapParams } : { leadIds: Array.from(selectedIds) }}
+                count={allMatchingSelected ? totalLeads : selectedIds.size}
+                matchingTotal={!allMatchingSelected && allLoadedSelected && totalLeads > filteredLeads.length ? totalLeads : undefined}
+                onSelectAllMatching={() => setAllMatchingSelected(true)}
+                onClear={clearSelection}
+                stages={stages}
+                campaigns={campaigns}
+              />
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b border-border text-left">
-                    <th className="pb-3 text-muted-foreground font-medium">Business Name</th>
-                    <th className="pb-3 text-muted-foreground font-medium">Category</th>
-                    <th className="pb-3 text-muted-foreground font-medium">Contact</th>
-                    <th className="pb-3 text-muted-foreground font-medium">Location</th>
-                    <th className="pb-3 text-muted-foreground font-medium">Status</th>
+                    <th className="pb-3 pr-2 w-8">
+                      <Checkbox
+                        checked={allLoadedSelected}
+                        onCheckedChange={(checked) => {
+                          if (!checked && allMatchingSelected) {
+                            clearSelection();
+                            return;
+                          }
+                          setSelectedIds((prev) => {
+                            const next = new Set(prev);
+                            filteredLeads.forEach((lead) => (checked ? next.add(lead.id) : next.delete(lead.id)));
+                            return next;
+                          });
+                        }}
+                        aria-label="Select all loaded leads"
+                        data-testid="checkbox-select-all"
+                      />
+                    </th>
+                    <th
+                      className="pb-3 text-muted-foreground font-medium cursor-pointer select-none"
+                      onClick={(e) => handleSortClick("businessName", e.shiftKey)}
+                      data-testid="header-sort-business-name"
+                    >
+                      Business Name{sortIndicator("businessName")}
+                    </th>
+                    {showsColumn("category") && (
+                      <th
+                        className="pb-3 text-muted-foreground font-medium cursor-pointer select-none"
+                        onClick={(e) => handleSortClick("category", e.shiftKey)}
+                        data-testid="header-sort-category"
+                      >
+                        Category{sortIndicator("category")}
+                      </th>
+                    )}
+                    {showsColumn("contact") && (
+                      <th className="pb-3 text-muted-foreground font-medium">Contact</th>
+                    )}
+                    {showsColumn("location") && (
+                      <th
+                        className="pb-3 text-muted-foreground font-medium cursor-pointer select-none"
+                        onClick={(e) => handleSortClick("city", e.shiftKey)}
+                        data-testid="header-sort-location"
+                      >
+                        Location{sortIndicator("city")}
+                      </th>
+                    )}
+                    {showsColumn("status") && (
+                      <th
+                        className="pb-3 text-muted-foreground font-medium cursor-pointer select-none"
+                        onClick={(e) => handleSortClick("contactStatus", e.shiftKey)}
+                        data-testid="header-sort-status"
+                      >
+                        Status{sortIndicator("contactStatus")}
+                      </th>
+                    )}
+                    {showsColumn("score") && (
+                      <th
+                        className="pb-3 text-muted-foreground font-medium cursor-pointer select-none"
+                        onClick={(e) => handleSortClick("score", e.shiftKey)}
+                        data-testid="header-sort-score"
+                      >
+                        Score{sortIndicator("score")}
+                      </th>
+                    )}
                     <th className="pb-3 text-muted-foreground font-medium">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredLeads.map((lead: any, index: number) => (
-                    <tr key={lead.id} className="border-b border-border/50" data-testid={`row-lead-${index}`}>
+                  {filteredLeads.map((lead, index) => (
+                    <tr
+                      key={lead.id}
+                      className={`border-b border-border/50 cursor-pointer ${lead.id === highlightedLeadId ? "bg-accent/60" : ""}`}
+                      onClick={() => setHighlightedLeadId(lead.id)}
+                      data-lead-id={lead.id}
+                      data-testid={`row-lead-${index}`}
+                    >
+                      <td className="py-3 pr-2" onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={isSelected(lead.id)}
+                          onCheckedChange={(checked) => toggleSelected(lead.id, checked === true)}
+                          aria-label={`Select ${lead.businessName}`}
+                          data-testid={`checkbox-lead-${index}`}
+                        />
+                      </td>
                       <td className="py-3">
                         <div>
-                          <p className="text-foreground font-medium">{lead.businessName}</p>
+                          <Link
+                            href={`/leads/${lead.id}`}
+                            className="text-foreground font-medium hover:underline"
+                            data-testid={`link-lead-${index}`}
+                          >
+                            {lead.businessName}
+                          </Link>
                           {lead.rating && (
                             <p className="text-xs text-muted-foreground">
                               ⭐ {lead.rating} ({lead.reviewCount || 0} reviews)
                             </p>
                           )}
-                        </div>
-                      </td>
-                      <td className="py-3 text-muted-foreground">{lead.category || "N/A"}</td>
-                      <td className="py-3">
-                        <div className="space-y-1">
-                          {lead.phone && (
-                            <p className="text-xs text-foreground">{lead.phone}</p>
-                          )}
-                          {lead.email && (
-                            <p className="text-xs text-muted-foreground">{lead.email}</p>
+                          {lead.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1" data-testid={`tags-lead-${index}`}>
+                              {lead.tags.map((tag) => (
+                                <span
+                                  key={tag.id}
+                                  className="rounded-full px-2 py-0.5 text-[10px] text-white"
+                                  style={{ background: tag.color }}
+                                >
+                                  {tag.name}
+                                </span>
+                              ))}
+                            </div>
                           )}
                         </div>
                       </td>
-                      <td className="py-3 text-muted-foreground">
-                        {`${lead.city || "N/A"}, ${lead.state || "N/A"}`}
-                      </td>
-                      <td className="py-3">
-                        <div className="space-y-1">
-                          <Badge 
-                            variant={lead.isValidated ? "default" : "secondary"}
-                            className="text-xs"
-                          >
-                            {lead.isValidated ? "Validated" : "Pending"}
-                          </Badge>
-                          {lead.contactStatus && lead.contactStatus !== "not_contacted" && (
-                            <Badge variant="outline" className="text-xs">
-                              {lead.contactStatus.replace("_", " ")}
+                      {showsColumn("category") && (
+                        <td className="py-3 text-muted-foreground">{lead.category || "N/A"}</td>
+                      )}
+                      {showsColumn("contact") && (
+                        <td className="py-3">
+                          <div className="space-y-1">
+                            {lead.phone && (
+                              <p className="text-xs text-foreground">{lead.phone}</p>
+                            )}
+                            {lead.email && (
+                              <p className="text-xs text-muted-foreground">{lead.email}</p>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                      {showsColumn("location") && (
+                        <td className="py-3 text-muted-foreground">
+                          <div className="space-y-1">
+                            <p>{`${lead.city || "N/A"}, ${lead.state || "N/A"}`}</p>
+                            {lead.distanceMiles !== null && (
+                              <p className="text-xs" data-testid={`text-distance-${index}`}>
+                                {lead.distanceMiles} mi away
+                              </p>
+                            )}
+                            {lead.outsideRadius && (
+                              <Badge variant="outline" className="text-xs" data-testid={`badge-outside-radius-${index}`}>
+                                Outside radius
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                      {showsColumn("status") && (
+                        <td className="py-3">
+                          <div className="space-y-1">
+                            <Badge 
+                              variant={lead.isValidated ? "default" : "secondary"}
+                              className="text-xs"
+                            >
+                              {lead.isValidated ? "Validated" : "Pending"}
+                            </Badge>
+                            {lead.isDuplicate && (
+                              <Badge variant="destructive" className="text-xs" data-testid={`badge-duplicate-${index}`}>
+                                Duplicate
+                              </Badge>
+                            )}
+                            {lead.contactStatus && lead.contactStatus !== stages[0]?.key && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                style={{ borderColor: stagesByKey.get(lead.contactStatus)?.color }}
+                              >
+                                {stagesByKey.get(lead.contactStatus)?.name ?? lead.contactStatus}
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                      {showsColumn("score") && (
+                        <td className="py-3">
+                          {lead.score === null ? (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          ) : (
+                            <Badge className={`text-xs ${scoreBadgeClassName(lead.score)}`} data-testid={`badge-score-${index}`}>
+                              {lead.score}
                             </Badge>
                           )}
-                        </div>
-                      </td>
+                        </td>
+                      )}
                       <td className="py-3">
                         <div className="flex items-center space-x-2">
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => setSelectedLead(lead)}
-                                data-testid={`button-edit-lead-${index}`}
-                              >
-                                <i className="fas fa-edit text-muted-foreground"></i>
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-md">
-                              <DialogHeader>
-                                <DialogTitle>Edit Lead</DialogTitle>
-                              </DialogHeader>
-                              <EditLeadForm 
-                                lead={selectedLead} 
-                                onUpdate={handleUpdateLead}
-                                isLoading={updateLeadMutation.isPending}
-                              />
-                            </DialogContent>
-                          </Dialog>
+                          <Link href={`/leads/${lead.id}`}>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Open lead"
+                              data-testid={`button-edit-lead-${index}`}
+                            >
+                              <i className="fas fa-edit text-muted-foreground"></i>
+                            </Button>
+                          </Link>
                           
+                          {lead.isDuplicate && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMergeLeadId(lead.id)}
+                              title="Merge duplicates"
+                              data-testid={`button-merge-lead-${index}`}
+                            >
+                              <i className="fas fa-object-group text-muted-foreground"></i>
+                            </Button>
+                          )}
+
                           {lead.website && (
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => window.open(lead.website, "_blank")}
+                              onClick={() => enrichMutation.mutate({ leadIds: [lead.id] })}
+                              disabled={enrichMutation.isPending}
+                              title="Enrich from website"
+                              data-testid={`button-enrich-lead-${index}`}
+                            >
+                              <i className="fas fa-magic text-muted-foreground"></i>
+                            </Button>
+                          )}
+
+                          {lead.website && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => window.open(lead.website!, "_blank")}
                               data-testid={`button-visit-website-${index}`}
                             >
                               <i className="fas fa-external-link-alt text-muted-foreground"></i>
@@ -272,77 +1054,28 @@ export function Results() {
                   ))}
                 </tbody>
               </table>
+              {hasNextPage && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more"
+                  >
+                    {isFetchingNextPage ? "Loading..." : `Load more (${filteredLeads.length} of ${totalLeads})`}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
-    </div>
-  );
-}
 
-function EditLeadForm({ lead, onUpdate, isLoading }: { lead: any; onUpdate: (updates: any) => void; isLoading: boolean }) {
-  const [notes, setNotes] = useState(lead?.notes || "");
-  const [tags, setTags] = useState(lead?.tags || "");
-  const [contactStatus, setContactStatus] = useState(lead?.contactStatus || "not_contacted");
-
-  const handleSubmit = () => {
-    onUpdate({
-      notes,
-      tags,
-      contactStatus,
-    });
-  };
-
-  if (!lead) return null;
-
-  return (
-    <div className="space-y-4">
-      <div>
-        <Label htmlFor="contact-status">Contact Status</Label>
-        <Select value={contactStatus} onValueChange={setContactStatus}>
-          <SelectTrigger data-testid="select-contact-status">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="not_contacted">Not Contacted</SelectItem>
-            <SelectItem value="contacted">Contacted</SelectItem>
-            <SelectItem value="interested">Interested</SelectItem>
-            <SelectItem value="not_interested">Not Interested</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
-      
-      <div>
-        <Label htmlFor="tags">Tags</Label>
-        <Input
-          id="tags"
-          value={tags}
-          onChange={(e) => setTags(e.target.value)}
-          placeholder="Enter tags separated by commas"
-          data-testid="input-tags"
-        />
-      </div>
-      
-      <div>
-        <Label htmlFor="notes">Notes</Label>
-        <Textarea
-          id="notes"
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
-          placeholder="Add notes about this lead..."
-          rows={3}
-          data-testid="textarea-notes"
-        />
-      </div>
-      
-      <Button 
-        onClick={handleSubmit} 
-        disabled={isLoading}
-        className="w-full"
-        data-testid="button-update-lead"
-      >
-        {isLoading ? "Updating..." : "Update Lead"}
-      </Button>
+      <MergeLeadsDialog
+        open={!!mergeLeadId}
+        onOpenChange={(open) => !open && setMergeLeadId(undefined)}
+        leadId={mergeLeadId}
+      />
     </div>
   );
 }
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { CreateSavedViewRequest, LeadColumn, SavedView, SavedViewQuery, UpdateSavedViewRequest } from "@shared/schema";
+
+const viewLink = (id: string) => `${window.location.origin}/results?view=${id}`;
+
+interface SavedViewsMenuProps {
+  // The view opened from the sidebar, Dashboard or a shared link
+  activeView?: SavedView;
+  // The Results setup a save stores
+  query: SavedViewQuery;
+  columns: LeadColumn[];
+}
+
+export function SavedViewsMenu({ activeView, query, columns }: SavedViewsMenuProps) {
+  const [dialog, setDialog] = useState<"create" | "rename">();
+  const [name, setName] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: views = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/views"],
+  });
+  // Someone else's shared view can only be copied
+  const ownsView = !!activeView && views.some((view) => view.id === activeView.id);
+
+  const invalidateViews = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/views"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateSavedViewRequest) => {
+      const response = await apiRequest("POST", "/api/views", request);
+      return response.json() as Promise<SavedView>;
+    },
+    onSuccess: (view) => {
+      toast({ title: "View Saved", description: `"${view.name}" is listed under Results & Data.` });
+      setDialog(undefined);
+      invalidateViews();
+      navigate(`/results?view=${view.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to save the view. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateSavedViewRequest) => {
+      const response = await apiRequest("PATCH", `/api/views/${activeView!.id}`, updates);
+      return response.json() as Promise<SavedView>;
+    },
+    onSuccess: (view, updates) => {
+      if (updates.shared) {
+        navigator.clipboard.writeText(viewLink(view.id)).then(
+          () => toast({ title: "Link Copied", description: "Anyone signed in with the link can open this view." }),
+          () => toast({ title: "View Shared", description: viewLink(view.id) }),
+        );
+      } else if (updates.pinned !== undefined) {
+        toast({ title: updates.pinned ? "Pinned to Dashboard" : "Unpinned from Dashboard" });
+      } else {
+        toast({ title: "View Updated", description: `"${view.name}" was saved.` });
+      }
+      setDialog(undefined);
+      queryClient.setQueryData(["/api/views", view.id], view);
+      invalidateViews();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to update the view. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/views/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "View Deleted" });
+      invalidateViews();
+      navigate("/results");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to delete the view. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (kind: "create" | "rename") => {
+    setName(kind === "rename" ? activeView!.name : "");
+    setPinned(false);
+    setDialog(kind);
+  };
+
+  const handleSubmit = () => {
+    if (dialog === "rename") {
+      updateMutation.mutate({ name });
+    } else {
+      createMutation.mutate({ name, query, columns, pinned });
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      {activeView && (
+        <Badge variant="secondary" className="text-xs" data-testid="badge-active-view">
+          <i className={`fas ${ownsView ? "fa-bookmark" : "fa-share-alt"} mr-1`}></i>
+          {activeView.name}
+        </Badge>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-saved-views">
+            <i className="fas fa-bookmark mr-2"></i>
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {ownsView && (
+            <>
+              <DropdownMenuItem onClick={() => updateMutation.mutate({ query, columns })} data-testid="menu-update-view">
+                Save Changes to "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openDialog("rename")} data-testid="menu-rename-view">
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => updateMutation.mutate({ pinned: !activeView.pinned })}
+                data-testid="menu-pin-view"
+              >
+                {activeView.pinned ? "Unpin from Dashboard" : "Pin to Dashboard"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => updateMutation.mutate({ shared: true })} data-testid="menu-share-view">
+                {activeView.shared ? "Copy Share Link" : "Share by Link"}
+              </DropdownMenuItem>
+              {activeView.shared && (
+                <DropdownMenuItem onClick={() => updateMutation.mutate({ shared: false })} data-testid="menu-unshare-view">
+                  Stop Sharing
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={() => deleteMutation.mutate(activeView.id)}
+                data-testid="menu-delete-view"
+              >
+                Delete View
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => openDialog("create")} data-testid="menu-save-view">
+            {activeView && !ownsView ? "Save as My View..." : "Save as New View..."}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === "rename" ? "Rename View" : "Save View"}</DialogTitle>
+            <DialogDescription>
+              {dialog === "rename"
+                ? "The view keeps its filters, sort and columns."
+                : "Saves the current filters, sort and visible columns."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && name.trim() && handleSubmit()}
+                placeholder="e.g. Hot leads to call"
+                data-testid="input-view-name"
+              />
+            </div>
+            {dialog === "create" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="view-pinned"
+                  checked={pinned}
+                  onCheckedChange={(checked) => setPinned(checked === true)}
+                  data-testid="checkbox-view-pinned"
+                />
+                <Label htmlFor="view-pinned">Pin to Dashboard</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(undefined)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!name.trim() || createMutation.isPending || updateMutation.isPending}
+              data-testid="button-submit-view"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
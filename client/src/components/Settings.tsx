@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,13 +7,71 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { useTheme } from "@/components/ThemeProvider";
 import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  ApiKeyScope,
+  ApiKeySummary,
+  CreatedApiKey,
+  PipelineStage,
+  PipelineStageOutcome,
+  PipelineUpdate,
+  ScoringRuleKey,
+  ScoringRules,
+  TagWithCount,
+  UpdateTagRequest,
+  UserSettings,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSummary,
+} from "@shared/schema";
+
+const apiKeyScopeLabels: Record<ApiKeyScope, string> = {
+  "leads:read": "Read leads",
+  "leads:write": "Write leads",
+  "campaigns:read": "Read campaigns",
+  "campaigns:run": "Run campaigns",
+};
+
+const webhookEventLabels: Record<WebhookEvent, string> = {
+  "campaign.started": "Campaign started",
+  "campaign.completed": "Campaign completed",
+  "campaign.failed": "Campaign failed",
+  "lead.created": "Leads created",
+  "lead.updated": "Lead updated",
+};
+
+const scoringRuleLabels: Record<ScoringRuleKey, { label: string; description: string }> = {
+  hasEmail: { label: "Has Email", description: "Lead has an email address" },
+  hasWebsite: { label: "Has Website", description: "Lead has a website" },
+  rating: { label: "Rating", description: "Star rating out of 5" },
+  reviewCount: { label: "Review Count", description: "Number of reviews, up to the target" },
+  validation: { label: "Validation", description: "Contact details passed validation" },
+  categoryMatch: { label: "Category Match", description: "Category matches your target categories" },
+  distance: { label: "Distance", description: "Closeness to the campaign location" },
+};
+
+const stageOutcomeLabels: Record<PipelineStageOutcome, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+const deliveryStatusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
 
 export function Settings() {
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
-  const [settings, setSettings] = useState({
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<UserSettings>({
     notifications: {
       emailAlerts: true,
       campaignComplete: true,
@@ -32,12 +91,39 @@ export function Settings() {
     },
   });
 
+  const { data: savedSettings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings(savedSettings);
+    }
+  }, [savedSettings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: UserSettings) => {
+      const response = await apiRequest("PUT", "/api/settings", data);
+      return response.json();
+    },
+    onSuccess: (saved: UserSettings) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      toast({
+        title: "Settings Saved",
+        description: "Your preferences have been updated successfully.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save settings. Please check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSaveSettings = () => {
-    // In a real app, this would save to the backend
-    toast({
-      title: "Settings Saved",
-      description: "Your preferences have been updated successfully.",
-    });
+    saveSettingsMutation.mutate(settings);
   };
 
   const updateNotificationSetting = (key: string, value: boolean) => {
@@ -251,6 +337,36 @@ export function Settings() {
         </CardContent>
       </Card>
 
+      {/* Lead Scoring */}
+      <Card data-testid="card-scoring-settings">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold font-serif">Lead Scoring</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ScoringRulesEditor />
+        </CardContent>
+      </Card>
+
+      {/* Sales Pipeline */}
+      <Card data-testid="card-pipeline-settings">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold font-serif">Sales Pipeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PipelineStagesEditor />
+        </CardContent>
+      </Card>
+
+      {/* Lead Tags */}
+      <Card data-testid="card-tag-settings">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold font-serif">Lead Tags</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TagManager />
+        </CardContent>
+      </Card>
+
       {/* Export Settings */}
       <Card data-testid="card-export-settings">
         <CardHeader>
@@ -271,6 +387,7 @@ export function Settings() {
                   <SelectItem value="csv">CSV</SelectItem>
                   <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
                   <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="vcard">vCard</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -310,45 +427,919 @@ export function Settings() {
           <CardTitle className="text-lg font-semibold font-serif">API & Integrations</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="api-key">API Key</Label>
-            <div className="flex space-x-2">
-              <Input 
-                id="api-key" 
-                type="password" 
-                value="sk-xxxxxxxxxxxxxxxxxxxxxxxx" 
-                readOnly 
-                data-testid="input-api-key"
-              />
-              <Button variant="outline" size="sm" data-testid="button-regenerate-api-key">
-                Regenerate
-              </Button>
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Use this API key to integrate with external services
-            </p>
-          </div>
+          <ApiKeyManager />
 
           <Separator />
 
-          <div className="space-y-2">
-            <Label>Webhook URL</Label>
-            <Input 
-              placeholder="https://your-app.com/webhook" 
-              data-testid="input-webhook-url"
-            />
-            <p className="text-xs text-muted-foreground">
-              Receive real-time notifications via webhook
-            </p>
-          </div>
+          <WebhookManager />
         </CardContent>
       </Card>
 
       {/* Save Button */}
       <div className="flex justify-end">
-        <Button onClick={handleSaveSettings} data-testid="button-save-settings">
+        <Button
+          onClick={handleSaveSettings}
+          disabled={saveSettingsMutation.isPending}
+          data-testid="button-save-settings"
+        >
           <i className="fas fa-save mr-2"></i>
-          Save Settings
+          {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ScoringRulesEditor() {
+  const [rules, setRules] = useState<ScoringRules | null>(null);
+  const [categories, setCategories] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: savedRules } = useQuery<ScoringRules>({
+    queryKey: ["/api/scoring-rules"],
+  });
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules);
+      setCategories(savedRules.categoryMatch.categories.join(", "));
+    }
+  }, [savedRules]);
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async (data: ScoringRules) => {
+      const response = await apiRequest("PUT", "/api/scoring-rules", data);
+      return response.json();
+    },
+    onSuccess: (saved: ScoringRules) => {
+      queryClient.setQueryData(["/api/scoring-rules"], saved);
+      toast({
+        title: "Scoring Rules Saved",
+        description: "All leads are being rescored in the background.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save scoring rules. Please check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!rules) {
+    return <p className="text-sm text-muted-foreground">Loading scoring rules...</p>;
+  }
+
+  const updateRule = (key: ScoringRuleKey, changes: Partial<ScoringRules[ScoringRuleKey]>) => {
+    setRules((prev) => prev && { ...prev, [key]: { ...prev[key], ...changes } });
+  };
+
+  const handleSave = () => {
+    saveRulesMutation.mutate({
+      ...rules,
+      categoryMatch: {
+        ...rules.categoryMatch,
+        categories: categories.split(",").map((category) => category.trim()).filter(Boolean),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Each lead scores 0-100. Weights are relative: a rule's share of the score is its weight
+        divided by the total weight of the enabled rules.
+      </p>
+
+      {(Object.keys(scoringRuleLabels) as ScoringRuleKey[]).map((key) => (
+        <div key={key} className="space-y-2" data-testid={`scoring-rule-${key}`}>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <Switch
+                checked={rules[key].enabled}
+                onCheckedChange={(enabled) => updateRule(key, { enabled })}
+                data-testid={`switch-scoring-${key}`}
+              />
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">{scoringRuleLabels[key].label}</Label>
+                <p className="text-xs text-muted-foreground">{scoringRuleLabels[key].description}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor={`scoring-weight-${key}`} className="text-xs text-muted-foreground">Weight</Label>
+              <Input
+                id={`scoring-weight-${key}`}
+                type="number"
+                min="0"
+                max="100"
+                className="w-20"
+                value={rules[key].weight}
+                disabled={!rules[key].enabled}
+                onChange={(e) => updateRule(key, { weight: parseInt(e.target.value) || 0 })}
+                data-testid={`input-scoring-weight-${key}`}
+              />
+            </div>
+          </div>
+
+          {key === "reviewCount" && (
+            <div className="ml-12 flex items-center space-x-2">
+              <Label htmlFor="scoring-review-target" className="text-xs text-muted-foreground">
+                Reviews for full marks
+              </Label>
+              <Input
+                id="scoring-review-target"
+                type="number"
+                min="1"
+                className="w-24"
+                value={rules.reviewCount.target}
+                disabled={!rules.reviewCount.enabled}
+                onChange={(e) => setRules({ ...rules, reviewCount: { ...rules.reviewCount, target: parseInt(e.target.value) || 1 } })}
+                data-testid="input-scoring-review-target"
+              />
+            </div>
+          )}
+
+          {key === "categoryMatch" && (
+            <div className="ml-12 space-y-1">
+              <Input
+                placeholder="e.g. Restaurant, Cafe (empty uses each campaign's category)"
+                value={categories}
+                disabled={!rules.categoryMatch.enabled}
+                onChange={(e) => setCategories(e.target.value)}
+                data-testid="input-scoring-categories"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          onClick={handleSave}
+          disabled={saveRulesMutation.isPending}
+          data-testid="button-save-scoring-rules"
+        >
+          {saveRulesMutation.isPending ? "Saving..." : "Save Scoring Rules"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type EditableStage = Omit<PipelineStage, "key"> & { key?: string };
+
+function PipelineStagesEditor() {
+  const [stages, setStages] = useState<EditableStage[] | null>(null);
+  // Removed stage key -> stage its leads move to
+  const [reassign, setReassign] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: savedStages } = useQuery<PipelineStage[]>({
+    queryKey: ["/api/pipeline"],
+  });
+
+  useEffect(() => {
+    if (savedStages) {
+      setStages(savedStages);
+      setReassign({});
+    }
+  }, [savedStages]);
+
+  const savePipelineMutation = useMutation({
+    mutationFn: async (data: PipelineUpdate) => {
+      const response = await apiRequest("PUT", "/api/pipeline", data);
+      return response.json() as Promise<PipelineStage[]>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/pipeline"], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pipeline/stats"] });
+      toast({
+        title: "Pipeline Saved",
+        description: "Your pipeline stages have been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to save the pipeline. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!stages || !savedStages) {
+    return <p className="text-sm text-muted-foreground">Loading pipeline...</p>;
+  }
+
+  const keptStages = stages.filter((stage): stage is PipelineStage => !!stage.key);
+  const removedStages = savedStages.filter((saved) => !keptStages.some((stage) => stage.key === saved.key));
+
+  const updateStage = (index: number, changes: Partial<EditableStage>) => {
+    setStages((prev) => prev && prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setStages((prev) => {
+      if (!prev) return prev;
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const moves = Object.fromEntries(
+      removedStages.map((stage) => [stage.key, reassign[stage.key] ?? keptStages[0]?.key]).filter(([, target]) => target),
+    );
+    savePipelineMutation.mutate({ stages, reassign: moves });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Leads move through these stages in order, and new leads start in the first one. Won and lost
+        stages close a lead and count towards the win rate in Analytics.
+      </p>
+
+      {stages.map((stage, index) => (
+        <div key={stage.key ?? `new-${index}`} className="flex items-center gap-2" data-testid={`pipeline-stage-${index}`}>
+          <Input
+            type="color"
+            className="w-12 p-1"
+            value={stage.color}
+            onChange={(e) => updateStage(index, { color: e.target.value })}
+            data-testid={`input-stage-color-${index}`}
+          />
+          <Input
+            value={stage.name}
+            onChange={(e) => updateStage(index, { name: e.target.value })}
+            placeholder="Stage name"
+            data-testid={`input-stage-name-${index}`}
+          />
+          <Select
+            value={stage.outcome}
+            onValueChange={(value) => updateStage(index, { outcome: value as PipelineStageOutcome })}
+          >
+            <SelectTrigger className="w-28" data-testid={`select-stage-outcome-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(stageOutcomeLabels) as PipelineStageOutcome[]).map((outcome) => (
+                <SelectItem key={outcome} value={outcome}>{stageOutcomeLabels[outcome]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={index === 0}
+            onClick={() => moveStage(index, -1)}
+            data-testid={`button-stage-up-${index}`}
+          >
+            <i className="fas fa-arrow-up text-muted-foreground"></i>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={index === stages.length - 1}
+            onClick={() => moveStage(index, 1)}
+            data-testid={`button-stage-down-${index}`}
+          >
+            <i className="fas fa-arrow-down text-muted-foreground"></i>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={stages.length === 1}
+            onClick={() => setStages(stages.filter((_, i) => i !== index))}
+            data-testid={`button-remove-stage-${index}`}
+          >
+            <i className="fas fa-trash text-muted-foreground"></i>
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setStages([...stages, { name: "", color: "#6b7280", outcome: "open" }])}
+        disabled={stages.length >= 20}
+        data-testid="button-add-stage"
+      >
+        <i className="fas fa-plus mr-2"></i>
+        Add Stage
+      </Button>
+
+      {removedStages.length > 0 && keptStages.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-border">
+          <p className="text-xs text-muted-foreground">Leads in removed stages move to another stage when you save.</p>
+          {removedStages.map((removed) => (
+            <div key={removed.key} className="flex items-center justify-between gap-4">
+              <Label className="text-sm">{removed.name}</Label>
+              <Select
+                value={reassign[removed.key] ?? keptStages[0].key}
+                onValueChange={(value) => setReassign({ ...reassign, [removed.key]: value })}
+              >
+                <SelectTrigger className="w-48" data-testid={`select-reassign-${removed.key}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {keptStages.map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          onClick={handleSave}
+          disabled={savePipelineMutation.isPending || stages.some((stage) => !stage.name.trim())}
+          data-testid="button-save-pipeline"
+        >
+          {savePipelineMutation.isPending ? "Saving..." : "Save Pipeline"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TagManager() {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState("#6b7280");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tags = [], isLoading } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  // Lead lists show tag names and colours, so they are refreshed too
+  const refreshTags = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const createTagMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/tags", { name, color });
+    },
+    onSuccess: () => {
+      setName("");
+      refreshTags();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to create the tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTagMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateTagRequest }) => {
+      await apiRequest("PATCH", `/api/tags/${id}`, updates);
+    },
+    onSuccess: refreshTags,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to update the tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mergeTagMutation = useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      await apiRequest("POST", `/api/tags/${targetId}/merge`, { tagIds: [sourceId] });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tags Merged",
+        description: "The leads now carry the tag they were merged into.",
+      });
+      refreshTags();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to merge the tags. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: refreshTags,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error) || "Failed to delete the tag. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Rename a tag to change it on every lead at once, or merge it into another tag to fold two spellings together.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading tags...</p>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tags yet. Add tags on a lead or below.</p>
+      ) : (
+        tags.map((tag) => (
+          <TagRow
+            key={`${tag.id}-${tag.name}-${tag.color}`}
+            tag={tag}
+            otherTags={tags.filter((other) => other.id !== tag.id)}
+            onUpdate={(updates) => updateTagMutation.mutate({ id: tag.id, updates })}
+            onMerge={(targetId) => mergeTagMutation.mutate({ sourceId: tag.id, targetId })}
+            onDelete={() => deleteTagMutation.mutate(tag.id)}
+          />
+        ))
+      )}
+
+      <div className="flex items-center gap-2 pt-2 border-t border-border">
+        <Input
+          type="color"
+          className="w-12 p-1"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          data-testid="input-new-tag-color"
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New tag name"
+          data-testid="input-new-tag-name"
+        />
+        <Button
+          variant="outline"
+          onClick={() => createTagMutation.mutate()}
+          disabled={!name.trim() || createTagMutation.isPending}
+          data-testid="button-add-tag"
+        >
+          <i className="fas fa-plus mr-2"></i>
+          Add Tag
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TagRowProps {
+  tag: TagWithCount;
+  otherTags: TagWithCount[];
+  onUpdate: (updates: UpdateTagRequest) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+}
+
+// Name and colour are saved when the field loses focus
+function TagRow({ tag, otherTags, onUpdate, onMerge, onDelete }: TagRowProps) {
+  const [name, setName] = useState(tag.name);
+  const [color, setColor] = useState(tag.color);
+
+  const saveName = () => {
+    if (name.trim() && name.trim() !== tag.name) onUpdate({ name: name.trim() });
+    else setName(tag.name);
+  };
+
+  return (
+    <div className="flex items-center gap-2" data-testid={`tag-row-${tag.id}`}>
+      <Input
+        type="color"
+        className="w-12 p-1"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => color !== tag.color && onUpdate({ color })}
+        data-testid={`input-tag-color-${tag.id}`}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => e.key === "Enter" && saveName()}
+        data-testid={`input-tag-name-${tag.id}`}
+      />
+      <Badge variant="secondary" className="text-xs shrink-0">
+        {tag.leadCount} lead{tag.leadCount === 1 ? "" : "s"}
+      </Badge>
+      <Select value="" onValueChange={onMerge} disabled={otherTags.length === 0}>
+        <SelectTrigger className="w-40 shrink-0" data-testid={`select-merge-tag-${tag.id}`}>
+          <SelectValue placeholder="Merge into..." />
+        </SelectTrigger>
+        <SelectContent>
+          {otherTags.map((other) => (
+            <SelectItem key={other.id} value={other.id}>{other.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={onDelete} title="Delete tag" data-testid={`button-delete-tag-${tag.id}`}>
+        <i className="fas fa-trash text-muted-foreground"></i>
+      </Button>
+    </div>
+  );
+}
+
+function ApiKeyManager() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["leads:read"]);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiKeys = [] } = useQuery<ApiKeySummary[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-keys", { name, scopes });
+      return response.json();
+    },
+    onSuccess: (apiKey: CreatedApiKey) => {
+      setCreatedKey(apiKey);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create API key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "API Key Revoked",
+        description: "Scripts using this key will no longer be able to connect.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke API key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((item) => item !== scope)));
+  };
+
+  const handleCopy = async () => {
+    if (createdKey) {
+      await navigator.clipboard.writeText(createdKey.key);
+      toast({ title: "Copied", description: "API key copied to clipboard." });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">API Keys</Label>
+        <p className="text-xs text-muted-foreground">
+          Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to call the API from scripts
+        </p>
+      </div>
+
+      {createdKey && (
+        <div className="p-4 border border-border rounded-lg bg-accent/50 space-y-2" data-testid="created-api-key">
+          <p className="text-sm font-medium">Copy your new key now. It won't be shown again.</p>
+          <div className="flex space-x-2">
+            <Input value={createdKey.key} readOnly className="font-mono text-xs" data-testid="input-created-api-key" />
+            <Button variant="outline" size="sm" onClick={handleCopy} data-testid="button-copy-api-key">
+              <i className="fas fa-copy"></i>
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)} data-testid="button-dismiss-api-key">
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {apiKeys.length > 0 && (
+        <div className="space-y-2">
+          {apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className="flex items-center justify-between p-3 border border-border rounded-lg"
+              data-testid={`api-key-${apiKey.id}`}
+            >
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium">{apiKey.name}</span>
+                  <code className="text-xs text-muted-foreground">{apiKey.prefix}…</code>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" className="text-xs">
+                      {apiKeyScopeLabels[scope as ApiKeyScope] ?? scope}
+                    </Badge>
+                  ))}
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleDateString()}`
+                      : "Never used"}
+                  </span>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => revokeKeyMutation.mutate(apiKey.id)}
+                disabled={revokeKeyMutation.isPending}
+                data-testid={`button-revoke-api-key-${apiKey.id}`}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 p-4 border border-dashed border-border rounded-lg">
+        <div className="space-y-2">
+          <Label htmlFor="api-key-name">New key name</Label>
+          <Input
+            id="api-key-name"
+            placeholder="e.g. Nightly sync script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-api-key-name"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(apiKeyScopeLabels) as ApiKeyScope[]).map((scope) => (
+            <label key={scope} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                data-testid={`checkbox-scope-${scope}`}
+              />
+              <span>{apiKeyScopeLabels[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => createKeyMutation.mutate()}
+          disabled={!name.trim() || scopes.length === 0 || createKeyMutation.isPending}
+          data-testid="button-create-api-key"
+        >
+          <i className="fas fa-key mr-2"></i>
+          {createKeyMutation.isPending ? "Creating..." : "Create Key"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function WebhookDeliveries({ webhookId }: { webhookId: string }) {
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks", webhookId, "deliveries"],
+    refetchInterval: 10000,
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-border text-left">
+            <th className="p-2 text-muted-foreground font-medium">Event</th>
+            <th className="p-2 text-muted-foreground font-medium">Status</th>
+            <th className="p-2 text-muted-foreground font-medium">Response</th>
+            <th className="p-2 text-muted-foreground font-medium">Attempts</th>
+            <th className="p-2 text-muted-foreground font-medium">Sent</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.map((delivery) => (
+            <tr key={delivery.id} className="border-b border-border" data-testid={`webhook-delivery-${delivery.id}`}>
+              <td className="p-2 font-mono">{delivery.event}</td>
+              <td className="p-2">
+                <Badge className={deliveryStatusColors[delivery.status]}>{delivery.status}</Badge>
+              </td>
+              <td className="p-2" title={delivery.error ?? delivery.responseBody ?? ""}>
+                {delivery.responseStatus ?? (delivery.error ? "Error" : "-")}
+              </td>
+              <td className="p-2">{delivery.attempts}</td>
+              <td className="p-2">
+                {delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt).toLocaleString() : "-"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function WebhookManager() {
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["campaign.completed"]);
+  const [createdWebhook, setCreatedWebhook] = useState<Webhook | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: webhooks = [] } = useQuery<WebhookSummary[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const createWebhookMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/webhooks", { url, events });
+      return response.json();
+    },
+    onSuccess: (webhook: Webhook) => {
+      setCreatedWebhook(webhook);
+      setUrl("");
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add webhook. Check the URL and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateWebhookMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/webhooks/${id}`, { active });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Webhook Deleted",
+        description: "The webhook and its delivery history have been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((item) => item !== event)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Webhooks</Label>
+        <p className="text-xs text-muted-foreground">
+          Receive real-time notifications via webhook. Each request is signed with HMAC-SHA256 in the{" "}
+          <code>X-Webhook-Signature</code> header.
+        </p>
+      </div>
+
+      {createdWebhook && (
+        <div className="p-4 border border-border rounded-lg bg-accent/50 space-y-2" data-testid="created-webhook">
+          <p className="text-sm font-medium">Signing secret for {createdWebhook.url}. It won't be shown again.</p>
+          <div className="flex space-x-2">
+            <Input value={createdWebhook.secret} readOnly className="font-mono text-xs" data-testid="input-webhook-secret" />
+            <Button variant="ghost" size="sm" onClick={() => setCreatedWebhook(null)} data-testid="button-dismiss-webhook-secret">
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className="p-3 border border-border rounded-lg space-y-3" data-testid={`webhook-${webhook.id}`}>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1 min-w-0">
+              <p className="text-sm font-medium truncate">{webhook.url}</p>
+              <div className="flex flex-wrap gap-1">
+                {webhook.events.map((event) => (
+                  <Badge key={event} variant="secondary" className="text-xs">
+                    {webhookEventLabels[event as WebhookEvent] ?? event}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <Switch
+                checked={webhook.active}
+                onCheckedChange={(active) => updateWebhookMutation.mutate({ id: webhook.id, active })}
+                data-testid={`switch-webhook-active-${webhook.id}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                data-testid={`button-webhook-history-${webhook.id}`}
+              >
+                History
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => deleteWebhookMutation.mutate(webhook.id)}
+                disabled={deleteWebhookMutation.isPending}
+                data-testid={`button-delete-webhook-${webhook.id}`}
+              >
+                <i className="fas fa-trash text-current"></i>
+              </Button>
+            </div>
+          </div>
+          {expandedId === webhook.id && <WebhookDeliveries webhookId={webhook.id} />}
+        </div>
+      ))}
+
+      <div className="space-y-3 p-4 border border-dashed border-border rounded-lg">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Webhook URL</Label>
+          <Input
+            id="webhook-url"
+            placeholder="https://your-app.com/webhook"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            data-testid="input-webhook-url"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(webhookEventLabels) as WebhookEvent[]).map((event) => (
+            <label key={event} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                data-testid={`checkbox-webhook-event-${event}`}
+              />
+              <span>{webhookEventLabels[event]}</span>
+            </label>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => createWebhookMutation.mutate()}
+          disabled={!url.trim() || events.length === 0 || createWebhookMutation.isPending}
+          data-testid="button-add-webhook"
+        >
+          <i className="fas fa-plus mr-2"></i>
+          {createWebhookMutation.isPending ? "Adding..." : "Add Webhook"}
         </Button>
       </div>
     </div>
@@ -1,5 +1,7 @@
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
+import type { SavedView } from "@shared/schema";
 
 const navigationItems = [
   { path: "/dashboard", label: "Dashboard", icon: "fas fa-tachometer-alt" },
@@ -17,6 +19,11 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const [location] = useLocation();
+  const activeViewId = new URLSearchParams(useSearch()).get("view");
+
+  const { data: savedViews = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/views"],
+  });
 
   return (
     <>
@@ -51,7 +58,9 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
         <nav className="flex-1 px-4 py-6">
           <ul className="space-y-2">
             {navigationItems.map((item) => {
-              const isActive = location === item.path || (item.path === "/dashboard" && location === "/");
+              const isActive = location === item.path
+                || (item.path === "/dashboard" && location === "/")
+                || (item.path === "/results" && location.startsWith("/leads/"));
               
               return (
                 <li key={item.path}>
@@ -68,6 +77,27 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                     <i className={`${item.icon} w-5 h-5`}></i>
                     <span>{item.label}</span>
                   </Link>
+                  {item.path === "/results" && savedViews.length > 0 && (
+                    <ul className="mt-1 ml-8 space-y-1" data-testid="list-saved-views">
+                      {savedViews.map((view) => (
+                        <li key={view.id}>
+                          <Link
+                            href={`/results?view=${view.id}`}
+                            className={cn(
+                              "flex items-center px-3 py-1.5 rounded-md text-sm transition-colors",
+                              location === "/results" && activeViewId === view.id
+                                ? "bg-accent text-foreground font-medium"
+                                : "text-muted-foreground hover:text-foreground hover:bg-accent"
+                            )}
+                            data-testid={`nav-view-${view.id}`}
+                          >
+                            <i className="fas fa-bookmark text-xs mr-2"></i>
+                            <span className="truncate">{view.name}</span>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </li>
               );
             })}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { TagWithCount } from "@shared/schema";
+
+// Tags that haven't been created yet
+const NEW_TAG_COLOR = "#6b7280";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (names: string[]) => void;
+  // Off for filters, where only existing tags make sense
+  allowNew?: boolean;
+  placeholder?: string;
+  id?: string;
+  testId: string;
+}
+
+// Picks tags by name, suggesting the user's existing tags as they type.
+// Enter or a comma adds what's typed; backspace in an empty box removes the last tag.
+export function TagInput({ value, onChange, allowNew = true, placeholder, id, testId }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+
+  const { data: tags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const selected = new Set(value.map((name) => name.toLowerCase()));
+  const search = text.trim().toLowerCase();
+  const suggestions = tags
+    .filter((tag) => !selected.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(search))
+    .slice(0, 8);
+  const canCreate = allowNew && !!search && !tags.some((tag) => tag.name.toLowerCase() === search);
+  const colorOf = (name: string) => tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color ?? NEW_TAG_COLOR;
+
+  const add = (names: string[]) => {
+    setText("");
+    const next = [...value];
+    for (const name of names.map((item) => item.trim()).filter(Boolean)) {
+      if (next.some((item) => item.toLowerCase() === name.toLowerCase())) continue;
+      // Existing tags keep their own spelling
+      const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+      if (existing || allowNew) {
+        next.push(existing?.name ?? name);
+      }
+    }
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 min-h-10 rounded-md border border-input bg-background px-2 py-1">
+        {value.map((name) => (
+          <span
+            key={name}
+            className="inline-flex items-center rounded-full px-2 py-0.5 text-xs text-white"
+            style={{ background: colorOf(name) }}
+            data-testid={`${testId}-tag-${name}`}
+          >
+            {name}
+            <button
+              type="button"
+              className="ml-1 opacity-80 hover:opacity-100"
+              onClick={() => onChange(value.filter((item) => item !== name))}
+              title={`Remove ${name}`}
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          className="flex-1 min-w-24 h-7 border-0 px-1 shadow-none focus-visible:ring-0"
+          value={text}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          onChange={(e) => {
+            if (e.target.value.includes(",")) {
+              const parts = e.target.value.split(",");
+              add(parts.slice(0, -1));
+              setText(parts[parts.length - 1]);
+            } else {
+              setText(e.target.value);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add([text]);
+            } else if (e.key === "Backspace" && !text && value.length > 0) {
+              onChange(value.slice(0, -1));
+            }
+          }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          data-testid={testId}
+        />
+      </div>
+      {focused && (suggestions.length > 0 || canCreate) && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border border-border bg-popover p-1 shadow-md">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              className="flex w-full items-center justify-between rounded px-2 py-1 text-sm hover:bg-accent"
+              // Keeps focus in the input so the list stays open
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add([tag.name])}
+              data-testid={`${testId}-suggestion-${tag.name}`}
+            >
+              <span className="flex items-center">
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: tag.color }}></span>
+                {tag.name}
+              </span>
+              <span className="text-xs text-muted-foreground">{tag.leadCount}</span>
+            </button>
+          ))}
+          {canCreate && (
+            <button
+              type="button"
+              className="flex w-full items-center rounded px-2 py-1 text-sm hover:bg-accent"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add([text])}
+              data-testid={`${testId}-create`}
+            >
+              <i className="fas fa-plus mr-2 text-muted-foreground"></i>
+              Create "{text.trim()}"
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,18 +13,13 @@ export function useWebSocket() {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
     
+    // The server identifies us from the session cookie sent with the upgrade
     const ws = new WebSocket(wsUrl);
     wsRef.current = ws;
 
     ws.onopen = () => {
       console.log('WebSocket connected');
       setIsConnected(true);
-      
-      // Authenticate the connection
-      ws.send(JSON.stringify({
-        type: 'auth',
-        userId: (user as any)?.id
-      }));
     };
 
     ws.onmessage = (event) => {
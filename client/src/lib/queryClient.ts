@@ -23,13 +23,48 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; returns the server's message when there is one
+export function apiErrorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string;
+  } catch {
+    return error.message;
+  }
+}
+
+// Serialises query parameters; arrays become repeated keys (?a=1&a=2) and
+// empty values are dropped.
+export function buildQueryString(params: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (item !== undefined && item !== null && item !== "") {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+// Query keys are URL segments, optionally followed by a params object:
+// ["/api/leads", { limit: 5 }] fetches /api/leads?limit=5
+export function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (queryKey.length > 1 && last && typeof last === "object") {
+    return queryKey.slice(0, -1).join("/") + buildQueryString(last as Record<string, unknown>);
+  }
+  return queryKey.join("/");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
     });
 
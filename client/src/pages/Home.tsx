@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useRoute } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -8,12 +8,16 @@ import { Header } from "@/components/Header";
 import { Dashboard } from "@/components/Dashboard";
 import { LeadGeneration } from "@/components/LeadGeneration";
 import { Results } from "@/components/Results";
+import { LeadDetail } from "@/components/LeadDetail";
+import { CampaignDetail } from "@/components/CampaignDetail";
 import { Analytics } from "@/components/Analytics";
 import { FileManagement } from "@/components/FileManagement";
 import { Settings } from "@/components/Settings";
 
 export default function Home() {
   const [location] = useLocation();
+  const [isLeadPage, leadParams] = useRoute("/leads/:id");
+  const [isCampaignPage, campaignParams] = useRoute("/campaigns/:id");
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
@@ -34,6 +38,12 @@ export default function Home() {
   }, [isAuthenticated, isLoading, toast]);
 
   const renderContent = () => {
+    if (isLeadPage) {
+      return <LeadDetail key={leadParams.id} leadId={leadParams.id} />;
+    }
+    if (isCampaignPage) {
+      return <CampaignDetail key={campaignParams.id} campaignId={campaignParams.id} />;
+    }
     switch (location) {
       case "/lead-generation":
         return <LeadGeneration />;
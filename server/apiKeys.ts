@@ -0,0 +1,47 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiKeyScope } from "@shared/schema";
+import { storage } from "./storage";
+
+const KEY_PREFIX = "lgk_";
+// Characters of the key kept in clear text for display
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export interface ApiKeyUser {
+  claims: { sub: string };
+  apiKeyId: string;
+  scopes: string[];
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Scopes a key is granted along with the ones it was created with
+const impliedScopes: Partial<Record<ApiKeyScope, ApiKeyScope[]>> = {
+  "campaigns:run": ["campaigns:read"],
+};
+
+export function hasScope(scopes: string[], scope: ApiKeyScope): boolean {
+  return scopes.some((granted) => granted === scope || impliedScopes[granted as ApiKeyScope]?.includes(scope));
+}
+
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+// The request user for a bearer key, in the same shape as an OIDC session
+// user so routes can read claims.sub. Undefined when the key is unknown or
+// revoked.
+export async function authenticateApiKey(token: string): Promise<ApiKeyUser | undefined> {
+  const apiKey = await storage.getActiveApiKeyByHash(hashApiKey(token));
+  if (!apiKey) return undefined;
+
+  storage.touchApiKey(apiKey.id).catch((error) => console.error("Error updating API key usage:", error));
+  return { claims: { sub: apiKey.userId }, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+}
@@ -0,0 +1,89 @@
+import type { BulkLeadAction, BulkLeadResult, InsertLeadActivity, TaggedLead } from "@shared/schema";
+import { storage } from "./storage";
+import { describeLeadUpdate, describeTagChange, recordLeadActivities } from "./leadActivity";
+import { saveLeadExport } from "./leadExport";
+import { queueLeadGeocoding } from "./leadGeocoding";
+import { scoreLeads } from "./scoring";
+import { emitWebhookEvent } from "./webhooks";
+
+// Describes one saved change for the lead's timeline
+function describeBulkChange(
+  userId: string,
+  action: BulkLeadAction,
+  before: TaggedLead,
+  after: TaggedLead,
+  campaignNames: Map<string, string>,
+): InsertLeadActivity[] {
+  switch (action.type) {
+    case "set_stage":
+      return describeLeadUpdate(userId, before, after, ["contactStatus"]);
+    case "mark_validated":
+      return describeLeadUpdate(userId, before, after, ["isValidated"]);
+    case "add_tags":
+    case "remove_tags":
+      return describeTagChange(userId, after.id, before.tags, after.tags);
+    case "move_campaign":
+      if (before.campaignId === after.campaignId) return [];
+      return [{
+        leadId: after.id,
+        userId,
+        type: "updated",
+        details: {
+          changes: {
+            campaign: {
+              from: campaignNames.get(before.campaignId) ?? null,
+              to: campaignNames.get(after.campaignId) ?? null,
+            },
+          },
+        },
+      }];
+    default:
+      return [];
+  }
+}
+
+// Runs the action on the user's leads. Export writes one file; every other
+// action is saved in a single transaction, reporting the leads it couldn't
+// change rather than failing the whole batch.
+export async function runBulkLeadAction(userId: string, leadIds: string[], action: BulkLeadAction): Promise<BulkLeadResult> {
+  if (action.type === "export") {
+    const { file, leadIds: exportedIds } = await saveLeadExport(userId, { id: leadIds }, { format: action.format });
+    const exported = new Set(exportedIds);
+    return {
+      action: action.type,
+      succeeded: exported.size,
+      failed: Array.from(new Set(leadIds))
+        .filter((id) => !exported.has(id))
+        .map((leadId) => ({ leadId, businessName: null, message: "Lead not found" })),
+      fileId: file.id,
+      fileName: file.originalName,
+    };
+  }
+
+  const { succeeded, failed } = await storage.applyBulkLeadChange(userId, leadIds, action);
+  const changed = succeeded.flatMap(({ before, after }) => (after ? [{ before, after }] : []));
+  const changedIds = changed.map(({ after }) => after.id);
+
+  const campaignNames = action.type === "move_campaign"
+    ? new Map((await storage.getUserCampaigns(userId)).map((campaign) => [campaign.id, campaign.name]))
+    : new Map<string, string>();
+  const activities = changed.map(({ before, after }) => ({
+    lead: after,
+    activities: describeBulkChange(userId, action, before, after, campaignNames),
+  }));
+  await recordLeadActivities(activities.flatMap((item) => item.activities));
+  for (const { lead } of activities.filter((item) => item.activities.length > 0)) {
+    emitWebhookEvent(userId, "lead.updated", { lead });
+  }
+
+  if (action.type === "mark_validated") {
+    await scoreLeads(userId, changedIds);
+  }
+  if (action.type === "move_campaign") {
+    // Distance and category fit are measured against the new campaign
+    await queueLeadGeocoding(userId, changedIds, { remeasure: true });
+    await scoreLeads(userId, changedIds);
+  }
+
+  return { action: action.type, succeeded: succeeded.length, failed };
+}
@@ -0,0 +1,264 @@
+import type { Campaign, CampaignRunTrigger, Job } from "@shared/schema";
+import { storage } from "./storage";
+import { createThrottle, getScraper, getScrapingMode, type ScrapeContext, type ScraperProvider } from "./scrapers";
+import type { JobHandler, JobOutcome } from "./jobQueue";
+import { emitWebhookEvent } from "./webhooks";
+import { deduplicateUserLeads, matchKeys } from "./dedup";
+import { autoValidateLeads } from "./leadValidation";
+import { scoreLeads } from "./scoring";
+import { locateCampaign, locateLead } from "./leadGeocoding";
+import { log } from "./vite";
+
+export type BroadcastFn = (userId: string, message: any) => void;
+
+export const CAMPAIGN_RUN_JOB = "campaign_run";
+
+const DEFAULT_PAGE_LIMIT = 50;
+const DEFAULT_DELAY_SECONDS = 1.5;
+// Campaign runs can take hours, so they get their own job slots
+const CAMPAIGN_CONCURRENCY = parseInt(process.env.CAMPAIGN_JOB_CONCURRENCY || "2", 10);
+
+// Jobs queued before runs were recorded carry no payload
+const runIdOf = (job: Job) => (job.payload as { runId?: string } | null)?.runId;
+
+async function fetchPageWithRetries(
+  scraper: ScraperProvider,
+  campaign: Campaign,
+  page: number,
+  context: ScrapeContext,
+) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await scraper.fetchPage(campaign, page, context);
+    } catch (error) {
+      if (attempt >= context.mode.pageRetries) throw error;
+      context.log(`page ${page} failed (${error instanceof Error ? error.message : error}), retrying`);
+    }
+  }
+}
+
+// Runs a campaign page by page through its scraper provider, resuming after
+// the job's last checkpointed page, and broadcasts progress to the owner.
+// Pause and cancel requests are honoured between pages. pageLimit caps the
+// pages fetched, delay throttles every outbound request and scrapingMode
+// selects the behaviour profile from SCRAPING_MODES. Leads are geocoded as
+// they come in; those beyond the radius are flagged, or dropped when the
+// campaign's outsideRadiusAction is "exclude". New leads start in the
+// first stage of the owner's pipeline. Leads the campaign already had when
+// the run started are skipped, so reruns only add what's new.
+async function runCampaign(job: Job, broadcastToUser: BroadcastFn): Promise<JobOutcome> {
+  let campaign = await storage.getCampaign(job.campaignId!);
+  if (!campaign) {
+    throw new Error(`Campaign ${job.campaignId} no longer exists`);
+  }
+  if (campaign.latitude === null) {
+    campaign = await locateCampaign(campaign);
+  }
+
+  const { id: campaignId, userId } = campaign;
+  const scraper = getScraper(campaign.scraperProvider);
+  if (!scraper) {
+    throw new Error(`Unknown scraper provider "${campaign.scraperProvider}"`);
+  }
+
+  const [entryStage] = await storage.getPipelineStages(userId);
+  const pageLimit = campaign.pageLimit || DEFAULT_PAGE_LIMIT;
+  const delaySeconds = parseFloat(campaign.delay ?? "") || DEFAULT_DELAY_SECONDS;
+  const mode = getScrapingMode(campaign.scrapingMode);
+  const context: ScrapeContext = {
+    mode,
+    throttle: createThrottle(delaySeconds * 1000),
+    log: (message) => {
+      if (mode.verbose) log(`[campaign ${campaignId}] ${message}`, "scraper");
+    },
+  };
+
+  const runId = runIdOf(job);
+  const knownKeys = new Set((await storage.getCampaignLeads(userId, campaignId)).flatMap(matchKeys));
+  let currentPage = job.lastPage;
+  let leadsFound = campaign.leadsFound || 0;
+  let hasMore = true;
+
+  context.log(`starting at page ${currentPage + 1} of up to ${pageLimit} (${campaign.scrapingMode} mode, ${delaySeconds}s delay)`);
+
+  while (hasMore && currentPage < pageLimit) {
+    const status = (await storage.getCampaign(campaignId))?.status;
+    if (status === 'paused') {
+      return status;
+    }
+    if (status === 'cancelled') {
+      await storage.finishCampaignRuns(campaignId, 'cancelled');
+      return status;
+    }
+
+    currentPage++;
+    const result = await fetchPageWithRetries(scraper, campaign, currentPage, context);
+    hasMore = result.hasMore;
+
+    const located = [];
+    for (const lead of result.leads) {
+      located.push({ ...lead, campaignId, contactStatus: entryStage.key, ...(await locateLead(lead, campaign)) });
+    }
+    const inRadius = campaign.outsideRadiusAction === "exclude"
+      ? located.filter((lead) => !lead.outsideRadius)
+      : located;
+    if (inRadius.length < located.length) {
+      context.log(`page ${currentPage}: skipped ${located.length - inRadius.length} leads outside the ${campaign.radius} mi radius`);
+    }
+    const pageLeads = inRadius.filter((lead) => !matchKeys(lead).some((key) => knownKeys.has(key)));
+    if (pageLeads.length < inRadius.length) {
+      context.log(`page ${currentPage}: skipped ${inRadius.length - pageLeads.length} leads the campaign already has`);
+    }
+    leadsFound += pageLeads.length;
+
+    const progress = hasMore && currentPage < pageLimit
+      ? Math.round((currentPage / pageLimit) * 100)
+      : 100;
+
+    const savedLeads = await storage.saveCampaignPage(
+      job.id,
+      campaignId,
+      pageLeads,
+      { progress, totalPages: currentPage, leadsFound, lastPage: currentPage },
+      runId
+        ? {
+          runId,
+          pagesFetched: currentPage,
+          leadsFound: inRadius.length,
+          leadsNew: pageLeads.length,
+          leadsDuplicate: inRadius.length - pageLeads.length,
+        }
+        : undefined,
+    );
+    // Later pages of this run skip what this page saved, too
+    for (const lead of savedLeads) {
+      for (const key of matchKeys(lead)) knownKeys.add(key);
+    }
+
+    broadcastToUser(userId, {
+      type: 'scraping_progress',
+      campaignId,
+      progress,
+      currentPage,
+      totalPages: currentPage,
+      leadsFound,
+    });
+    if (savedLeads.length > 0) {
+      emitWebhookEvent(userId, "lead.created", { campaignId, leads: savedLeads });
+    }
+    await scoreLeads(userId, savedLeads.map((lead) => lead.id));
+    await autoValidateLeads(userId, savedLeads.map((lead) => lead.id));
+  }
+
+  // A pause or cancel may have landed while the last page was fetched
+  const completed = await storage.updateRunningCampaign(campaignId, {
+    status: 'completed',
+    progress: 100,
+  });
+  if (!completed) {
+    const status = (await storage.getCampaign(campaignId))?.status;
+    if (status === 'paused') {
+      return status;
+    }
+    await storage.finishCampaignRuns(campaignId, 'cancelled');
+    return 'cancelled';
+  }
+  await storage.finishCampaignRuns(campaignId, 'completed');
+
+  // New leads may repeat ones from the user's other campaigns
+  await deduplicateUserLeads(userId).catch((error) => {
+    console.error(`Error deduplicating leads after campaign ${campaignId}:`, error);
+  });
+
+  broadcastToUser(userId, {
+    type: 'scraping_completed',
+    campaignId,
+  });
+  emitWebhookEvent(userId, "campaign.completed", { campaign: completed });
+  return 'completed';
+}
+
+// Records a new run and queues it for the job worker. Callers check that the
+// campaign has no active job first.
+export async function startCampaignRun(
+  campaign: Campaign,
+  trigger: CampaignRunTrigger,
+  broadcastToUser: BroadcastFn,
+): Promise<Campaign> {
+  const { userId } = campaign;
+  const run = await storage.createCampaignRun({
+    campaignId: campaign.id,
+    userId,
+    trigger,
+    parameters: {
+      businessCategory: campaign.businessCategory,
+      location: campaign.location,
+      radius: campaign.radius,
+      outsideRadiusAction: campaign.outsideRadiusAction,
+      scraperProvider: campaign.scraperProvider,
+      scrapingMode: campaign.scrapingMode,
+      pageLimit: campaign.pageLimit,
+      delay: campaign.delay,
+    },
+  });
+  const started = await storage.updateCampaign(campaign.id, {
+    status: 'running',
+    progress: 0,
+    totalPages: 0,
+    leadsFound: 0,
+  });
+
+  await storage.enqueueJob({
+    type: CAMPAIGN_RUN_JOB,
+    userId,
+    campaignId: campaign.id,
+    payload: { runId: run.id },
+  });
+
+  broadcastToUser(userId, {
+    type: 'campaign_status',
+    campaignId: campaign.id,
+    status: started.status,
+  });
+  emitWebhookEvent(userId, "campaign.started", { campaign: started, trigger });
+  return started;
+}
+
+export function createCampaignJobHandler(broadcastToUser: BroadcastFn): JobHandler {
+  return {
+    run: (job) => runCampaign(job, broadcastToUser),
+    concurrency: CAMPAIGN_CONCURRENCY,
+
+    // The campaign may have been resumed while the runner was stopping
+    async onPaused(job) {
+      const campaign = await storage.getCampaign(job.campaignId!);
+      if (campaign?.status === 'running') {
+        await storage.requeuePausedCampaignJob(campaign.id);
+      }
+    },
+
+    async onRetry(job, error) {
+      const runId = runIdOf(job);
+      if (runId) {
+        await storage.addCampaignRunError(runId, error);
+      }
+    },
+
+    async onFailed(job, error) {
+      if (!job.campaignId) return;
+      const runId = runIdOf(job);
+      if (runId) {
+        await storage.addCampaignRunError(runId, error);
+      }
+      const campaign = await storage.updateCampaign(job.campaignId, { status: 'failed' });
+      await storage.finishCampaignRuns(job.campaignId, 'failed');
+
+      broadcastToUser(job.userId, {
+        type: 'scraping_failed',
+        campaignId: job.campaignId,
+        message: error,
+      });
+      emitWebhookEvent(job.userId, "campaign.failed", { campaign, error });
+    },
+  };
+}
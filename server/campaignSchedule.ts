@@ -0,0 +1,166 @@
+import type { CampaignSchedule } from "@shared/schema";
+
+export class CronExpressionError extends Error {}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+  },
+  // 7 is accepted as another Sunday
+  { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+// How far ahead to look before deciding an expression never fires
+// (e.g. "0 0 31 2 *")
+const MAX_SEARCH_DAYS = 5 * 366;
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDay: boolean;
+}
+
+function parseValue(field: CronField, value: string): number {
+  const named = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = named >= 0 ? named + field.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < field.min || number > field.max) {
+    throw new CronExpressionError(`Invalid ${field.name} "${value}"`);
+  }
+  return number;
+}
+
+// Expands one field: "*", "5", "1-5", "*/15", "10-40/10" and comma lists of them
+function parseField(field: CronField, text: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!range || (stepText !== undefined && !/^\d+$/.test(stepText)) || step < 1) {
+      throw new CronExpressionError(`Invalid ${field.name} "${part}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(field, from);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : parseValue(field, to);
+      if (end < start) {
+        throw new CronExpressionError(`Invalid ${field.name} range "${range}"`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new CronExpressionError("A cron expression needs five fields: minute hour day-of-month month day-of-week");
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = CRON_FIELDS.map((field, index) =>
+    parseField(field, parts[index]),
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes: Array.from(minutes).sort((a, b) => a - b),
+    hours: Array.from(hours).sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time of an instant in the timezone, as if it were UTC
+function wallClock(time: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(time)).map((part) => [part.type, parseInt(part.value, 10)]),
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+}
+
+// The instant showing the wall-clock time in the timezone, or undefined when
+// a daylight-saving jump skips it
+function fromWallClock(wall: number, timezone: string): number | undefined {
+  let time = wall - (wallClock(wall, timezone) - wall);
+  time = wall - (wallClock(time, timezone) - time);
+  return wallClock(time, timezone) === wall ? time : undefined;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// The first time after `after` that the expression fires in the timezone
+export function nextCronTime(expression: string, timezone: string, after: Date): Date | null {
+  const cron = parseCronExpression(expression);
+  const start = wallClock(after.getTime(), timezone);
+  const firstDay = start - (start % DAY_MS);
+
+  for (let day = firstDay; day < firstDay + MAX_SEARCH_DAYS * DAY_MS; day += DAY_MS) {
+    const date = new Date(day);
+    if (!cron.months.has(date.getUTCMonth() + 1)) continue;
+    const domMatches = cron.daysOfMonth.has(date.getUTCDate());
+    const dowMatches = cron.daysOfWeek.has(date.getUTCDay());
+    if (cron.anyDay ? !domMatches && !dowMatches : !domMatches || !dowMatches) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const wall = day + hour * 60 * MINUTE_MS + minute * MINUTE_MS;
+        // Allows for an offset change later on the first day
+        if (wall < start - 3 * 60 * MINUTE_MS) continue;
+        const time = fromWallClock(wall, timezone);
+        if (time !== undefined && time > after.getTime()) {
+          return new Date(time);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// When the schedule next starts a run, or null when it won't again
+export function nextScheduledRun(schedule: CampaignSchedule, after: Date): Date | null {
+  if (schedule.type === "once") {
+    const runAt = new Date(schedule.runAt);
+    return runAt > after ? runAt : null;
+  }
+  return nextCronTime(schedule.cron, schedule.timezone, after);
+}
@@ -0,0 +1,52 @@
+import type { Campaign } from "@shared/schema";
+import { storage } from "./storage";
+import { startCampaignRun, type BroadcastFn } from "./campaignRunner";
+import { nextScheduledRun } from "./campaignSchedule";
+import { log } from "./vite";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+let started = false;
+
+async function runDueCampaign(campaign: Campaign, now: Date, broadcastToUser: BroadcastFn) {
+  const dueAt = campaign.nextRunAt!;
+  let nextRunAt: Date | null = null;
+  try {
+    nextRunAt = campaign.schedule ? nextScheduledRun(campaign.schedule, now) : null;
+  } catch (error) {
+    console.error(`Error computing the next run of campaign ${campaign.id}:`, error);
+  }
+
+  const claimed = await storage.claimScheduledCampaign(campaign.id, dueAt, nextRunAt);
+  if (!claimed) return;
+
+  // A run still going (or paused) when the next one falls due takes its place
+  if (await storage.getActiveCampaignJob(campaign.id)) {
+    log(`skipped scheduled run of campaign ${campaign.id}: previous run still active`, "scheduler");
+    return;
+  }
+  await startCampaignRun(claimed, "scheduled", broadcastToUser);
+  log(`started scheduled run of campaign ${campaign.id}`, "scheduler");
+}
+
+async function poll(broadcastToUser: BroadcastFn) {
+  const now = new Date();
+  for (const campaign of await storage.getDueScheduledCampaigns(now)) {
+    await runDueCampaign(campaign, now, broadcastToUser).catch((error) => {
+      console.error(`Error starting scheduled run of campaign ${campaign.id}:`, error);
+    });
+  }
+}
+
+// Starts campaign runs as their schedules fall due. Occurrences missed while
+// the server was down are run once on startup rather than replayed.
+export function startCampaignScheduler(broadcastToUser: BroadcastFn) {
+  if (started) return;
+  started = true;
+
+  const tick = () => poll(broadcastToUser).catch((error) => console.error("Error polling campaign schedules:", error));
+  tick();
+  setInterval(tick, POLL_INTERVAL_MS);
+
+  log("campaign scheduler started", "scheduler");
+}
@@ -0,0 +1,159 @@
+import type { DedupResult, InsertLead, Lead } from "@shared/schema";
+import { storage } from "./storage";
+
+// Hosts shared by many businesses; a matching domain there says nothing
+const SHARED_HOSTS = new Set([
+  "facebook.com",
+  "instagram.com",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "yelp.com",
+  "google.com",
+  "sites.google.com",
+  "business.site",
+  "linktr.ee",
+  "wixsite.com",
+  "squarespace.com",
+]);
+
+const COMPANY_SUFFIXES = /\b(the|inc|llc|ltd|co|corp|corporation|company|incorporated|limited)\b/g;
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  highway: "hwy",
+  parkway: "pkwy",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+const words = (value: string) => value.toLowerCase().replace(/&/g, " and ").replace(/[^a-z0-9]+/g, " ").trim();
+
+// Digits only, without a leading US country code. Too-short numbers are ignored.
+export function normalizePhone(phone: string | null): string | undefined {
+  let digits = phone?.replace(/\D/g, "") ?? "";
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+  return digits.length >= 7 ? digits : undefined;
+}
+
+export function normalizeDomain(website: string | null): string | undefined {
+  const value = website?.trim();
+  if (!value) return undefined;
+  try {
+    const host = new URL(/^[a-z]+:\/\//i.test(value) ? value : `http://${value}`).hostname
+      .toLowerCase()
+      .replace(/^www\./, "");
+    const isShared = Array.from(SHARED_HOSTS).some((shared) => host === shared || host.endsWith(`.${shared}`));
+    return host.includes(".") && !isShared ? host : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function normalizeEmail(email: string | null): string | undefined {
+  const value = email?.trim().toLowerCase();
+  return value && value.includes("@") ? value : undefined;
+}
+
+export function normalizeNameAddress(lead: Pick<Lead, "businessName" | "address" | "city" | "zipCode">): string | undefined {
+  const name = words(lead.businessName).replace(COMPANY_SUFFIXES, " ").replace(/\s+/g, " ").trim();
+  const address = words(lead.address ?? "")
+    .split(" ")
+    .map((word) => STREET_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+  if (!name || !address) return undefined;
+
+  const place = lead.zipCode?.trim().slice(0, 5) || words(lead.city ?? "");
+  return `${name}|${address}|${place}`;
+}
+
+type MatchableLead = Pick<InsertLead, "businessName" | "phone" | "website" | "email" | "address" | "city" | "zipCode">;
+
+// Every normalised value that identifies the business, tagged with its kind
+export function matchKeys(lead: MatchableLead): string[] {
+  return [
+    ["phone", normalizePhone(lead.phone ?? null)],
+    ["domain", normalizeDomain(lead.website ?? null)],
+    ["email", normalizeEmail(lead.email ?? null)],
+    [
+      "place",
+      normalizeNameAddress({
+        businessName: lead.businessName,
+        address: lead.address ?? null,
+        city: lead.city ?? null,
+        zipCode: lead.zipCode ?? null,
+      }),
+    ],
+  ]
+    .filter(([, value]) => value)
+    .map(([kind, value]) => `${kind}:${value}`);
+}
+
+// Groups leads sharing any normalised key (transitively, so A~B and B~C put
+// A, B and C together). The oldest lead of each group is the canonical one.
+export function findDuplicateGroups(leads: Lead[]): Lead[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const owners = new Map<string, string>();
+  for (const lead of leads) {
+    parent.set(lead.id, lead.id);
+    for (const key of matchKeys(lead)) {
+      const owner = owners.get(key);
+      if (owner) {
+        parent.set(find(lead.id), find(owner));
+      } else {
+        owners.set(key, lead.id);
+      }
+    }
+  }
+
+  const groups = new Map<string, Lead[]>();
+  for (const lead of leads) {
+    const root = find(lead.id);
+    groups.set(root, [...(groups.get(root) ?? []), lead]);
+  }
+
+  const age = (lead: Lead) => lead.createdAt?.getTime() ?? 0;
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => group.sort((a, b) => age(a) - age(b) || a.id.localeCompare(b.id)));
+}
+
+// Re-flags duplicates across all of the user's campaigns
+export async function deduplicateUserLeads(userId: string): Promise<DedupResult> {
+  const leads = await storage.getUserLeads(userId);
+  const groups = findDuplicateGroups(leads);
+
+  await storage.saveDuplicateGroups(
+    userId,
+    groups.map(([canonical, ...duplicates]) => ({
+      canonicalId: canonical.id,
+      duplicateIds: duplicates.map((lead) => lead.id),
+    })),
+  );
+
+  return {
+    scanned: leads.length,
+    groups: groups.length,
+    duplicates: groups.reduce((total, group) => total + group.length - 1, 0),
+  };
+}
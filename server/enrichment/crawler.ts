@@ -0,0 +1,132 @@
+import { createThrottle } from "../scrapers";
+import { BlockedAddressError, publicFetch } from "../publicFetch";
+import { allowAll, disallowAll, parseRobotsTxt, type RobotsPolicy } from "./robots";
+import { findContactPages } from "./extract";
+
+export interface WebsiteCrawlerOptions {
+  fetch?: typeof fetch;
+  userAgent?: string;
+  // Homepage included
+  maxPages?: number;
+  delayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  html: string;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  blocked: string[];
+}
+
+const DEFAULT_USER_AGENT = "LeadGenBot/1.0 (+website enrichment)";
+const DEFAULT_MAX_PAGES = 4;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+// Pages past this size are cut off; contact details sit near the top or in the footer
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+// Fetches a business's homepage plus the contact/about pages it links to,
+// honouring the site's robots.txt. Only same-site pages are visited.
+export class WebsiteCrawler {
+  private fetchImpl: typeof fetch;
+  private userAgent: string;
+  private maxPages: number;
+  private delayMs: number;
+  private timeoutMs: number;
+
+  constructor(options: WebsiteCrawlerOptions = {}) {
+    this.fetchImpl = options.fetch ?? publicFetch;
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    this.delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async crawl(website: string): Promise<CrawlResult> {
+    const homepage = new URL(/^[a-z]+:\/\//i.test(website) ? website : `http://${website}`);
+    if (homepage.protocol !== "http:" && homepage.protocol !== "https:") {
+      throw new Error(`Unsupported URL scheme ${homepage.protocol}`);
+    }
+
+    const throttle = createThrottle(this.delayMs);
+    const robots = await this.fetchRobots(homepage, throttle);
+    const result: CrawlResult = { pages: [], blocked: [] };
+    const queue = [homepage.href];
+    const seen = new Set(queue);
+
+    while (queue.length > 0 && result.pages.length < this.maxPages) {
+      const url = new URL(queue.shift()!);
+      if (!robots(url.pathname + url.search)) {
+        result.blocked.push(url.href);
+        continue;
+      }
+
+      await throttle();
+      const page = await this.fetchPage(url);
+      if (!page) {
+        if (result.pages.length === 0 && url.href === homepage.href) {
+          throw new Error(`Homepage ${url.href} could not be loaded`);
+        }
+        continue;
+      }
+      result.pages.push(page);
+
+      // Contact pages are only discovered from the homepage
+      if (result.pages.length === 1) {
+        for (const link of findContactPages(page.html, page.url)) {
+          if (!seen.has(link)) {
+            seen.add(link);
+            queue.push(link);
+          }
+        }
+      }
+    }
+    return result;
+  }
+
+  // A missing robots.txt allows everything; one that can't be read because
+  // the server is failing keeps the crawler out, as RFC 9309 asks. A site on
+  // a private address fails the whole crawl.
+  private async fetchRobots(homepage: URL, throttle: () => Promise<void>): Promise<RobotsPolicy> {
+    try {
+      await throttle();
+      const response = await this.request(new URL("/robots.txt", homepage.origin));
+      if (response.ok) {
+        return parseRobotsTxt(await response.text(), this.userAgent);
+      }
+      await response.body?.cancel().catch(() => {});
+      return response.status >= 500 ? disallowAll : allowAll;
+    } catch (error) {
+      if (error instanceof BlockedAddressError) throw error;
+      return disallowAll;
+    }
+  }
+
+  private async fetchPage(url: URL): Promise<CrawledPage | undefined> {
+    try {
+      const response = await this.request(url);
+      const contentType = response.headers.get("content-type") ?? "";
+      if (!response.ok || !/html/i.test(contentType)) {
+        await response.body?.cancel().catch(() => {});
+        return undefined;
+      }
+      const html = (await response.text()).slice(0, MAX_PAGE_BYTES);
+      // Redirects are followed; links resolve against the final URL
+      return { url: response.url || url.href, html };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private request(url: URL): Promise<Response> {
+    return this.fetchImpl(url, {
+      headers: { "User-Agent": this.userAgent, Accept: "text/html,text/plain;q=0.9" },
+      redirect: "follow",
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+  }
+}
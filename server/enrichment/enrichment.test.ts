@@ -0,0 +1,149 @@
+import { createServer, type Server } from "http";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Lead } from "@shared/schema";
+import { parseRobotsTxt } from "./robots";
+import { WebsiteCrawler, enrichLead } from "./index";
+
+const SITE_DIR = path.resolve(import.meta.dirname, "fixtures", "site");
+
+const contentTypes: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+let server: Server;
+let siteUrl: string;
+
+// Serves the fixture site the way a static host would, with / mapping to index.html
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://fixture").pathname;
+    const file = path.join(SITE_DIR, pathname.endsWith("/") ? `${pathname}index.html` : pathname);
+    try {
+      const body = await readFile(file);
+      res.writeHead(200, { "Content-Type": contentTypes[path.extname(file)] ?? "application/octet-stream" });
+      res.end(body);
+    } catch {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  siteUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// The fixture site is on loopback, which the default fetch refuses
+const crawler = (userAgent?: string) => new WebsiteCrawler({ userAgent, fetch, delayMs: 0, timeoutMs: 5000 });
+
+function fixtureLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    id: "lead-1",
+    businessName: "Harbor Street Bakery",
+    website: siteUrl,
+    email: null,
+    phone: null,
+    description: null,
+    socialProfiles: null,
+    editedFields: null,
+    ...overrides,
+  } as Lead;
+}
+
+describe("parseRobotsTxt", () => {
+  it("closes a group at the first rule line even when the rule is empty", () => {
+    const robots = parseRobotsTxt(
+      ["User-agent: *", "Disallow:", "", "User-agent: LeadGenBot", "Disallow: /private"].join("\n"),
+      "SomeOtherBot/2.0",
+    );
+    expect(robots("/private")).toBe(true);
+  });
+
+  it("lets consecutive user-agent lines share a group", () => {
+    const robots = parseRobotsTxt(
+      ["User-agent: OtherBot", "User-agent: LeadGenBot", "Disallow: /private"].join("\n"),
+      "LeadGenBot/1.0",
+    );
+    expect(robots("/private")).toBe(false);
+    expect(robots("/")).toBe(true);
+  });
+
+  it("matches groups by product token, case-insensitively", () => {
+    const text = ["User-agent: leadgenbot", "Disallow: /a", "", "User-agent: Bot", "Disallow: /b"].join("\n");
+    const robots = parseRobotsTxt(text, "LeadGenBot/1.0 (+website enrichment)");
+    expect(robots("/a")).toBe(false);
+    expect(robots("/b")).toBe(true);
+  });
+
+  it("doesn't apply a group naming a longer product token", () => {
+    const robots = parseRobotsTxt(
+      ["User-agent: LeadGenBotExtra", "Disallow: /", "", "User-agent: *", "Disallow: /tmp"].join("\n"),
+      "LeadGenBot/1.0",
+    );
+    expect(robots("/")).toBe(true);
+    expect(robots("/tmp/file")).toBe(false);
+  });
+
+  it("prefers the longest matching rule and Allow on ties", () => {
+    const robots = parseRobotsTxt(
+      ["User-agent: *", "Disallow: /shop", "Allow: /shop/contact", "Disallow: /*.pdf$", "Allow: /*.pdf$"].join("\n"),
+      "LeadGenBot/1.0",
+    );
+    expect(robots("/shop/cart")).toBe(false);
+    expect(robots("/shop/contact")).toBe(true);
+    expect(robots("/menu.pdf")).toBe(true);
+  });
+});
+
+describe("WebsiteCrawler against the fixture site", () => {
+  it("visits the homepage and contact pages robots.txt allows", async () => {
+    const result = await crawler().crawl(siteUrl);
+    expect(result.pages.map((page) => page.url)).toEqual([siteUrl, `${siteUrl}contact.html`]);
+    expect(result.blocked).toEqual([`${siteUrl}team/`]);
+  });
+
+  it("refuses sites on private addresses by default", async () => {
+    await expect(new WebsiteCrawler({ delayMs: 0 }).crawl(siteUrl)).rejects.toThrow(/private address/);
+  });
+
+  it("falls back to the * group for crawlers robots.txt doesn't name", async () => {
+    const result = await crawler("SomeOtherBot/2.0").crawl(siteUrl);
+    expect(result.pages.map((page) => page.url)).toContain(`${siteUrl}team/`);
+    expect(result.blocked).toEqual([]);
+  });
+});
+
+describe("enrichLead against the fixture site", () => {
+  it("fills empty fields and records where each value came from", async () => {
+    const { updates, enrichment } = await enrichLead(fixtureLead(), crawler());
+    expect(updates).toEqual({
+      email: "hello@harborbakery.example",
+      phone: "+14155550123",
+      description: "Family bakery on Harbor Street baking sourdough and pastries since 1987.",
+      socialProfiles: {
+        instagram: "https://www.instagram.com/harborbakery",
+        facebook: "https://www.facebook.com/harborbakery",
+      },
+    });
+    expect(enrichment.found.email?.sourceUrl).toBe(`${siteUrl}contact.html`);
+    expect(enrichment.found.description?.sourceUrl).toBe(siteUrl);
+    expect(enrichment.found.instagram?.sourceUrl).toBe(siteUrl);
+  });
+
+  it("doesn't overwrite values the lead has or the user edited", async () => {
+    const { updates, enrichment } = await enrichLead(
+      fixtureLead({ phone: "+14155550199", email: "", editedFields: ["email"] }),
+      crawler(),
+    );
+    expect(updates.phone).toBeUndefined();
+    expect(updates.email).toBeUndefined();
+    expect(enrichment.found.email?.value).toBe("hello@harborbakery.example");
+    expect(enrichment.applied).not.toContain("email");
+  });
+});
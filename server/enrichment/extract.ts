@@ -0,0 +1,136 @@
+import { findPhoneNumbersInText, parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+import type { SocialNetwork } from "@shared/schema";
+import { getAttribute, stripTags } from "../scrapers/html";
+
+export interface PageExtract {
+  emails: string[];
+  // E.164
+  phones: string[];
+  socialProfiles: Partial<Record<SocialNetwork, string>>;
+  description?: string;
+}
+
+const SOCIAL_HOSTS: Record<string, SocialNetwork> = {
+  "facebook.com": "facebook",
+  "fb.com": "facebook",
+  "instagram.com": "instagram",
+  "linkedin.com": "linkedin",
+  "twitter.com": "twitter",
+  "x.com": "twitter",
+  "youtube.com": "youtube",
+  "tiktok.com": "tiktok",
+};
+
+// Share buttons and the like rather than the business's own profile
+const SOCIAL_NOISE = /\/(sharer|share|intent|dialog|plugins|embed|watch)\b|[?&]u=/i;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+// Image names such as logo@2x.png look like addresses
+const NOT_AN_EMAIL = /\.(png|jpe?g|gif|svg|webp|css|js)$/i;
+
+const DESCRIPTION_LIMIT = 300;
+
+function anchors(html: string): { href: string; text: string }[] {
+  const links: { href: string; text: string }[] = [];
+  const pattern = /<a\b[^>]*>([\s\S]*?)<\/a>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const href = getAttribute(match[0].slice(0, match[0].indexOf(">") + 1), "href");
+    if (href) links.push({ href: href.trim(), text: stripTags(match[1]) });
+  }
+  return links;
+}
+
+function metaContent(html: string, name: string): string | undefined {
+  const pattern = /<meta\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const key = getAttribute(match[0], "name") ?? getAttribute(match[0], "property");
+    if (key?.toLowerCase() === name) {
+      return getAttribute(match[0], "content")?.trim() || undefined;
+    }
+  }
+  return undefined;
+}
+
+function truncate(text: string): string {
+  if (text.length <= DESCRIPTION_LIMIT) return text;
+  const cut = text.slice(0, DESCRIPTION_LIMIT);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : DESCRIPTION_LIMIT)}…`;
+}
+
+function socialNetwork(url: URL): SocialNetwork | undefined {
+  const host = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, "");
+  const network = SOCIAL_HOSTS[host];
+  if (!network || url.pathname.length <= 1 || SOCIAL_NOISE.test(url.pathname + url.search)) {
+    return undefined;
+  }
+  return network;
+}
+
+// Pulls contact details out of one page. mailto:/tel: links come first
+// since they are the most deliberate; visible text fills in the rest.
+export function extractContactInfo(html: string, pageUrl: string, defaultCountry: CountryCode = "US"): PageExtract {
+  const body = html.replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, " ");
+  const text = stripTags(body);
+  const links = anchors(body);
+
+  const emails = new Set<string>();
+  const phones = new Set<string>();
+  const socialProfiles: PageExtract["socialProfiles"] = {};
+
+  for (const { href } of links) {
+    if (/^mailto:/i.test(href)) {
+      const email = decodeURIComponent(href.slice(7).split("?")[0]).trim().toLowerCase();
+      if (email.match(EMAIL_PATTERN)?.[0] === email) emails.add(email);
+    } else if (/^tel:/i.test(href)) {
+      const phone = parsePhoneNumberFromString(decodeURIComponent(href.slice(4)), defaultCountry);
+      if (phone?.isValid()) phones.add(phone.number);
+    } else {
+      try {
+        const url = new URL(href, pageUrl);
+        const network = socialNetwork(url);
+        if (network && !socialProfiles[network]) {
+          socialProfiles[network] = `${url.origin}${url.pathname}`.replace(/\/$/, "");
+        }
+      } catch {
+        // Not a URL
+      }
+    }
+  }
+
+  for (const email of text.match(EMAIL_PATTERN) ?? []) {
+    if (!NOT_AN_EMAIL.test(email)) emails.add(email.toLowerCase());
+  }
+  for (const found of findPhoneNumbersInText(text, defaultCountry)) {
+    if (found.number.isValid()) phones.add(found.number.number);
+  }
+
+  const description = metaContent(html, "description") ?? metaContent(html, "og:description");
+
+  return {
+    emails: Array.from(emails),
+    phones: Array.from(phones),
+    socialProfiles,
+    description: description ? truncate(description) : undefined,
+  };
+}
+
+// Same-site links that look like contact or about pages
+export function findContactPages(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl);
+  const pages = new Set<string>();
+  for (const { href, text } of anchors(html)) {
+    if (!/contact|about|impressum|kontakt|team/i.test(`${href} ${text}`)) continue;
+    try {
+      const url = new URL(href, base);
+      url.hash = "";
+      if (url.host === base.host && /^https?:$/.test(url.protocol) && url.href !== base.href) {
+        pages.add(url.href);
+      }
+    } catch {
+      // Not a URL
+    }
+  }
+  return Array.from(pages);
+}
@@ -0,0 +1,90 @@
+import {
+  socialNetworks,
+  type EnrichedLeadField,
+  type EnrichedValue,
+  type Lead,
+  type LeadEnrichment,
+  type SocialProfiles,
+} from "@shared/schema";
+import { WebsiteCrawler } from "./crawler";
+import { extractContactInfo } from "./extract";
+
+export { WebsiteCrawler, type WebsiteCrawlerOptions } from "./crawler";
+
+export interface LeadEnrichmentResult {
+  // Only fields that were empty and never edited by the user
+  updates: Partial<Pick<Lead, "email" | "phone" | "description" | "socialProfiles">>;
+  enrichment: LeadEnrichment;
+}
+
+const siteHost = (url: string) => new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+
+// Prefers an address on the business's own domain over e.g. a web agency's
+function pickEmail(candidates: EnrichedValue[], website: string): EnrichedValue | undefined {
+  const host = siteHost(website);
+  return candidates.find(({ value }) => value.endsWith(`@${host}`)) ?? candidates[0];
+}
+
+export async function enrichLead(lead: Lead, crawler: WebsiteCrawler): Promise<LeadEnrichmentResult> {
+  const enrichment: LeadEnrichment = { pages: [], blocked: [], found: {}, applied: [] };
+  if (!lead.website?.trim()) {
+    return { updates: {}, enrichment: { ...enrichment, error: "Lead has no website" } };
+  }
+
+  let crawl;
+  try {
+    crawl = await crawler.crawl(lead.website.trim());
+  } catch (error) {
+    return { updates: {}, enrichment: { ...enrichment, error: error instanceof Error ? error.message : String(error) } };
+  }
+  enrichment.pages = crawl.pages.map((page) => page.url);
+  enrichment.blocked = crawl.blocked;
+
+  // Earlier pages win, so the homepage's values come first
+  const emails: EnrichedValue[] = [];
+  for (const page of crawl.pages) {
+    const extract = extractContactInfo(page.html, page.url);
+    emails.push(...extract.emails.map((value) => ({ value, sourceUrl: page.url })));
+    if (extract.phones[0] && !enrichment.found.phone) {
+      enrichment.found.phone = { value: extract.phones[0], sourceUrl: page.url };
+    }
+    if (extract.description && !enrichment.found.description) {
+      enrichment.found.description = { value: extract.description, sourceUrl: page.url };
+    }
+    for (const network of socialNetworks) {
+      const profile = extract.socialProfiles[network];
+      if (profile && !enrichment.found[network]) {
+        enrichment.found[network] = { value: profile, sourceUrl: page.url };
+      }
+    }
+  }
+  const email = crawl.pages.length > 0 ? pickEmail(emails, crawl.pages[0].url) : undefined;
+  if (email) {
+    enrichment.found.email = email;
+  }
+
+  const edited = new Set(lead.editedFields ?? []);
+  const isOpen = (field: EnrichedLeadField, current: string | null | undefined) =>
+    !!enrichment.found[field] && !current?.trim() && !edited.has(field);
+
+  const updates: LeadEnrichmentResult["updates"] = {};
+  for (const field of ["email", "phone", "description"] as const) {
+    if (isOpen(field, lead[field])) {
+      updates[field] = enrichment.found[field]!.value;
+      enrichment.applied.push(field);
+    }
+  }
+
+  const socialProfiles: SocialProfiles = { ...lead.socialProfiles };
+  for (const network of socialNetworks) {
+    if (isOpen(network, socialProfiles[network])) {
+      socialProfiles[network] = enrichment.found[network]!.value;
+      enrichment.applied.push(network);
+    }
+  }
+  if (socialNetworks.some((network) => enrichment.applied.includes(network))) {
+    updates.socialProfiles = socialProfiles;
+  }
+
+  return { updates, enrichment };
+}
@@ -0,0 +1,78 @@
+// robots.txt support following RFC 9309: the most specific matching
+// user-agent group applies, the longest matching rule wins and Allow wins
+// ties. Paths may use * and a trailing $ as wildcards.
+
+interface Rule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+export type RobotsPolicy = (path: string) => boolean;
+
+export const allowAll: RobotsPolicy = () => true;
+export const disallowAll: RobotsPolicy = () => false;
+
+function compilePattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+// The product token a group names the crawler by: "LeadGenBot/1.0 (+info)"
+// is matched by "User-agent: leadgenbot"
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+}
+
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const agent = productToken(userAgent);
+  const groups: { agents: string[]; rules: Rule[] }[] = [];
+  let current: { agents: string[]; rules: Rule[] } | undefined;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share one group; any other line ends
+      // the run, even one that adds no rule
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+    inAgentLines = false;
+    if ((key === "allow" || key === "disallow") && current) {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: key === "allow", pattern: compilePattern(value), length: value.length });
+      }
+    }
+  }
+
+  const named = groups.filter((group) => group.agents.some((name) => productToken(name) === agent));
+  const applicable = named.length > 0 ? named : groups.filter((group) => group.agents.includes("*"));
+  const rules = applicable.flatMap((group) => group.rules);
+
+  return (path) => {
+    let best: Rule | undefined;
+    for (const rule of rules) {
+      if (!rule.pattern.test(path)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    return best?.allow ?? true;
+  };
+}
@@ -0,0 +1,34 @@
+import type { GeocodeQuery, GeocodeResult, GeocodingProvider } from "./types";
+import { ZipCentroidGeocoder } from "./zipCentroid";
+import { NominatimGeocoder } from "./nominatim";
+
+export type { GeocodeQuery, GeocodeResult, GeocodingProvider, GeoPoint } from "./types";
+export { distanceMiles } from "./distance";
+
+const providers = new Map<string, GeocodingProvider>();
+
+export function registerGeocoder(provider: GeocodingProvider) {
+  providers.set(provider.name, provider);
+}
+
+const offline = new ZipCentroidGeocoder();
+registerGeocoder(offline);
+registerGeocoder(new NominatimGeocoder({ baseUrl: process.env.NOMINATIM_URL }));
+
+// GEOCODING_PROVIDER picks the provider; the offline ZIP centroids are the default
+const providerName = process.env.GEOCODING_PROVIDER || offline.name;
+
+// Asks the configured provider first and falls back to the offline
+// centroids when it finds nothing or fails
+export async function geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+  const provider = providers.get(providerName);
+  if (provider && provider !== offline) {
+    try {
+      const result = await provider.geocode(query);
+      if (result) return result;
+    } catch (error) {
+      console.error(`Error geocoding with ${provider.name}:`, error);
+    }
+  }
+  return offline.geocode(query);
+}
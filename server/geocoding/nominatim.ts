@@ -0,0 +1,70 @@
+import { createThrottle } from "../scrapers";
+import type { GeocodeQuery, GeocodeResult, GeocodingProvider } from "./types";
+
+export interface NominatimGeocoderOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  userAgent?: string;
+  // The public instance allows one request per second
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_BASE_URL = "https://nominatim.openstreetmap.org";
+const DEFAULT_USER_AGENT = "LeadGenBot/1.0 (+geocoding)";
+const CACHE_LIMIT = 5000;
+
+// Geocodes street addresses through an OpenStreetMap Nominatim server.
+// Opt-in with GEOCODING_PROVIDER=nominatim; point NOMINATIM_URL at a
+// self-hosted instance for bulk use.
+export class NominatimGeocoder implements GeocodingProvider {
+  name = "nominatim";
+
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+  private userAgent: string;
+  private timeoutMs: number;
+  private throttle: () => Promise<void>;
+  private cache = new Map<string, Promise<GeocodeResult | null>>();
+
+  constructor(options: NominatimGeocoderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.fetchImpl = options.fetch ?? fetch;
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.timeoutMs = options.timeoutMs ?? 10 * 1000;
+    this.throttle = createThrottle(options.intervalMs ?? 1000);
+  }
+
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const text = [query.address, query.city, query.state, query.zipCode, query.text]
+      .map((part) => part?.trim())
+      .filter(Boolean)
+      .join(", ");
+    if (!text) return Promise.resolve(null);
+
+    const key = text.toLowerCase();
+    let result = this.cache.get(key);
+    if (!result) {
+      if (this.cache.size >= CACHE_LIMIT) this.cache.clear();
+      result = this.search(text, query.address ? "address" : "city");
+      // Failed lookups are retried next time rather than cached
+      result.catch(() => this.cache.delete(key));
+      this.cache.set(key, result);
+    }
+    return result;
+  }
+
+  private async search(text: string, precision: GeocodeResult["precision"]): Promise<GeocodeResult | null> {
+    await this.throttle();
+    const url = `${this.baseUrl}/search?${new URLSearchParams({ q: text, format: "jsonv2", limit: "1" })}`;
+    const response = await this.fetchImpl(url, {
+      headers: { "User-Agent": this.userAgent, Accept: "application/json" },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim responded with ${response.status}`);
+    }
+    const [place] = (await response.json()) as { lat: string; lon: string }[];
+    return place ? { latitude: parseFloat(place.lat), longitude: parseFloat(place.lon), precision } : null;
+  }
+}
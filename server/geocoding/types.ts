@@ -0,0 +1,25 @@
+import type { GeocodePrecision } from "@shared/schema";
+
+// Structured lead fields, or free text such as a campaign's location
+export interface GeocodeQuery {
+  text?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zipCode?: string | null;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  precision: GeocodePrecision;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  // Resolves to null when the location can't be found
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
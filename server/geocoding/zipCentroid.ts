@@ -0,0 +1,51 @@
+import zipcodes from "zipcodes";
+import type { GeocodeQuery, GeocodeResult, GeocodingProvider } from "./types";
+
+const US_ZIP = /\b(\d{5})(?:-\d{4})?\b/;
+// Canadian postal codes are listed by their first three characters
+const CA_POSTAL = /\b([a-z]\d[a-z])\s?\d[a-z]\d\b/i;
+
+function findZip(...texts: (string | null | undefined)[]): string | undefined {
+  for (const text of texts) {
+    if (!text) continue;
+    const match = text.match(US_ZIP) ?? text.match(CA_POSTAL);
+    if (match) return match[1].toUpperCase();
+  }
+  return undefined;
+}
+
+// "Austin, TX" or "Austin, Texas 78701" -> Austin / TX
+function splitCityState(text: string): { city: string; state: string } | undefined {
+  const parts = text.split(",").map((part) => part.replace(US_ZIP, "").trim()).filter(Boolean);
+  if (parts.length < 2) return undefined;
+  return { city: parts[parts.length - 2], state: parts[parts.length - 1] };
+}
+
+// Offline geocoder backed by the ZIP code centroids bundled with the
+// zipcodes package (US and Canada). Precise to a ZIP code at best, which
+// is enough to enforce a search radius measured in miles.
+export class ZipCentroidGeocoder implements GeocodingProvider {
+  name = "zip_centroid";
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const zip = findZip(query.zipCode, query.address, query.text);
+    const place = zip ? zipcodes.lookup(zip) : undefined;
+    if (place) {
+      return { latitude: place.latitude, longitude: place.longitude, precision: "zip" };
+    }
+
+    const cityState = query.city && query.state
+      ? { city: query.city.trim(), state: query.state.trim() }
+      : query.text ? splitCityState(query.text) : undefined;
+    if (!cityState) return null;
+
+    // A city spans many ZIP codes; their average stands in for its centre
+    const places = zipcodes.lookupByName(cityState.city, cityState.state);
+    if (places.length === 0) return null;
+    return {
+      latitude: places.reduce((total, { latitude }) => total + latitude, 0) / places.length,
+      longitude: places.reduce((total, { longitude }) => total + longitude, 0) / places.length,
+      precision: "city",
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import os from "os";
+import type { Job } from "@shared/schema";
+import { storage, type JobTypeFilter } from "./storage";
+import { log } from "./vite";
+
+// A handler may stop early by reporting that its job was paused or cancelled
+export type JobOutcome = "completed" | "paused" | "cancelled";
+
+export interface JobHandler {
+  run(job: Job): Promise<JobOutcome | void>;
+  // Called after the job has been parked in the "paused" state
+  onPaused?(job: Job): Promise<void>;
+  // Called when an attempt failed and another has been scheduled
+  onRetry?(job: Job, error: string): Promise<void>;
+  // Called once a job has exhausted its attempts
+  onFailed?(job: Job, error: string): Promise<void>;
+  // Runs jobs of this type in their own slots rather than the shared ones,
+  // so long jobs can't keep short ones waiting
+  concurrency?: number;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const STALE_AFTER_MS = 60 * 1000;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+// Slots shared by job types without a concurrency of their own
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "2", 10);
+const SHARED_POOL = "shared";
+
+const workerId = `${os.hostname()}:${process.pid}`;
+const handlers = new Map<string, JobHandler>();
+// Running jobs per pool: SHARED_POOL or a job type with its own slots
+const activeJobs = new Map<string, number>();
+let started = false;
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+async function failJob(job: Job, message: string) {
+  await storage.updateJob(job.id, {
+    status: "failed",
+    error: message,
+    lockedBy: null,
+    finishedAt: new Date(),
+  });
+  await handlers.get(job.type)?.onFailed?.(job, message);
+}
+
+// Either schedules another attempt with exponential backoff or gives up.
+async function retryOrFail(job: Job, message: string) {
+  if (job.attempts < job.maxAttempts) {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+    await storage.updateJob(job.id, {
+      status: "queued",
+      error: message,
+      lockedBy: null,
+      runAfter: new Date(Date.now() + delay),
+    });
+    log(`job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay}ms`, "jobs");
+    await handlers.get(job.type)?.onRetry?.(job, message);
+  } else {
+    await failJob(job, message);
+    log(`job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${message}`, "jobs");
+  }
+}
+
+async function execute(job: Job) {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await failJob(job, `No handler registered for job type "${job.type}"`);
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    storage.updateJob(job.id, { lockedAt: new Date() }).catch((error) => {
+      console.error(`Error updating heartbeat for job ${job.id}:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const outcome = (await handler.run(job)) || "completed";
+    await storage.updateJob(job.id, {
+      status: outcome,
+      error: null,
+      lockedBy: null,
+      finishedAt: outcome === "paused" ? null : new Date(),
+    });
+    if (outcome === "paused") {
+      await handler.onPaused?.(job);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error running job ${job.id} (${job.type}):`, error);
+    await retryOrFail(job, message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+const dedicatedTypes = () =>
+  Array.from(handlers).filter(([, handler]) => handler.concurrency).map(([type]) => type);
+
+async function fillPool(pool: string, limit: number, filter: JobTypeFilter) {
+  while ((activeJobs.get(pool) ?? 0) < limit) {
+    const job = await storage.claimNextJob(workerId, filter);
+    if (!job) return;
+
+    activeJobs.set(pool, (activeJobs.get(pool) ?? 0) + 1);
+    execute(job)
+      .catch((error) => console.error(`Error finalising job ${job.id}:`, error))
+      .finally(() => {
+        activeJobs.set(pool, activeJobs.get(pool)! - 1);
+      });
+  }
+}
+
+async function poll() {
+  const dedicated = dedicatedTypes();
+  await fillPool(SHARED_POOL, CONCURRENCY, { excludeTypes: dedicated });
+  for (const type of dedicated) {
+    await fillPool(type, handlers.get(type)!.concurrency!, { types: [type] });
+  }
+}
+
+// Jobs whose worker stopped sending heartbeats (crash, restart, redeploy)
+// are put back on the queue to resume from their last checkpoint, or
+// failed if they have no attempts left.
+async function recoverStaleJobs() {
+  const staleJobs = await storage.getStaleJobs(new Date(Date.now() - STALE_AFTER_MS));
+  for (const job of staleJobs) {
+    if (job.attempts < job.maxAttempts) {
+      await storage.updateJob(job.id, { status: "queued", lockedBy: null, runAfter: new Date() });
+      log(`resuming interrupted job ${job.id} (${job.type}) from page ${job.lastPage + 1}`, "jobs");
+    } else {
+      await failJob(job, "Job was interrupted and has no attempts left");
+      log(`failed interrupted job ${job.id} (${job.type})`, "jobs");
+    }
+  }
+
+  const orphaned = await storage.failOrphanedCampaigns();
+  for (const campaign of orphaned) {
+    log(`marked orphaned campaign ${campaign.id} as failed`, "jobs");
+  }
+}
+
+export async function startJobWorker() {
+  if (started) return;
+  started = true;
+
+  try {
+    await recoverStaleJobs();
+  } catch (error) {
+    console.error("Error recovering jobs on startup:", error);
+  }
+
+  setInterval(() => {
+    poll().catch((error) => console.error("Error polling job queue:", error));
+  }, POLL_INTERVAL_MS);
+
+  setInterval(() => {
+    recoverStaleJobs().catch((error) => console.error("Error recovering stale jobs:", error));
+  }, STALE_AFTER_MS);
+
+  const limits = dedicatedTypes().map((type) => `${type} ${handlers.get(type)!.concurrency}`);
+  log(`job worker ${workerId} started (concurrency ${[`shared ${CONCURRENCY}`, ...limits].join(", ")})`, "jobs");
+}
@@ -0,0 +1,64 @@
+import type { InsertLeadActivity, Lead, LeadFieldChange, LeadTag } from "@shared/schema";
+import { storage } from "./storage";
+
+// Blank and missing values read the same on the lead page
+const normalize = (value: unknown) => (value === undefined || value === "" ? null : value);
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Describes a user edit for the timeline: a status change gets an entry of
+// its own, every other changed field goes into one "updated" entry
+export function describeLeadUpdate(userId: string, before: Lead, after: Lead, fields: string[]): InsertLeadActivity[] {
+  const activities: InsertLeadActivity[] = [];
+  const changes: Record<string, LeadFieldChange> = {};
+  for (const field of fields) {
+    const from = before[field as keyof Lead];
+    const to = after[field as keyof Lead];
+    if (sameValue(from, to)) continue;
+    if (field === "contactStatus") {
+      activities.push({
+        leadId: after.id,
+        userId,
+        type: "status_changed",
+        details: { from: before.contactStatus, to: after.contactStatus },
+      });
+    } else {
+      changes[field] = { from: from ?? null, to: to ?? null };
+    }
+  }
+  if (Object.keys(changes).length > 0) {
+    activities.push({ leadId: after.id, userId, type: "updated", details: { changes } });
+  }
+  return activities;
+}
+
+// Tags aren't a lead column, so their changes are described separately,
+// as the comma-separated names
+export function describeTagChange(userId: string, leadId: string, before: LeadTag[], after: LeadTag[]): InsertLeadActivity[] {
+  const names = (tags: LeadTag[]) => tags.map((tag) => tag.name).join(", ");
+  if (names(before) === names(after)) return [];
+  return [{
+    leadId,
+    userId,
+    type: "updated",
+    details: { changes: { tags: { from: names(before) || null, to: names(after) || null } } },
+  }];
+}
+
+// Saves timeline entries. Never throws, so a history problem can't fail the
+// change being recorded.
+export async function recordLeadActivities(activities: InsertLeadActivity[]): Promise<void> {
+  if (activities.length === 0) return;
+  try {
+    await storage.createLeadActivities(activities);
+  } catch (error) {
+    console.error("Error recording lead activity:", error);
+  }
+}
+
+// Passes the batches through, noting the id of every lead in them
+export async function* collectLeadIds<T extends Lead>(batches: AsyncIterable<T[]>, ids: string[]): AsyncGenerator<T[]> {
+  for await (const batch of batches) {
+    ids.push(...batch.map((lead) => lead.id));
+    yield batch;
+  }
+}
@@ -0,0 +1,64 @@
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobQueue";
+import type { BroadcastFn } from "./campaignRunner";
+import { WebsiteCrawler, enrichLead } from "./enrichment";
+import { autoValidateLeads } from "./leadValidation";
+import { emitWebhookEvent } from "./webhooks";
+import { scoreLeads } from "./scoring";
+
+export const LEAD_ENRICHMENT_JOB = "lead_enrichment";
+
+// Leads per job; each one can take several throttled page loads
+const BATCH_SIZE = 10;
+// Sites crawled side by side within a job
+const CONCURRENCY = 3;
+
+const crawler = new WebsiteCrawler();
+
+export async function queueLeadEnrichment(userId: string, leadIds: string[]): Promise<number> {
+  for (let i = 0; i < leadIds.length; i += BATCH_SIZE) {
+    await storage.enqueueJob({
+      type: LEAD_ENRICHMENT_JOB,
+      userId,
+      payload: { leadIds: leadIds.slice(i, i + BATCH_SIZE) },
+    });
+  }
+  return leadIds.length;
+}
+
+async function enrichBatch(job: Job, broadcastToUser: BroadcastFn): Promise<void> {
+  const { leadIds } = job.payload as { leadIds: string[] };
+  const leads = await storage.getUserLeadsByIds(job.userId, leadIds);
+
+  const changed: string[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < leads.length) {
+      const lead = leads[next++];
+      const { updates, enrichment } = await enrichLead(lead, crawler);
+      const saved = await storage.saveLeadEnrichment(lead.id, updates, enrichment);
+      if (saved && enrichment.applied.length > 0) {
+        changed.push(saved.id);
+        emitWebhookEvent(job.userId, "lead.updated", { lead: saved });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, leads.length) }, worker));
+
+  await scoreLeads(job.userId, changed);
+  // New emails and phone numbers haven't been checked yet
+  await autoValidateLeads(job.userId, changed);
+
+  broadcastToUser(job.userId, {
+    type: 'leads_enriched',
+    count: leads.length,
+    enriched: changed.length,
+  });
+}
+
+export function createLeadEnrichmentJobHandler(broadcastToUser: BroadcastFn): JobHandler {
+  return {
+    run: (job) => enrichBatch(job, broadcastToUser),
+  };
+}
@@ -0,0 +1,308 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { once } from "events";
+import { finished } from "stream/promises";
+import ExcelJS from "exceljs";
+import { ZipArchive } from "archiver";
+import type { ExportFormat, File, TaggedLead } from "@shared/schema";
+import { storage } from "./storage";
+import { collectLeadIds, recordLeadActivities } from "./leadActivity";
+import type { LeadFilterQuery } from "./leadQuery";
+
+// Exports are stored next to uploaded files so they show up in File Management
+const EXPORT_DIR = "uploads";
+
+type CellValue = string | number | boolean | Date | null;
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  value: (lead: TaggedLead) => CellValue;
+  // Internal bookkeeping, only exported when includeMetadata is set
+  metadata?: boolean;
+}
+
+const COLUMNS: ExportColumn[] = [
+  { key: "businessName", header: "Business Name", value: (lead) => lead.businessName },
+  { key: "category", header: "Category", value: (lead) => lead.category },
+  { key: "phone", header: "Phone", value: (lead) => lead.phone },
+  { key: "email", header: "Email", value: (lead) => lead.email },
+  { key: "website", header: "Website", value: (lead) => lead.website },
+  { key: "address", header: "Address", value: (lead) => lead.address },
+  { key: "city", header: "City", value: (lead) => lead.city },
+  { key: "state", header: "State", value: (lead) => lead.state },
+  { key: "zipCode", header: "ZIP Code", value: (lead) => lead.zipCode },
+  { key: "rating", header: "Rating", value: (lead) => (lead.rating === null ? null : Number(lead.rating)) },
+  { key: "reviewCount", header: "Reviews", value: (lead) => lead.reviewCount },
+  { key: "contactStatus", header: "Contact Status", value: (lead) => lead.contactStatus },
+  { key: "isValidated", header: "Validated", value: (lead) => lead.isValidated ?? false },
+  { key: "tags", header: "Tags", value: (lead) => lead.tags.map((tag) => tag.name).join(", ") },
+  { key: "notes", header: "Notes", value: (lead) => lead.notes },
+  { key: "id", header: "Lead ID", value: (lead) => lead.id, metadata: true },
+  { key: "campaignId", header: "Campaign ID", value: (lead) => lead.campaignId, metadata: true },
+  { key: "isDuplicate", header: "Duplicate", value: (lead) => lead.isDuplicate ?? false, metadata: true },
+  { key: "latitude", header: "Latitude", value: (lead) => lead.latitude, metadata: true },
+  { key: "longitude", header: "Longitude", value: (lead) => lead.longitude, metadata: true },
+  { key: "distanceMiles", header: "Distance (mi)", value: (lead) => lead.distanceMiles, metadata: true },
+  { key: "createdAt", header: "Created At", value: (lead) => lead.createdAt, metadata: true },
+  { key: "updatedAt", header: "Updated At", value: (lead) => lead.updatedAt, metadata: true },
+];
+
+interface FormatWriter {
+  extension: string;
+  mimeType: string;
+  // Writes every batch to filePath and resolves with the number of leads written
+  write(batches: AsyncIterable<TaggedLead[]>, filePath: string, columns: ExportColumn[]): Promise<number>;
+}
+
+export interface LeadExportOptions {
+  format: ExportFormat;
+  includeMetadata: boolean;
+  compress: boolean;
+}
+
+export interface LeadExport {
+  filename: string;
+  originalName: string;
+  fileType: string;
+  fileSize: number;
+  filePath: string;
+  count: number;
+}
+
+function textValue(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// Streams text chunks to a file, respecting backpressure
+async function writeTextFile(
+  filePath: string,
+  produce: (write: (chunk: string) => Promise<void>) => Promise<number>,
+): Promise<number> {
+  const out = fs.createWriteStream(filePath, { encoding: "utf8" });
+  try {
+    const count = await produce(async (chunk) => {
+      if (!out.write(chunk)) {
+        await once(out, "drain");
+      }
+    });
+    out.end();
+    await finished(out);
+    return count;
+  } catch (error) {
+    out.destroy();
+    throw error;
+  }
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks,
+// double embedded quotes and terminate records with CRLF. Text that a
+// spreadsheet would run as a formula (scraped names like "=HYPERLINK(...)")
+// is prefixed with an apostrophe; phone numbers and plain numbers such as
+// "+15125550100" or "-3" are left alone.
+function csvField(value: CellValue): string {
+  let text = textValue(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRecord(values: CellValue[]): string {
+  return values.map(csvField).join(",") + "\r\n";
+}
+
+const csvWriter: FormatWriter = {
+  extension: "csv",
+  mimeType: "text/csv",
+  write: (batches, filePath, columns) =>
+    writeTextFile(filePath, async (write) => {
+      await write(csvRecord(columns.map((column) => column.header)));
+      let count = 0;
+      for await (const batch of batches) {
+        await write(batch.map((lead) => csvRecord(columns.map((column) => column.value(lead)))).join(""));
+        count += batch.length;
+      }
+      return count;
+    }),
+};
+
+const jsonWriter: FormatWriter = {
+  extension: "json",
+  mimeType: "application/json",
+  write: (batches, filePath, columns) =>
+    writeTextFile(filePath, async (write) => {
+      let count = 0;
+      await write("[");
+      for await (const batch of batches) {
+        for (const lead of batch) {
+          const record = Object.fromEntries(columns.map((column) => [column.key, column.value(lead)]));
+          await write(`${count === 0 ? "" : ","}\n  ${JSON.stringify(record)}`);
+          count++;
+        }
+      }
+      await write(count === 0 ? "]\n" : "\n]\n");
+      return count;
+    }),
+};
+
+const xlsxWriter: FormatWriter = {
+  extension: "xlsx",
+  mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  async write(batches, filePath, columns) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: filePath, useStyles: true });
+    const sheet = workbook.addWorksheet("Leads");
+    sheet.columns = columns.map((column) => ({
+      key: column.key,
+      header: column.header,
+      width: Math.max(12, column.header.length + 2),
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    let count = 0;
+    for await (const batch of batches) {
+      for (const lead of batch) {
+        sheet.addRow(Object.fromEntries(columns.map((column) => [column.key, column.value(lead)]))).commit();
+        count++;
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  },
+};
+
+// vCard 3.0 (RFC 2426) text escaping
+function vcardText(value: CellValue): string {
+  return textValue(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/[,;]/g, (match) => `\\${match}`);
+}
+
+// Lines longer than 75 characters are folded with CRLF + space
+function vcardLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74));
+  }
+  return parts.join("\r\n ") + "\r\n";
+}
+
+function vcard(lead: TaggedLead, includeMetadata: boolean): string {
+  const lines = ["BEGIN:VCARD", "VERSION:3.0", `FN:${vcardText(lead.businessName)}`, `ORG:${vcardText(lead.businessName)}`];
+  if (lead.phone) lines.push(`TEL;TYPE=WORK,VOICE:${vcardText(lead.phone)}`);
+  if (lead.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${vcardText(lead.email)}`);
+  if (lead.website) lines.push(`URL:${vcardText(lead.website)}`);
+  if (lead.address || lead.city || lead.state || lead.zipCode) {
+    const adr = ["", "", lead.address, lead.city, lead.state, lead.zipCode, ""].map(vcardText).join(";");
+    lines.push(`ADR;TYPE=WORK:${adr}`);
+  }
+  const categories = [lead.category, ...lead.tags.map((tag) => tag.name)]
+    .map((value) => value?.trim() ?? "")
+    .filter(Boolean)
+    .map(vcardText);
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.join(",")}`);
+  if (lead.notes) lines.push(`NOTE:${vcardText(lead.notes)}`);
+  if (includeMetadata) {
+    lines.push(`UID:urn:uuid:${lead.id}`);
+    if (lead.updatedAt) lines.push(`REV:${lead.updatedAt.toISOString()}`);
+    lines.push(`X-LEAD-CONTACT-STATUS:${vcardText(lead.contactStatus)}`);
+    lines.push(`X-LEAD-CAMPAIGN-ID:${vcardText(lead.campaignId)}`);
+  }
+  lines.push("END:VCARD");
+  return lines.map(vcardLine).join("");
+}
+
+const vcardWriter: FormatWriter = {
+  extension: "vcf",
+  mimeType: "text/vcard",
+  write: (batches, filePath, columns) =>
+    writeTextFile(filePath, async (write) => {
+      const includeMetadata = columns.some((column) => column.metadata);
+      let count = 0;
+      for await (const batch of batches) {
+        await write(batch.map((lead) => vcard(lead, includeMetadata)).join(""));
+        count += batch.length;
+      }
+      return count;
+    }),
+};
+
+const WRITERS: Record<ExportFormat, FormatWriter> = {
+  csv: csvWriter,
+  xlsx: xlsxWriter,
+  json: jsonWriter,
+  vcard: vcardWriter,
+};
+
+async function zipFile(sourcePath: string, entryName: string, targetPath: string): Promise<void> {
+  const archive = new ZipArchive({ zlib: { level: 9 } });
+  const output = fs.createWriteStream(targetPath);
+  archive.pipe(output);
+  archive.file(sourcePath, { name: entryName });
+  await archive.finalize();
+  await finished(output);
+}
+
+// Writes the leads to a new file under uploads/ and describes it in the
+// shape of the files table
+export async function exportLeads(batches: AsyncIterable<TaggedLead[]>, options: LeadExportOptions): Promise<LeadExport> {
+  const writer = WRITERS[options.format];
+  const columns = options.includeMetadata ? COLUMNS : COLUMNS.filter((column) => !column.metadata);
+  const exportName = `leads-${new Date().toISOString().slice(0, 10)}.${writer.extension}`;
+
+  await fs.promises.mkdir(EXPORT_DIR, { recursive: true });
+  const filename = randomBytes(16).toString("hex");
+  const filePath = path.join(EXPORT_DIR, filename);
+  const rawPath = options.compress ? `${filePath}.tmp` : filePath;
+
+  try {
+    const count = await writer.write(batches, rawPath, columns);
+    if (options.compress) {
+      await zipFile(rawPath, exportName, filePath);
+      await fs.promises.rm(rawPath, { force: true });
+    }
+    const { size } = await fs.promises.stat(filePath);
+    return {
+      filename,
+      originalName: options.compress ? `${exportName}.zip` : exportName,
+      fileType: options.compress ? "application/zip" : writer.mimeType,
+      fileSize: size,
+      filePath,
+      count,
+    };
+  } catch (error) {
+    await Promise.all([fs.promises.rm(rawPath, { force: true }), fs.promises.rm(filePath, { force: true })]);
+    throw error;
+  }
+}
+
+// Exports the user's leads matching the filters into their files and notes
+// the export on each lead's timeline. Options left out fall back to the
+// saved export preferences.
+export async function saveLeadExport(
+  userId: string,
+  filters: LeadFilterQuery,
+  options: Partial<LeadExportOptions>,
+): Promise<{ file: File; count: number; leadIds: string[] }> {
+  const { export: preferences } = await storage.getUserSettings(userId);
+  const format = options.format ?? preferences.defaultFormat;
+  const leadIds: string[] = [];
+  const { count, ...exported } = await exportLeads(collectLeadIds(storage.iterateUserLeads(userId, filters), leadIds), {
+    format,
+    includeMetadata: options.includeMetadata ?? preferences.includeMetadata,
+    compress: options.compress ?? preferences.compressFiles,
+  });
+  const file = await storage.createFile(userId, exported);
+  await recordLeadActivities(leadIds.map((leadId) => ({
+    leadId,
+    userId,
+    type: "exported" as const,
+    details: { fileId: file.id, fileName: file.originalName, format },
+  })));
+  return { file, count, leadIds };
+}
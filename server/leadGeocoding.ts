@@ -0,0 +1,117 @@
+import type { Campaign, InsertLead, Job, LeadLocation } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobQueue";
+import type { BroadcastFn } from "./campaignRunner";
+import { distanceMiles, geocode, type GeoPoint } from "./geocoding";
+import { scoreLeads } from "./scoring";
+
+export const LEAD_GEOCODING_JOB = "lead_geocoding";
+
+// Lead columns the geocoder reads; editing any of them moves the lead
+export const GEOCODED_LEAD_COLUMNS = ["address", "city", "state", "zipCode"] as const;
+
+// Leads per job; hosted providers are rate limited to about one lookup a second
+const BATCH_SIZE = 100;
+
+type LocatableLead = Pick<InsertLead, (typeof GEOCODED_LEAD_COLUMNS)[number]>;
+
+const campaignCentre = (campaign: Campaign): GeoPoint | null =>
+  campaign.latitude === null || campaign.longitude === null
+    ? null
+    : { latitude: campaign.latitude, longitude: campaign.longitude };
+
+// Distance from the campaign centre. Leads that can't be measured are
+// never counted as outside the radius.
+function measure(point: GeoPoint | null, campaign: Campaign): Pick<LeadLocation, "distanceMiles" | "outsideRadius"> {
+  const centre = campaignCentre(campaign);
+  if (!point || !centre) {
+    return { distanceMiles: null, outsideRadius: false };
+  }
+  const distance = Math.round(distanceMiles(centre, point) * 10) / 10;
+  return { distanceMiles: distance, outsideRadius: distance > campaign.radius };
+}
+
+// Geocodes the campaign's location as the centre of its radius. Returns the
+// campaign unchanged when the location can't be found; never throws.
+export async function locateCampaign(campaign: Campaign): Promise<Campaign> {
+  try {
+    const centre = await geocode({ text: campaign.location });
+    return await storage.updateCampaign(campaign.id, {
+      latitude: centre?.latitude ?? null,
+      longitude: centre?.longitude ?? null,
+    });
+  } catch (error) {
+    console.error(`Error geocoding campaign ${campaign.id}:`, error);
+    return campaign;
+  }
+}
+
+export async function locateLead(lead: LocatableLead, campaign: Campaign): Promise<LeadLocation> {
+  const point = await geocode({ address: lead.address, city: lead.city, state: lead.state, zipCode: lead.zipCode });
+  return {
+    latitude: point?.latitude ?? null,
+    longitude: point?.longitude ?? null,
+    geocodePrecision: point?.precision ?? null,
+    geocodedAt: new Date(),
+    ...measure(point, campaign),
+  };
+}
+
+// Queues the leads for geocoding in batches. With remeasure, leads that
+// already have coordinates only get their distance recomputed, e.g. after
+// the campaign's location or radius changed.
+export async function queueLeadGeocoding(
+  userId: string,
+  leadIds: string[],
+  options: { remeasure?: boolean } = {},
+): Promise<number> {
+  for (let i = 0; i < leadIds.length; i += BATCH_SIZE) {
+    await storage.enqueueJob({
+      type: LEAD_GEOCODING_JOB,
+      userId,
+      payload: { leadIds: leadIds.slice(i, i + BATCH_SIZE), remeasure: options.remeasure ?? false },
+    });
+  }
+  return leadIds.length;
+}
+
+async function geocodeBatch(job: Job, broadcastToUser: BroadcastFn): Promise<void> {
+  const { leadIds, remeasure } = job.payload as { leadIds: string[]; remeasure: boolean };
+  const [leads, campaigns] = await Promise.all([
+    storage.getUserLeadsByIds(job.userId, leadIds),
+    storage.getUserCampaigns(job.userId),
+  ]);
+
+  const campaignsById = new Map(campaigns.map((campaign) => [campaign.id, campaign]));
+  // Campaigns whose location couldn't be found are only tried once per batch
+  const attempted = new Set<string>();
+  const locations: (Partial<LeadLocation> & { id: string })[] = [];
+  for (const lead of leads) {
+    let campaign = campaignsById.get(lead.campaignId)!;
+    if (!campaignCentre(campaign) && !attempted.has(campaign.id)) {
+      attempted.add(campaign.id);
+      campaign = await locateCampaign(campaign);
+      campaignsById.set(campaign.id, campaign);
+    }
+    const known: GeoPoint | null = lead.latitude !== null && lead.longitude !== null
+      ? { latitude: lead.latitude, longitude: lead.longitude }
+      : null;
+    const location = remeasure && known ? measure(known, campaign) : await locateLead(lead, campaign);
+    locations.push({ id: lead.id, ...location });
+  }
+  await storage.saveLeadLocations(locations);
+  // The distance rule depends on the new locations
+  await scoreLeads(job.userId, leads.map((lead) => lead.id));
+
+  broadcastToUser(job.userId, {
+    type: 'leads_geocoded',
+    count: leads.length,
+    measured: locations.filter((location) => location.distanceMiles !== null).length,
+  });
+}
+
+export function createLeadGeocodingJobHandler(broadcastToUser: BroadcastFn): JobHandler {
+  return {
+    run: (job) => geocodeBatch(job, broadcastToUser),
+  };
+}
@@ -0,0 +1,218 @@
+import fs from "fs";
+import path from "path";
+import ExcelJS from "exceljs";
+import {
+  importableLeadFields,
+  importLeadRowSchema,
+  type File,
+  type FilePreview,
+  type ImportableLeadField,
+  type ImportColumnMapping,
+  type ImportedLead,
+  type ImportRowError,
+} from "@shared/schema";
+
+export class LeadImportError extends Error {}
+
+interface SheetRow {
+  // 1-based row number in the source file, counting the header row
+  number: number;
+  cells: string[];
+}
+
+export interface Sheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+const PREVIEW_ROWS = 20;
+
+// Header spellings recognised when suggesting a mapping, besides the field name itself
+const FIELD_ALIASES: Record<ImportableLeadField, string[]> = {
+  businessName: ["name", "business", "company", "companyname", "organization", "organisation"],
+  category: ["type", "industry", "businesscategory"],
+  phone: ["phonenumber", "telephone", "tel", "mobile"],
+  email: ["emailaddress", "mail"],
+  website: ["url", "web", "site", "homepage"],
+  address: ["street", "streetaddress", "address1"],
+  city: ["town", "locality"],
+  state: ["province", "region"],
+  zipCode: ["zip", "postcode", "postalcode"],
+  rating: ["stars", "score"],
+  reviewCount: ["reviews", "numreviews"],
+  contactStatus: ["status"],
+  tags: ["labels"],
+  notes: ["note", "comments", "comment"],
+};
+
+const FIELD_LABELS: Record<ImportableLeadField, string> = {
+  businessName: "Business Name",
+  category: "Category",
+  phone: "Phone",
+  email: "Email",
+  website: "Website",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "ZIP Code",
+  rating: "Rating",
+  reviewCount: "Reviews",
+  contactStatus: "Contact Status",
+  tags: "Tags",
+  notes: "Notes",
+};
+
+// RFC 4180 parser: quoted fields may contain separators, doubled quotes
+// and line breaks
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+async function readXlsx(filePath: string): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows: SheetRow[] = [];
+  worksheet.eachRow((row, number) => {
+    const cells = Array.from({ length: worksheet.columnCount }, (_, i) => row.getCell(i + 1).text);
+    rows.push({ number, cells });
+  });
+  return rows;
+}
+
+// Reads the first sheet of an uploaded CSV or XLSX file. The first
+// non-empty row is the header; blank rows are skipped.
+export async function readSpreadsheet(file: File): Promise<Sheet> {
+  const filePath = path.join(process.cwd(), file.filePath);
+  if (!fs.existsSync(filePath)) {
+    throw new LeadImportError("File not found on disk");
+  }
+
+  const extension = path.extname(file.originalName).toLowerCase();
+  let rows: SheetRow[];
+  if (extension === ".csv" || extension === ".txt") {
+    const text = (await fs.promises.readFile(filePath, "utf8")).replace(/^\uFEFF/, "");
+    // Undoes the apostrophe our CSV export puts before formula-like text
+    rows = parseCsv(text).map((cells, i) => ({
+      number: i + 1,
+      cells: cells.map((cell) => (/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell)),
+    }));
+  } else if (extension === ".xlsx") {
+    rows = await readXlsx(filePath);
+  } else {
+    throw new LeadImportError(`Unsupported file type "${extension || file.fileType}". Upload a CSV or XLSX file.`);
+  }
+
+  const nonEmpty = rows
+    .map((row) => ({ ...row, cells: row.cells.map((cell) => cell.trim()) }))
+    .filter((row) => row.cells.some(Boolean));
+  const [header, ...dataRows] = nonEmpty;
+  if (!header) {
+    throw new LeadImportError("The file is empty");
+  }
+
+  return {
+    headers: header.cells.map((cell, i) => cell || `Column ${i + 1}`),
+    rows: dataRows,
+  };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  for (const field of importableLeadFields) {
+    const candidates = [field.toLowerCase(), ...FIELD_ALIASES[field]];
+    const header = headers.find((header) => candidates.includes(normalizeHeader(header)));
+    if (header && !Object.values(mapping).includes(header)) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+export function previewSpreadsheet(sheet: Sheet): FilePreview {
+  return {
+    headers: sheet.headers,
+    rows: sheet.rows.slice(0, PREVIEW_ROWS).map((row) => row.cells),
+    totalRows: sheet.rows.length,
+    suggestedMapping: suggestColumnMapping(sheet.headers),
+  };
+}
+
+// Maps and validates every row, collecting errors per row instead of
+// failing the whole import
+export function mapSheetToLeads(
+  sheet: Sheet,
+  mapping: ImportColumnMapping,
+): { leads: ImportedLead[]; errors: ImportRowError[] } {
+  const columns = Object.entries(mapping).map(([field, header]) => {
+    const index = sheet.headers.indexOf(header);
+    if (index === -1) {
+      throw new LeadImportError(`Column "${header}" not found in file`);
+    }
+    return { field: field as ImportableLeadField, index };
+  });
+
+  const leads: ImportedLead[] = [];
+  const errors: ImportRowError[] = [];
+  for (const row of sheet.rows) {
+    const values = Object.fromEntries(
+      columns
+        .filter(({ index }) => row.cells[index])
+        .map(({ field, index }) => [field, row.cells[index]]),
+    );
+    const parsed = importLeadRowSchema.safeParse(values);
+    if (parsed.success) {
+      leads.push(parsed.data);
+    } else {
+      errors.push({
+        row: row.number,
+        errors: parsed.error.issues.map((issue) => {
+          const field = issue.path[0] as ImportableLeadField;
+          return FIELD_LABELS[field] ? `${FIELD_LABELS[field]}: ${issue.message}` : issue.message;
+        }),
+      });
+    }
+  }
+  return { leads, errors };
+}
@@ -0,0 +1,171 @@
+import { and, eq, gte, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  campaigns,
+  leads,
+  leadTags,
+  tags,
+  leadSearchDocument,
+  type LeadQuery,
+  type LeadSortField,
+} from "@shared/schema";
+
+export class LeadQueryError extends Error {}
+
+// Filters and sort without pagination, for consumers that walk the whole set
+export type LeadFilterQuery = Omit<LeadQuery, "cursor" | "limit">;
+
+interface SortExpression {
+  expr: SQL;
+  // Postgres type used to cast cursor values back for comparison
+  type: string;
+}
+
+// Every sort key is null-free so keyset comparisons behave like ORDER BY
+const SORT_EXPRESSIONS: Record<LeadSortField, SortExpression> = {
+  createdAt: { expr: sql`coalesce(${leads.createdAt}, 'epoch'::timestamp)`, type: "timestamp" },
+  businessName: { expr: sql`lower(${leads.businessName})`, type: "text" },
+  category: { expr: sql`lower(coalesce(${leads.category}, ''))`, type: "text" },
+  city: { expr: sql`lower(coalesce(${leads.city}, ''))`, type: "text" },
+  state: { expr: sql`lower(coalesce(${leads.state}, ''))`, type: "text" },
+  contactStatus: { expr: sql`coalesce(${leads.contactStatus}, '')`, type: "text" },
+  rating: { expr: sql`coalesce(${leads.rating}, 0)`, type: "numeric" },
+  reviewCount: { expr: sql`coalesce(${leads.reviewCount}, 0)`, type: "integer" },
+  // Unscored leads sort below a score of 0
+  score: { expr: sql`coalesce(${leads.score}, -1)`, type: "integer" },
+  // Leads that couldn't be located sort after the farthest ones
+  distance: { expr: sql`coalesce(${leads.distanceMiles}, 'Infinity'::float8)`, type: "double precision" },
+};
+
+const DEFAULT_SORT: NonNullable<LeadQuery["sort"]> = [{ field: "createdAt", direction: "desc" }];
+
+export interface SortKey {
+  expr: SQL;
+  type: string;
+  direction: "asc" | "desc";
+}
+
+// The requested sort plus the lead id as a final, unique tiebreaker
+export function leadSortKeys(query: Pick<LeadQuery, "sort">): SortKey[] {
+  const sorts = query.sort?.length ? query.sort : DEFAULT_SORT;
+  return [
+    ...sorts.map(({ field, direction }) => ({ ...SORT_EXPRESSIONS[field], direction })),
+    { expr: sql`${leads.id}`, type: "varchar", direction: "asc" as const },
+  ];
+}
+
+export function leadOrderBy(keys: SortKey[]): SQL[] {
+  return keys.map(({ expr, direction }) => (direction === "asc" ? sql`${expr} asc` : sql`${expr} desc`));
+}
+
+// Cursors carry the text form of the last row's sort keys
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, expectedLength: number): string[] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(values) &&
+      values.length === expectedLength &&
+      values.every((value) => typeof value === "string")
+    ) {
+      return values;
+    }
+  } catch {
+    // fall through
+  }
+  throw new LeadQueryError("Invalid cursor");
+}
+
+// Rows strictly after the cursor in the given ordering:
+// (k1 > v1) or (k1 = v1 and k2 > v2) or ...
+export function afterCursor(keys: SortKey[], cursor: string): SQL {
+  const values = decodeCursor(cursor, keys.length).map(
+    (value, i) => sql`cast(${value} as ${sql.raw(keys[i].type)})`,
+  );
+  const clauses = keys.map((key, i) => {
+    const equalPrefix = keys.slice(0, i).map((previous, j) => sql`${previous.expr} = ${values[j]}`);
+    const beyond = key.direction === "asc"
+      ? sql`${key.expr} > ${values[i]}`
+      : sql`${key.expr} < ${values[i]}`;
+    return and(...equalPrefix, beyond)!;
+  });
+  return or(...clauses)!;
+}
+
+export function sortKeyValues(keys: SortKey[]): SQL<string[]> {
+  return sql<string[]>`array[${sql.join(keys.map(({ expr }) => sql`(${expr})::text`), sql`, `)}]`;
+}
+
+// Turns free text into a prefix-matching tsquery: "joe pizz" -> "joe:* & pizz:*"
+function toPrefixQuery(text: string): string | undefined {
+  const terms = text.toLowerCase().split(/[^0-9a-z\u00c0-\uffff]+/).filter(Boolean);
+  return terms.length ? terms.map((term) => `${term}:*`).join(" & ") : undefined;
+}
+
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// WHERE conditions for a lead query, always scoped to the owner. Callers
+// must join campaigns on leads.campaignId.
+export function leadFilters(userId: string, query: Omit<LeadQuery, "cursor" | "limit" | "sort">): SQL[] {
+  const conditions: SQL[] = [eq(campaigns.userId, userId)];
+
+  const tsquery = query.q ? toPrefixQuery(query.q) : undefined;
+  if (tsquery) {
+    conditions.push(sql`${leadSearchDocument(leads)} @@ to_tsquery('simple', ${tsquery})`);
+  }
+  if (query.isValidated !== undefined) {
+    conditions.push(eq(leads.isValidated, query.isValidated));
+  }
+  if (query.isDuplicate !== undefined) {
+    conditions.push(eq(leads.isDuplicate, query.isDuplicate));
+  }
+  if (query.outsideRadius !== undefined) {
+    conditions.push(eq(leads.outsideRadius, query.outsideRadius));
+  }
+  if (query.contactStatus?.length) {
+    conditions.push(inArray(leads.contactStatus, query.contactStatus));
+  }
+  if (query.category?.length) {
+    conditions.push(inArray(leads.category, query.category));
+  }
+  if (query.city?.length) {
+    conditions.push(inArray(sql`lower(${leads.city})`, query.city.map((city) => city.toLowerCase())));
+  }
+  if (query.state?.length) {
+    conditions.push(inArray(leads.state, query.state));
+  }
+  if (query.campaignId?.length) {
+    conditions.push(inArray(leads.campaignId, query.campaignId));
+  }
+  if (query.runId?.length) {
+    conditions.push(inArray(leads.runId, query.runId));
+  }
+  if (query.id?.length) {
+    conditions.push(inArray(leads.id, query.id));
+  }
+  if (query.tags?.length) {
+    // Tag names, ignoring case; match leads with any of them
+    const names = query.tags.map((tag) => tag.toLowerCase());
+    conditions.push(sql`exists (
+      select 1 from ${leadTags} inner join ${tags} on ${tags.id} = ${leadTags.tagId}
+      where ${leadTags.leadId} = ${leads.id} and ${tags.userId} = ${userId}
+        and ${inArray(sql`lower(${tags.name})`, names)})`);
+  }
+  if (query.minRating !== undefined) {
+    conditions.push(gte(leads.rating, String(query.minRating)));
+  }
+  if (query.maxRating !== undefined) {
+    conditions.push(lte(leads.rating, String(query.maxRating)));
+  }
+  if (query.polygon) {
+    // Postgres geometric types take (x, y), i.e. longitude first
+    const polygon = `(${query.polygon.map(({ latitude, longitude }) => `(${longitude},${latitude})`).join(",")})`;
+    conditions.push(sql`cast(${polygon} as polygon) @> point(${leads.longitude}, ${leads.latitude})`);
+  }
+
+  return conditions;
+}
@@ -0,0 +1,73 @@
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobQueue";
+import type { BroadcastFn } from "./campaignRunner";
+import { validateLead } from "./validation";
+import { scoreLeads } from "./scoring";
+
+export const LEAD_VALIDATION_JOB = "lead_validation";
+
+// Lead columns the checks read; editing any of them makes old results stale
+export const VALIDATED_LEAD_COLUMNS = ["email", "phone", "website", "address", "city", "state", "zipCode"] as const;
+
+// Leads per job; website checks are slow, so big batches are split up
+const BATCH_SIZE = 50;
+// Leads validated side by side within a job
+const CONCURRENCY = 5;
+
+// Queues the leads for validation in batches. Returns how many were queued.
+export async function queueLeadValidation(userId: string, leadIds: string[]): Promise<number> {
+  for (let i = 0; i < leadIds.length; i += BATCH_SIZE) {
+    await storage.enqueueJob({
+      type: LEAD_VALIDATION_JOB,
+      userId,
+      payload: { leadIds: leadIds.slice(i, i + BATCH_SIZE) },
+    });
+  }
+  return leadIds.length;
+}
+
+// Validates new leads when the user has auto-validation switched on.
+// Never throws, so it can't fail the import or campaign that produced them.
+export async function autoValidateLeads(userId: string, leadIds: string[]): Promise<void> {
+  if (leadIds.length === 0) return;
+  try {
+    const settings = await storage.getUserSettings(userId);
+    if (settings.scraping.autoValidation) {
+      await queueLeadValidation(userId, leadIds);
+    }
+  } catch (error) {
+    console.error("Error queueing lead validation:", error);
+  }
+}
+
+async function validateBatch(job: Job, broadcastToUser: BroadcastFn): Promise<void> {
+  const { leadIds } = job.payload as { leadIds: string[] };
+  // Leads deleted or merged away since queueing are simply skipped
+  const leads = await storage.getUserLeadsByIds(job.userId, leadIds);
+
+  let validated = 0;
+  let next = 0;
+  const worker = async () => {
+    while (next < leads.length) {
+      const lead = leads[next++];
+      const result = await validateLead(lead);
+      await storage.saveLeadValidation(lead.id, result);
+      if (result.isValidated) validated++;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, leads.length) }, worker));
+  await scoreLeads(job.userId, leads.map((lead) => lead.id));
+
+  broadcastToUser(job.userId, {
+    type: 'leads_validated',
+    count: leads.length,
+    validated,
+  });
+}
+
+export function createLeadValidationJobHandler(broadcastToUser: BroadcastFn): JobHandler {
+  return {
+    run: (job) => validateBatch(job, broadcastToUser),
+  };
+}
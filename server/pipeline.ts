@@ -0,0 +1,108 @@
+import type { PipelineStage, PipelineStageStats, PipelineStats } from "@shared/schema";
+import type { PipelineHistory } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 40) || "stage";
+
+// Keeps the keys of existing stages and makes unique ones for new stages
+export function assignStageKeys(stages: (Omit<PipelineStage, "key"> & { key?: string })[]): PipelineStage[] {
+  const taken = new Set(stages.flatMap((stage) => (stage.key ? [stage.key] : [])));
+  return stages.map((stage) => {
+    let key = stage.key;
+    if (!key) {
+      const base = slugify(stage.name);
+      key = base;
+      for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+      taken.add(key);
+    }
+    return { ...stage, key };
+  });
+}
+
+// Matches a key or a stage name, e.g. an imported "Contacted" column.
+// Anything else lands in the first stage.
+export function resolveStageKey(stages: PipelineStage[], value: string | null | undefined): string {
+  const text = value?.trim().toLowerCase();
+  const match = text && stages.find((stage) => stage.key === text || stage.name.toLowerCase() === text);
+  return match ? match.key : stages[0].key;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 10) / 10 : null;
+
+// Replays each lead's stage changes into stays: the stage it was added in
+// (read from its first move, or its stage now if it never moved), then one
+// per move. Conversion counts leads that later reached a stage further down
+// the pipeline that isn't a lost stage. Stages that no longer exist are skipped.
+export function computePipelineStats(stages: PipelineStage[], history: PipelineHistory, now = new Date()): PipelineStats {
+  const position = new Map(stages.map((stage, index) => [stage.key, index]));
+  const lost = new Set(stages.filter((stage) => stage.outcome === "lost").map((stage) => stage.key));
+  const movesByLead = new Map<string, PipelineHistory["moves"]>();
+  for (const move of history.moves) {
+    const moves = movesByLead.get(move.leadId) ?? [];
+    moves.push(move);
+    movesByLead.set(move.leadId, moves);
+  }
+
+  const stats = new Map(
+    stages.map((stage) => [
+      stage.key,
+      { reached: new Set<string>(), advanced: new Set<string>(), completed: [] as number[], open: [] as number[] },
+    ]),
+  );
+
+  for (const lead of history.leads) {
+    const moves = movesByLead.get(lead.id) ?? [];
+    const stays = [
+      { stage: moves[0]?.from ?? lead.contactStatus, at: lead.createdAt },
+      ...moves.map((move) => ({ stage: move.to, at: move.at })),
+    ];
+    stays.forEach((stay, index) => {
+      const entry = stay.stage ? stats.get(stay.stage) : undefined;
+      if (!entry) return;
+      entry.reached.add(lead.id);
+      const start = stay.at?.getTime() ?? now.getTime();
+      const next = stays[index + 1];
+      if (next) {
+        entry.completed.push(((next.at?.getTime() ?? now.getTime()) - start) / DAY_MS);
+      } else {
+        entry.open.push((now.getTime() - (lead.stageChangedAt ?? stay.at ?? now).getTime()) / DAY_MS);
+      }
+      const from = position.get(stay.stage!)!;
+      const advanced = stays
+        .slice(index + 1)
+        .some((later) => !lost.has(later.stage ?? "") && (position.get(later.stage ?? "") ?? -1) > from);
+      if (advanced) {
+        entry.advanced.add(lead.id);
+      }
+    });
+  }
+
+  const stageStats: PipelineStageStats[] = stages.map((stage) => {
+    const entry = stats.get(stage.key)!;
+    return {
+      key: stage.key,
+      current: entry.open.length,
+      reached: entry.reached.size,
+      conversionRate: stage.outcome !== "open" || entry.reached.size === 0
+        ? null
+        : Math.round((entry.advanced.size / entry.reached.size) * 1000) / 10,
+      avgDaysInStage: average(entry.completed),
+      avgDaysCurrent: average(entry.open),
+    };
+  });
+
+  const closed = (outcome: PipelineStage["outcome"]) =>
+    stageStats
+      .filter((_, index) => stages[index].outcome === outcome)
+      .reduce((total, stage) => total + stage.current, 0);
+  const won = closed("won");
+  const closedTotal = won + closed("lost");
+
+  return {
+    stages: stageStats,
+    winRate: closedTotal > 0 ? Math.round((won / closedTotal) * 1000) / 10 : null,
+  };
+}
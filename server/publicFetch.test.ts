@@ -0,0 +1,67 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { describe, expect, it, vi } from "vitest";
+import { BlockedAddressError, assertPublicUrl, isPublicAddress, publicFetch } from "./publicFetch";
+
+// rebind.test answers with a public address once, then with loopback
+const rebind = vi.hoisted(() => ({ lookups: 0 }));
+vi.mock("dns/promises", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("dns/promises")>();
+  const lookup = ((hostname: string, options: object) => {
+    if (hostname !== "rebind.test") return dns.lookup(hostname, options);
+    const address = rebind.lookups++ === 0 ? "93.184.216.34" : "127.0.0.1";
+    return Promise.resolve([{ address, family: 4 }]);
+  }) as typeof dns.lookup;
+  return { ...dns, lookup, default: { ...dns, lookup } };
+});
+
+describe("isPublicAddress", () => {
+  it.each(["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"])(
+    "rejects the IPv4 address %s",
+    (address) => expect(isPublicAddress(address)).toBe(false),
+  );
+
+  it.each(["::1", "::", "fe80::1", "fd00::1", "::ffff:127.0.0.1", "::ffff:10.0.0.1"])(
+    "rejects the IPv6 address %s",
+    (address) => expect(isPublicAddress(address)).toBe(false),
+  );
+
+  it.each(["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:4700::1111"])("accepts %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects literal and resolved private hosts", async () => {
+    await expect(assertPublicUrl("http://127.0.0.1:8080/hook")).rejects.toBeInstanceOf(BlockedAddressError);
+    await expect(assertPublicUrl("http://[::1]/hook")).rejects.toBeInstanceOf(BlockedAddressError);
+    await expect(assertPublicUrl("http://localhost/hook")).rejects.toBeInstanceOf(BlockedAddressError);
+  });
+
+  it("rejects non-http schemes", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toBeInstanceOf(BlockedAddressError);
+  });
+
+  it("accepts public addresses", async () => {
+    await expect(assertPublicUrl("https://93.184.216.34/hook")).resolves.toBeUndefined();
+  });
+});
+
+describe("publicFetch", () => {
+  it("won't connect to a host that resolves to a private address after the check", async () => {
+    let requests = 0;
+    const server = createServer((_req, res) => {
+      requests++;
+      res.end("internal");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      await expect(publicFetch(`http://rebind.test:${port}/`)).rejects.toBeInstanceOf(BlockedAddressError);
+      expect(rebind.lookups).toBe(2);
+      expect(requests).toBe(0);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
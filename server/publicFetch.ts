@@ -0,0 +1,124 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent, fetch as undiciFetch } from "undici";
+
+// Requests to URLs that users or scraped listings supply (webhooks, lead
+// websites) must not reach the server's own network
+export class BlockedAddressError extends Error {}
+
+const MAX_REDIRECTS = 5;
+
+const privateRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4], // Multicast and reserved
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 can reach IPv4 private ranges
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !privateRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Resolves the URL's host and throws BlockedAddressError when any address it
+// resolves to is loopback, private or link-local
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new BlockedAddressError(`Unsupported URL scheme ${protocol}`);
+  }
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) {
+    throw new BlockedAddressError(`${hostname} resolves to a private address (${blocked})`);
+  }
+}
+
+// The resolver behind publicFetch's connections. It vets the addresses it
+// hands to the socket, so a host can't pass assertPublicUrl and then resolve
+// to a private address when the connection is made (DNS rebinding).
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true })
+    .then((entries) => {
+      const blocked = entries.find((entry) => !isPublicAddress(entry.address));
+      if (blocked) {
+        throw new BlockedAddressError(`${hostname} resolves to a private address (${blocked.address})`);
+      }
+      if (options.all) {
+        callback(null, entries);
+      } else {
+        callback(null, entries[0].address, entries[0].family);
+      }
+    })
+    .catch((error) => callback(error, ""));
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+type UndiciRequestInit = NonNullable<Parameters<typeof undiciFetch>[1]>;
+
+// A fetch that refuses private targets, checking every redirect hop too.
+// Redirects are followed here rather than by fetch so each Location is vetted.
+export const publicFetch: typeof fetch = async (input, init = {}) => {
+  let url = new URL(input instanceof Request ? input.url : input);
+  let method = init.method ?? "GET";
+  let body = init.body;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+    let response: Response;
+    try {
+      // undici's fetch takes the agent; its Request and Response types differ
+      // only nominally from the global ones
+      const requestInit = { ...init, method, body, redirect: "manual", dispatcher: publicAgent } as UndiciRequestInit;
+      response = (await undiciFetch(url, requestInit)) as unknown as Response;
+    } catch (error) {
+      // fetch reports connection errors as a TypeError with the cause attached
+      if (error instanceof TypeError && error.cause instanceof BlockedAddressError) throw error.cause;
+      throw error;
+    }
+    const location = response.headers.get("location");
+    if (init.redirect === "manual" || response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel().catch(() => {});
+    if (init.redirect === "error") {
+      throw new TypeError(`${url.href} redirected`);
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new TypeError(`Too many redirects fetching ${url.href}`);
+    }
+    // As browsers do, a 303 (or a 301/302 answering a POST) turns into a GET
+    const rewritesToGet =
+      (response.status === 303 && method !== "HEAD") ||
+      ((response.status === 301 || response.status === 302) && method === "POST");
+    if (rewritesToGet) {
+      method = "GET";
+      body = undefined;
+    }
+    url = new URL(location, url);
+  }
+};
@@ -4,9 +4,12 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
+import type { IncomingMessage, ServerResponse } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
+import type { ApiKeyScope } from "@shared/schema";
 import { storage } from "./storage";
+import { authenticateApiKey, bearerToken, hasScope } from "./apiKeys";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -66,9 +69,14 @@ async function upsertUser(
   });
 }
 
+// Shared with authenticateUpgrade so WebSocket connections read the same
+// session store as the HTTP API
+let sessionMiddleware: RequestHandler | undefined;
+
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -127,31 +135,98 @@ export async function setupAuth(app: Express) {
   });
 }
 
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
-
-  if (!req.isAuthenticated() || !user.expires_at) {
-    return res.status(401).json({ message: "Unauthorized" });
+// Checks the session user's token, refreshing it when it has expired
+async function hasValidToken(user: any): Promise<boolean> {
+  if (!user?.expires_at) {
+    return false;
   }
 
   const now = Math.floor(Date.now() / 1000);
   if (now <= user.expires_at) {
-    return next();
+    return true;
   }
 
   const refreshToken = user.refresh_token;
   if (!refreshToken) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+    return false;
   }
 
   try {
     const config = await getOidcConfig();
     const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
     updateUserSession(user, tokenResponse);
-    return next();
+    return true;
   } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+    return false;
+  }
+}
+
+// Accepts either the browser session or an `Authorization: Bearer <key>`
+// header carrying one of the user's API keys
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const token = bearerToken(req.headers.authorization);
+  if (token) {
+    try {
+      const user = await authenticateApiKey(token);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid API key" });
+      }
+      req.user = user;
+      return next();
+    } catch (error) {
+      console.error("Error authenticating API key:", error);
+      return res.status(500).json({ message: "Failed to authenticate API key" });
+    }
+  }
+
+  if (!req.isAuthenticated() || !(await hasValidToken(req.user))) {
+    return res.status(401).json({ message: "Unauthorized" });
   }
+  return next();
 };
+
+// isAuthenticated, plus an API key must carry the scope. Sessions have
+// every scope.
+export function authorize(scope: ApiKeyScope): RequestHandler {
+  return (req: any, res, next) => {
+    isAuthenticated(req, res, () => {
+      if (req.user.apiKeyId && !hasScope(req.user.scopes, scope)) {
+        return res.status(403).json({ message: `API key is missing the "${scope}" scope` });
+      }
+      next();
+    });
+  };
+}
+
+// For routes an API key must not reach, such as managing keys themselves
+export const requireSession: RequestHandler = (req: any, res, next) => {
+  isAuthenticated(req, res, () => {
+    if (req.user.apiKeyId) {
+      return res.status(403).json({ message: "This endpoint needs a signed-in session, not an API key" });
+    }
+    next();
+  });
+};
+
+// Resolves the logged-in user id for a raw HTTP request, such as a WebSocket
+// upgrade, by running it through the session and passport middleware.
+export async function authenticateUpgrade(req: IncomingMessage): Promise<string | undefined> {
+  if (!sessionMiddleware) {
+    throw new Error("setupAuth must run before authenticating upgrades");
+  }
+
+  const request = req as any;
+  const response = {} as ServerResponse;
+  const middlewares: RequestHandler[] = [sessionMiddleware, passport.initialize(), passport.session()];
+
+  for (const middleware of middlewares) {
+    await new Promise<void>((resolve, reject) => {
+      middleware(request, response as any, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  if (!request.isAuthenticated() || !(await hasValidToken(request.user))) {
+    return undefined;
+  }
+  return request.user.claims?.sub;
+}
@@ -0,0 +1,261 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Campaign, Lead, File } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { generateApiKey } from "./apiKeys";
+
+// An in-memory Postgres with the current schema in place of the Neon pool
+vi.mock("./db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  // The ESM build of drizzle-kit/api can't load its own dependencies
+  const { createRequire } = (await import("module")).default;
+  const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+    createRequire(import.meta.url)("drizzle-kit/api");
+  const schema = await import("@shared/schema");
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  return { db: drizzle(client, { schema }), pool: undefined };
+});
+
+// Requests authenticate with API keys, so the OIDC login isn't needed
+vi.mock("./replitAuth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./replitAuth")>()),
+  setupAuth: async () => {},
+}));
+
+// No background work while the routes are exercised
+vi.mock("./jobQueue", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./jobQueue")>()),
+  startJobWorker: async () => {},
+}));
+vi.mock("./campaignScheduler", () => ({ startCampaignScheduler: () => {} }));
+
+// Campaigns are created without reaching the geocoding service
+vi.mock("./geocoding", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./geocoding")>()),
+  geocode: async () => null,
+}));
+
+const app = express();
+app.use(express.json());
+
+const keys: Record<string, string> = {};
+let campaign: Campaign;
+let lead: Lead;
+let file: File;
+let tmpDir: string;
+
+async function createUser(id: string, scopes = ["leads:read", "leads:write", "campaigns:run"]) {
+  await storage.upsertUser({ id, email: `${id}@example.com` });
+  const { key, prefix, keyHash } = generateApiKey();
+  await storage.createApiKey({
+    userId: id,
+    name: "tests",
+    scopes,
+    prefix,
+    keyHash,
+  });
+  keys[id] = key;
+}
+
+const as = (userId: string) => ({ Authorization: `Bearer ${keys[userId]}` });
+
+beforeAll(async () => {
+  const server = await registerRoutes(app);
+  server.close();
+
+  await createUser("owner");
+  await createUser("intruder");
+  await createUser("reader", ["leads:read", "campaigns:read"]);
+
+  campaign = await storage.createCampaign("owner", {
+    name: "Austin bakeries",
+    businessCategory: "Bakery",
+    location: "Austin, TX",
+    radius: 10,
+    scrapingMode: "fast",
+  });
+  lead = await storage.createLead({ campaignId: campaign.id, businessName: "Harbor Street Bakery" });
+
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "routes-test-"));
+  const filePath = path.join(tmpDir, "leads.csv");
+  fs.writeFileSync(filePath, "Business Name\nHarbor Street Bakery\n");
+  file = await storage.createFile("owner", {
+    filename: "leads.csv",
+    originalName: "leads.csv",
+    fileType: "text/csv",
+    fileSize: fs.statSync(filePath).size,
+    // Download paths are resolved against the working directory
+    filePath: path.relative(process.cwd(), filePath),
+  });
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("ownership checks", () => {
+  it("hides another user's campaign", async () => {
+    await request(app).get(`/api/campaigns/${campaign.id}`).set(as("intruder")).expect(404);
+    await request(app).get(`/api/campaigns/${campaign.id}`).set(as("owner")).expect(200);
+  });
+
+  it("won't update another user's campaign", async () => {
+    await request(app)
+      .patch(`/api/campaigns/${campaign.id}`)
+      .set(as("intruder"))
+      .send({ name: "Taken over" })
+      .expect(404);
+    expect((await storage.getCampaign(campaign.id))?.name).toBe("Austin bakeries");
+  });
+
+  it("won't delete another user's campaign", async () => {
+    await request(app).delete(`/api/campaigns/${campaign.id}`).set(as("intruder")).expect(404);
+    expect(await storage.getCampaign(campaign.id)).toBeDefined();
+  });
+
+  it("hides the leads of another user's campaign", async () => {
+    await request(app).get(`/api/campaigns/${campaign.id}/leads`).set(as("intruder")).expect(404);
+    const response = await request(app).get(`/api/campaigns/${campaign.id}/leads`).set(as("owner")).expect(200);
+    expect(response.body.map((item: Lead) => item.id)).toEqual([lead.id]);
+  });
+
+  it("won't update another user's lead", async () => {
+    await request(app)
+      .patch(`/api/leads/${lead.id}`)
+      .set(as("intruder"))
+      .send({ notes: "Taken over" })
+      .expect(404);
+    expect((await storage.getUserLead("owner", lead.id))?.notes).toBeNull();
+  });
+
+  it("won't serve another user's file", async () => {
+    await request(app).get(`/api/files/${file.id}/download`).set(as("intruder")).expect(404);
+    const response = await request(app).get(`/api/files/${file.id}/download`).set(as("owner")).expect(200);
+    expect(response.text).toContain("Harbor Street Bakery");
+  });
+
+  it("lets the owner update and delete their campaign", async () => {
+    await request(app)
+      .patch(`/api/campaigns/${campaign.id}`)
+      .set(as("owner"))
+      .send({ name: "Austin bakeries and cafés" })
+      .expect(200);
+    await request(app).delete(`/api/campaigns/${campaign.id}`).set(as("owner")).expect(200);
+    expect(await storage.getCampaign(campaign.id)).toBeUndefined();
+  });
+});
+
+describe("campaign run controls", () => {
+  it("ignores run state sent with a new campaign", async () => {
+    const response = await request(app)
+      .post("/api/campaigns")
+      .set(as("owner"))
+      .send({
+        name: "Houston bakeries",
+        businessCategory: "Bakery",
+        location: "Houston, TX",
+        radius: 10,
+        scrapingMode: "fast",
+        status: "completed",
+        progress: 100,
+        leadsFound: 500,
+      })
+      .expect(200);
+    expect(response.body).toMatchObject({ status: "draft", progress: 0, leadsFound: 0 });
+  });
+
+  it("only moves a campaign between the states each action expects", async () => {
+    const florists = await storage.createCampaign("owner", {
+      name: "Dallas florists",
+      businessCategory: "Florist",
+      location: "Dallas, TX",
+      radius: 10,
+      scrapingMode: "fast",
+    });
+    await request(app).post(`/api/campaigns/${florists.id}/pause`).set(as("owner")).expect(409);
+
+    await storage.updateCampaign(florists.id, { status: "running" });
+    await request(app).post(`/api/campaigns/${florists.id}/resume`).set(as("owner")).expect(409);
+    const paused = await request(app).post(`/api/campaigns/${florists.id}/pause`).set(as("owner")).expect(200);
+    expect(paused.body.status).toBe("paused");
+    await request(app).post(`/api/campaigns/${florists.id}/pause`).set(as("owner")).expect(409);
+
+    const cancelled = await request(app).post(`/api/campaigns/${florists.id}/cancel`).set(as("owner")).expect(200);
+    expect(cancelled.body.status).toBe("cancelled");
+    await request(app).post(`/api/campaigns/${florists.id}/resume`).set(as("owner")).expect(409);
+    await request(app).post(`/api/campaigns/${florists.id}/cancel`).set(as("owner")).expect(409);
+    expect((await storage.getCampaign(florists.id))?.status).toBe("cancelled");
+  });
+});
+
+describe("API key scopes", () => {
+  it("needs leads:write to export, since an export saves a file", async () => {
+    await request(app).get("/api/leads/export?format=csv").set(as("reader")).expect(403);
+    expect(await storage.getUserFiles("reader")).toEqual([]);
+  });
+
+  it("won't change settings with an API key", async () => {
+    await request(app).put("/api/settings").set(as("owner")).send({}).expect(403);
+    await request(app).get("/api/settings").set(as("reader")).expect(200);
+  });
+});
+
+describe("lead import", () => {
+  it("tells lead.created webhooks about the imported leads", async () => {
+    const webhook = await storage.createWebhook({
+      userId: "owner",
+      url: "https://hooks.example/leads",
+      secret: "secret",
+      events: ["lead.created"],
+    });
+    const response = await request(app)
+      .post(`/api/files/${file.id}/import`)
+      .set(as("owner"))
+      .send({
+        mapping: { businessName: "Business Name" },
+        newCampaign: { name: "Imported bakeries", businessCategory: "Bakery", location: "Austin, TX" },
+      })
+      .expect(200);
+    expect(response.body.imported).toBe(1);
+
+    // Events are emitted without holding up the response
+    const deliveries = await vi.waitFor(async () => {
+      const queued = await storage.getUserWebhookDeliveries("owner", webhook.id);
+      expect(queued).toHaveLength(1);
+      return queued;
+    });
+    expect(deliveries[0].payload).toMatchObject({
+      event: "lead.created",
+      data: {
+        campaignId: response.body.campaignId,
+        leads: [expect.objectContaining({ businessName: "Harbor Street Bakery" })],
+      },
+    });
+  });
+});
+
+describe("shared saved views", () => {
+  it("leaves the owner's campaign and run filters out for other viewers", async () => {
+    const view = await storage.createSavedView("owner", {
+      name: "Austin follow-ups",
+      query: { campaignId: "campaign-1", runId: "run-1", city: "Austin" },
+      columns: ["contact"],
+      pinned: false,
+    });
+    await storage.updateUserSavedView("owner", view.id, { shared: true });
+
+    const shared = await request(app).get(`/api/views/${view.id}`).set(as("intruder")).expect(200);
+    expect(shared.body.query).toEqual({ city: "Austin" });
+    const own = await request(app).get(`/api/views/${view.id}`).set(as("owner")).expect(200);
+    expect(own.body.query).toEqual({ campaignId: "campaign-1", runId: "run-1", city: "Austin" });
+  });
+});
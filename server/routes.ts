@@ -2,14 +2,85 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertCampaignSchema, insertLeadSchema } from "@shared/schema";
+import { setupAuth, isAuthenticated, authorize, requireSession, authenticateUpgrade } from "./replitAuth";
+import { generateApiKey } from "./apiKeys";
+import {
+  WEBHOOK_DELIVERY_JOB,
+  emitWebhookEvent,
+  generateWebhookSecret,
+  webhookDeliveryJobHandler,
+  webhookUrlProblem,
+} from "./webhooks";
+import { CAMPAIGN_RUN_JOB, createCampaignJobHandler, startCampaignRun } from "./campaignRunner";
+import { startCampaignScheduler } from "./campaignScheduler";
+import { CronExpressionError, nextScheduledRun } from "./campaignSchedule";
+import { registerJobHandler, startJobWorker } from "./jobQueue";
+import { getScraper, listScrapers } from "./scrapers";
+import {
+  insertCampaignSchema,
+  leadExportQuerySchema,
+  leadImportSchema,
+  leadQuerySchema,
+  updateCampaignSchema,
+  setCampaignScheduleSchema,
+  updateLeadSchema,
+  userSettingsSchema,
+  createApiKeySchema,
+  type Lead,
+  type LeadMergeField,
+  createWebhookSchema,
+  updateWebhookSchema,
+  leadMergeSchema,
+  validateLeadsSchema,
+  enrichLeadsSchema,
+  scoringRulesSchema,
+  geocodeLeadsSchema,
+  createLeadNoteSchema,
+  pipelineSchema,
+  createTagSchema,
+  updateTagSchema,
+  mergeTagsSchema,
+  setLeadTagsSchema,
+  bulkLeadRequestSchema,
+  bulkLeadLimit,
+  uniqueTagNames,
+  createSavedViewSchema,
+  updateSavedViewSchema,
+  parseSavedViewQuery,
+  withoutOwnerFilters,
+} from "@shared/schema";
+import { LeadQueryError } from "./leadQuery";
+import { saveLeadExport } from "./leadExport";
+import { runBulkLeadAction } from "./bulkLeadActions";
+import { describeLeadUpdate, describeTagChange, recordLeadActivities } from "./leadActivity";
+import { assignStageKeys, computePipelineStats, resolveStageKey } from "./pipeline";
+import { deduplicateUserLeads } from "./dedup";
+import {
+  LEAD_VALIDATION_JOB,
+  VALIDATED_LEAD_COLUMNS,
+  autoValidateLeads,
+  createLeadValidationJobHandler,
+  queueLeadValidation,
+} from "./leadValidation";
+import {
+  GEOCODED_LEAD_COLUMNS,
+  LEAD_GEOCODING_JOB,
+  createLeadGeocodingJobHandler,
+  locateCampaign,
+  queueLeadGeocoding,
+} from "./leadGeocoding";
+import { LEAD_SCORING_JOB, createLeadScoringJobHandler, queueRescore, scoreLeads } from "./scoring";
+import { LEAD_ENRICHMENT_JOB, createLeadEnrichmentJobHandler, queueLeadEnrichment } from "./leadEnrichment";
+import { LeadImportError, mapSheetToLeads, previewSpreadsheet, readSpreadsheet } from "./leadImport";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 
 const upload = multer({ dest: "uploads/" });
 
+// Markers the map view can draw without bogging down the browser
+const LEAD_MAP_LIMIT = 5000;
+
 interface WebSocketClient extends WebSocket {
   userId?: string;
 }
@@ -21,22 +92,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
 
-  // WebSocket server for real-time updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // WebSocket server for real-time updates. Connections are tied to the
+  // user of the session cookie sent with the upgrade request.
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') {
+      return;
+    }
+
+    try {
+      const userId = await authenticateUpgrade(req);
+      if (!userId) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws: WebSocketClient) => {
+        ws.userId = userId;
+        wss.emit('connection', ws, req);
+      });
+    } catch (error) {
+      console.error('Error authenticating WebSocket upgrade:', error);
+      socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+      socket.destroy();
+    }
+  });
   
-  wss.on('connection', (ws: WebSocketClient, req) => {
+  wss.on('connection', (ws: WebSocketClient) => {
     console.log('WebSocket client connected');
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        if (data.type === 'auth' && data.userId) {
-          ws.userId = data.userId;
-        }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    });
 
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
@@ -52,6 +138,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  try {
+    const backfilled = await storage.backfillLegacyLeadTags();
+    if (backfilled > 0) {
+      console.log(`Copied the comma-separated tags of ${backfilled} leads into tags`);
+    }
+  } catch (error) {
+    console.error("Error backfilling lead tags:", error);
+  }
+
+  // Background jobs
+  registerJobHandler(CAMPAIGN_RUN_JOB, createCampaignJobHandler(broadcastToUser));
+  registerJobHandler(WEBHOOK_DELIVERY_JOB, webhookDeliveryJobHandler);
+  registerJobHandler(LEAD_VALIDATION_JOB, createLeadValidationJobHandler(broadcastToUser));
+  registerJobHandler(LEAD_ENRICHMENT_JOB, createLeadEnrichmentJobHandler(broadcastToUser));
+  registerJobHandler(LEAD_SCORING_JOB, createLeadScoringJobHandler(broadcastToUser));
+  registerJobHandler(LEAD_GEOCODING_JOB, createLeadGeocodingJobHandler(broadcastToUser));
+  await startJobWorker();
+  startCampaignScheduler(broadcastToUser);
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -64,12 +169,252 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Settings routes
+  app.get('/api/settings', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getUserSettings(userId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  // Account settings, like API keys and webhooks, are only changed from the app
+  app.put('/api/settings', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = userSettingsSchema.safeParse(req.body);
+      if (!settings.success) {
+        return res.status(400).json({ message: "Invalid settings", errors: settings.error.flatten().fieldErrors });
+      }
+      const saved = await storage.saveUserSettings(userId, settings.data);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      res.status(500).json({ message: "Failed to save settings" });
+    }
+  });
+
+  app.get('/api/scoring-rules', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rules = await storage.getScoringRules(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching scoring rules:", error);
+      res.status(500).json({ message: "Failed to fetch scoring rules" });
+    }
+  });
+
+  app.put('/api/scoring-rules', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rules = scoringRulesSchema.safeParse(req.body);
+      if (!rules.success) {
+        return res.status(400).json({ message: "Invalid scoring rules", errors: rules.error.flatten().fieldErrors });
+      }
+      const saved = await storage.saveScoringRules(userId, rules.data);
+      // Existing scores were computed with the old rules
+      await queueRescore(userId);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error saving scoring rules:", error);
+      res.status(500).json({ message: "Failed to save scoring rules" });
+    }
+  });
+
+  app.get('/api/pipeline', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const stages = await storage.getPipelineStages(userId);
+      res.json(stages);
+    } catch (error) {
+      console.error("Error fetching pipeline:", error);
+      res.status(500).json({ message: "Failed to fetch pipeline" });
+    }
+  });
+
+  // Leads in removed stages must be given a stage to move to
+  app.put('/api/pipeline', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = pipelineSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid pipeline", errors: body.error.flatten().fieldErrors });
+      }
+
+      const stages = assignStageKeys(body.data.stages);
+      const keys = new Set(stages.map((stage) => stage.key));
+      const [current, counts] = await Promise.all([storage.getPipelineStages(userId), storage.getStageCounts(userId)]);
+      const reassign: Record<string, string> = {};
+      for (const removed of current.filter((stage) => !keys.has(stage.key))) {
+        if (!counts[removed.key]) continue;
+        const target = body.data.reassign[removed.key];
+        if (!target || !keys.has(target)) {
+          return res.status(400).json({ message: `Choose a stage for the leads in "${removed.name}"` });
+        }
+        reassign[removed.key] = target;
+      }
+
+      const saved = await storage.savePipelineStages(userId, stages, reassign);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error saving pipeline:", error);
+      res.status(500).json({ message: "Failed to save pipeline" });
+    }
+  });
+
+  app.get('/api/pipeline/stats', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [stages, history] = await Promise.all([
+        storage.getPipelineStages(userId),
+        storage.getPipelineHistory(userId),
+      ]);
+      res.json(computePipelineStats(stages, history));
+    } catch (error) {
+      console.error("Error fetching pipeline stats:", error);
+      res.status(500).json({ message: "Failed to fetch pipeline stats" });
+    }
+  });
+
+  // API key routes. Keys can't manage other keys, so these are session-only.
+  app.get('/api/api-keys', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const keys = await storage.getUserApiKeys(userId);
+      res.json(keys);
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post('/api/api-keys', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = createApiKeySchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid API key", errors: body.error.flatten().fieldErrors });
+      }
+
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({ ...body.data, userId, prefix, keyHash });
+      // The plain key is only ever returned here
+      res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  app.delete('/api/api-keys/:id', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const revoked = await storage.revokeUserApiKey(userId, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // Webhook routes. Session-only, as a webhook sends lead data wherever
+  // it points.
+  app.get('/api/webhooks', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const userWebhooks = await storage.getUserWebhooks(userId);
+      res.json(userWebhooks);
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post('/api/webhooks', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = createWebhookSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid webhook", errors: body.error.flatten().fieldErrors });
+      }
+      const urlProblem = await webhookUrlProblem(body.data.url);
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+      }
+
+      // The secret is only ever returned here
+      const webhook = await storage.createWebhook({ ...body.data, userId, secret: generateWebhookSecret() });
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch('/api/webhooks/:id', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = updateWebhookSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid webhook", errors: body.error.flatten().fieldErrors });
+      }
+      const urlProblem = body.data.url ? await webhookUrlProblem(body.data.url) : undefined;
+      if (urlProblem) {
+        return res.status(400).json({ message: urlProblem });
+      }
+
+      const webhook = await storage.updateUserWebhook(userId, req.params.id, body.data);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete('/api/webhooks/:id', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteUserWebhook(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.get('/api/webhooks/:id/deliveries', requireSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deliveries = await storage.getUserWebhookDeliveries(userId, req.params.id);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
   // Campaign routes
-  app.post('/api/campaigns', isAuthenticated, async (req: any, res) => {
+  app.post('/api/campaigns', authorize("campaigns:run"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const campaignData = insertCampaignSchema.parse(req.body);
-      const campaign = await storage.createCampaign(userId, campaignData);
+      if (campaignData.scraperProvider && !getScraper(campaignData.scraperProvider)) {
+        return res.status(400).json({ message: `Unknown scraper provider "${campaignData.scraperProvider}"` });
+      }
+      const campaign = await locateCampaign(await storage.createCampaign(userId, campaignData));
       res.json(campaign);
     } catch (error) {
       console.error("Error creating campaign:", error);
@@ -77,20 +422,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/campaigns', isAuthenticated, async (req: any, res) => {
+  app.get('/api/campaigns', authorize("campaigns:read"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const campaigns = await storage.getUserCampaigns(userId);
-      res.json(campaigns);
+      const [campaigns, latestRuns] = await Promise.all([
+        storage.getUserCampaigns(userId),
+        storage.getLatestCampaignRuns(userId),
+      ]);
+      const lastRuns = new Map(latestRuns.map((run) => [run.campaignId, run]));
+      res.json(campaigns.map((campaign) => ({ ...campaign, lastRun: lastRuns.get(campaign.id) ?? null })));
     } catch (error) {
       console.error("Error fetching campaigns:", error);
       res.status(500).json({ message: "Failed to fetch campaigns" });
     }
   });
 
-  app.get('/api/campaigns/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/campaigns/:id', authorize("campaigns:read"), async (req: any, res) => {
     try {
-      const campaign = await storage.getCampaign(req.params.id);
+      const userId = req.user.claims.sub;
+      const campaign = await storage.getUserCampaign(userId, req.params.id);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
@@ -101,12 +451,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/campaigns/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/campaigns/:id', authorize("campaigns:run"), async (req: any, res) => {
     try {
-      const campaign = await storage.updateCampaign(req.params.id, req.body);
-      
-      // Broadcast update to user
       const userId = req.user.claims.sub;
+      const updates = updateCampaignSchema.parse(req.body);
+      if (updates.scraperProvider && !getScraper(updates.scraperProvider)) {
+        return res.status(400).json({ message: `Unknown scraper provider "${updates.scraperProvider}"` });
+      }
+      let campaign = await storage.updateUserCampaign(userId, req.params.id, updates);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      // A new centre or radius changes which leads fall inside it
+      if (updates.location !== undefined || updates.radius !== undefined) {
+        if (updates.location !== undefined) {
+          campaign = await locateCampaign(campaign);
+        }
+        await queueLeadGeocoding(userId, await storage.getUserLeadIds(userId, { campaignId: campaign.id }), {
+          remeasure: true,
+        });
+      }
+
+      // Broadcast update to user
       broadcastToUser(userId, {
         type: 'campaign_updated',
         campaign
@@ -119,9 +486,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/campaigns/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/campaigns/:id', authorize("campaigns:run"), async (req: any, res) => {
     try {
-      await storage.deleteCampaign(req.params.id);
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteUserCampaign(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting campaign:", error);
@@ -129,18 +500,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Start scraping (simulated for now - would integrate with actual scraping service)
-  app.post('/api/campaigns/:id/start', isAuthenticated, async (req: any, res) => {
+  app.get('/api/scrapers', authorize("campaigns:read"), async (_req, res) => {
+    res.json(listScrapers());
+  });
+
+  // Queue a campaign run for the background job worker
+  app.post('/api/campaigns/:id/start', authorize("campaigns:run"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const campaign = await storage.updateCampaign(req.params.id, { 
-        status: 'running',
-        progress: 0 
-      });
+      const existing = await storage.getUserCampaign(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
 
-      // Simulate scraping process
-      simulateScraping(req.params.id, userId, broadcastToUser);
-      
+      const existingJob = await storage.getActiveCampaignJob(existing.id);
+      if (existingJob) {
+        return res.status(409).json({ message: "Campaign is already running" });
+      }
+
+      const campaign = await startCampaignRun(existing, "manual", broadcastToUser);
       res.json(campaign);
     } catch (error) {
       console.error("Error starting campaign:", error);
@@ -148,21 +526,338 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/campaigns/:id/pause', authorize("campaigns:run"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getUserCampaign(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      // Guarded so a run finishing or being cancelled meanwhile isn't overwritten
+      const campaign = await storage.updateCampaignInStatus(existing.id, ['running'], { status: 'paused' });
+      if (!campaign) {
+        return res.status(409).json({ message: "Only running campaigns can be paused" });
+      }
+      broadcastToUser(userId, {
+        type: 'campaign_status',
+        campaignId: campaign.id,
+        status: campaign.status,
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Error pausing campaign:", error);
+      res.status(500).json({ message: "Failed to pause campaign" });
+    }
+  });
+
+  app.post('/api/campaigns/:id/resume', authorize("campaigns:run"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getUserCampaign(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const campaign = await storage.updateCampaignInStatus(existing.id, ['paused'], { status: 'running' });
+      if (!campaign) {
+        return res.status(409).json({ message: "Only paused campaigns can be resumed" });
+      }
+      await storage.requeuePausedCampaignJob(campaign.id);
+      broadcastToUser(userId, {
+        type: 'campaign_status',
+        campaignId: campaign.id,
+        status: campaign.status,
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Error resuming campaign:", error);
+      res.status(500).json({ message: "Failed to resume campaign" });
+    }
+  });
+
+  app.post('/api/campaigns/:id/cancel', authorize("campaigns:run"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getUserCampaign(userId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const campaign = await storage.updateCampaignInStatus(existing.id, ['running', 'paused'], { status: 'cancelled' });
+      if (!campaign) {
+        return res.status(409).json({ message: "Only running or paused campaigns can be cancelled" });
+      }
+      await storage.cancelPendingCampaignJobs(campaign.id);
+      // A running job closes its own run once it notices the cancellation
+      if (!(await storage.getActiveCampaignJob(campaign.id))) {
+        await storage.finishCampaignRuns(campaign.id, 'cancelled');
+      }
+      broadcastToUser(userId, {
+        type: 'campaign_status',
+        campaignId: campaign.id,
+        status: campaign.status,
+      });
+
+      res.json(campaign);
+    } catch (error) {
+      console.error("Error cancelling campaign:", error);
+      res.status(500).json({ message: "Failed to cancel campaign" });
+    }
+  });
+
+  // A one-off time must still be ahead; a recurring one must fire again
+  app.put('/api/campaigns/:id/schedule', authorize("campaigns:run"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = setCampaignScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid schedule", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { schedule } = parsed.data;
+      const nextRunAt = schedule ? nextScheduledRun(schedule, new Date()) : null;
+      if (schedule && !nextRunAt) {
+        return res.status(400).json({
+          message: schedule.type === "once" ? "The run time is in the past" : "The schedule never runs",
+        });
+      }
+
+      const campaign = await storage.updateUserCampaign(userId, req.params.id, { schedule, nextRunAt });
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      broadcastToUser(userId, {
+        type: 'campaign_updated',
+        campaign
+      });
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof CronExpressionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error scheduling campaign:", error);
+      res.status(500).json({ message: "Failed to schedule campaign" });
+    }
+  });
+
+  app.get('/api/campaigns/:id/runs', authorize("campaigns:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const campaign = await storage.getUserCampaign(userId, req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      res.json(await storage.getUserCampaignRuns(userId, campaign.id));
+    } catch (error) {
+      console.error("Error fetching campaign runs:", error);
+      res.status(500).json({ message: "Failed to fetch campaign runs" });
+    }
+  });
+
+  app.get('/api/campaigns/:id/runs/:runId', authorize("campaigns:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const run = await storage.getUserCampaignRun(userId, req.params.id, req.params.runId);
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching campaign run:", error);
+      res.status(500).json({ message: "Failed to fetch campaign run" });
+    }
+  });
+
   // Lead routes
-  app.get('/api/leads', isAuthenticated, async (req: any, res) => {
+  app.get('/api/leads', authorize("leads:read"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const leads = await storage.getUserLeads(userId);
-      res.json(leads);
+      const query = leadQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid lead query", errors: query.error.flatten().fieldErrors });
+      }
+      const page = await storage.queryUserLeads(userId, query.data);
+      res.json(page);
     } catch (error) {
+      if (error instanceof LeadQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching leads:", error);
       res.status(500).json({ message: "Failed to fetch leads" });
     }
   });
 
-  app.get('/api/campaigns/:id/leads', isAuthenticated, async (req: any, res) => {
+  // Located leads for the map view, newest first
+  app.get('/api/leads/map', authorize("leads:read"), async (req: any, res) => {
     try {
-      const leads = await storage.getCampaignLeads(req.params.id);
+      const userId = req.user.claims.sub;
+      const query = leadQuerySchema.omit({ cursor: true, limit: true, sort: true }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid lead query", errors: query.error.flatten().fieldErrors });
+      }
+      const data = await storage.getLeadMapData(userId, query.data, LEAD_MAP_LIMIT);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching lead map:", error);
+      res.status(500).json({ message: "Failed to fetch lead map" });
+    }
+  });
+
+  app.get('/api/leads/facets', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const facets = await storage.getLeadFacets(userId);
+      res.json(facets);
+    } catch (error) {
+      console.error("Error fetching lead facets:", error);
+      res.status(500).json({ message: "Failed to fetch lead facets" });
+    }
+  });
+
+  // Exports the filtered lead set and keeps a copy in the user's files. The
+  // copy and the activity it records are writes, so reading isn't enough.
+  app.get('/api/leads/export', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = leadExportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid export query", errors: query.error.flatten().fieldErrors });
+      }
+
+      const { format, includeMetadata, compress, ...filters } = query.data;
+      const { file, count } = await saveLeadExport(userId, filters, { format, includeMetadata, compress });
+
+      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
+      res.setHeader('X-File-Id', file.id);
+      res.setHeader('X-Lead-Count', String(count));
+      res.type(file.fileType);
+      res.sendFile(path.join(process.cwd(), file.filePath));
+    } catch (error) {
+      if (error instanceof LeadQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error exporting leads:", error);
+      res.status(500).json({ message: "Failed to export leads" });
+    }
+  });
+
+  app.get('/api/leads/:id', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const lead = await storage.getUserLead(userId, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(lead);
+    } catch (error) {
+      console.error("Error fetching lead:", error);
+      res.status(500).json({ message: "Failed to fetch lead" });
+    }
+  });
+
+  app.get('/api/leads/:id/activities', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const lead = await storage.getUserLead(userId, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const activities = await storage.getLeadActivities(userId, lead.id);
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching lead activities:", error);
+      res.status(500).json({ message: "Failed to fetch lead activities" });
+    }
+  });
+
+  app.post('/api/leads/:id/notes', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = createLeadNoteSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid note", errors: body.error.flatten().fieldErrors });
+      }
+      const lead = await storage.getUserLead(userId, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      await storage.createLeadActivities([{ leadId: lead.id, userId, type: "note_added", details: { note: body.data.note } }]);
+      res.status(201).json({ message: "Note added" });
+    } catch (error) {
+      console.error("Error adding lead note:", error);
+      res.status(500).json({ message: "Failed to add note" });
+    }
+  });
+
+  // Replaces the lead's tags; unknown names become new tags
+  app.put('/api/leads/:id/tags', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = setLeadTagsSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid tags", errors: body.error.flatten().fieldErrors });
+      }
+      const lead = await storage.getUserLead(userId, req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const tags = await storage.setLeadTags(userId, lead.id, uniqueTagNames(body.data.tags));
+      await recordLeadActivities(describeTagChange(userId, lead.id, lead.tags, tags));
+      emitWebhookEvent(userId, "lead.updated", { lead: { ...lead, tags } });
+      res.json(tags);
+    } catch (error) {
+      console.error("Error updating lead tags:", error);
+      res.status(500).json({ message: "Failed to update tags" });
+    }
+  });
+
+  // Runs one action on the ticked leads, or on every lead matching the filters
+  app.post('/api/leads/bulk', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = bulkLeadRequestSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid bulk action", errors: body.error.flatten().fieldErrors });
+      }
+
+      const { leadIds, filter, action } = body.data;
+      if (action.type === "set_stage") {
+        const stages = await storage.getPipelineStages(userId);
+        if (!stages.some((stage) => stage.key === action.stage)) {
+          return res.status(400).json({ message: "Unknown pipeline stage" });
+        }
+      }
+      if (action.type === "move_campaign" && !(await storage.getUserCampaign(userId, action.campaignId))) {
+        return res.status(400).json({ message: "Campaign not found" });
+      }
+      if (action.type === "add_tags" || action.type === "remove_tags") {
+        action.tags = uniqueTagNames(action.tags);
+      }
+
+      const ids = leadIds ?? await storage.getFilteredLeadIds(userId, filter!, bulkLeadLimit + 1);
+      if (ids.length > bulkLeadLimit) {
+        return res.status(400).json({
+          message: `The filters match more than ${bulkLeadLimit} leads. Narrow them down and try again.`,
+        });
+      }
+      const result = await runBulkLeadAction(userId, ids, action);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof LeadQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error running bulk lead action:", error);
+      res.status(500).json({ message: "Failed to update leads" });
+    }
+  });
+
+  app.get('/api/campaigns/:id/leads', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const campaign = await storage.getUserCampaign(userId, req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const leads = await storage.getCampaignLeads(userId, campaign.id);
       res.json(leads);
     } catch (error) {
       console.error("Error fetching campaign leads:", error);
@@ -170,9 +865,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/leads/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/leads/:id', authorize("leads:write"), async (req: any, res) => {
     try {
-      const lead = await storage.updateLead(req.params.id, req.body);
+      const userId = req.user.claims.sub;
+      const updates = updateLeadSchema.parse(req.body);
+      if (updates.contactStatus !== undefined) {
+        const stages = await storage.getPipelineStages(userId);
+        if (!stages.some((stage) => stage.key === updates.contactStatus)) {
+          return res.status(400).json({ message: "Unknown pipeline stage" });
+        }
+      }
+      const before = await storage.getUserLead(userId, req.params.id);
+      const lead = before && await storage.updateUserLead(userId, before.id, updates);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      await recordLeadActivities(describeLeadUpdate(userId, before, lead, Object.keys(updates)));
+      emitWebhookEvent(userId, "lead.updated", { lead });
+      // Earlier results no longer describe the edited contact details
+      if (VALIDATED_LEAD_COLUMNS.some((field) => field in updates)) {
+        await autoValidateLeads(userId, [lead.id]);
+      }
+      if (GEOCODED_LEAD_COLUMNS.some((field) => field in updates)) {
+        await queueLeadGeocoding(userId, [lead.id]);
+      }
+      await scoreLeads(userId, [lead.id]);
       res.json(lead);
     } catch (error) {
       console.error("Error updating lead:", error);
@@ -180,8 +897,333 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/leads/validate', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = validateLeadsSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid validation request", errors: body.error.flatten().fieldErrors });
+      }
+
+      const { leadIds, onlyPending } = body.data;
+      const ids = leadIds
+        ? (await storage.getUserLeadsByIds(userId, leadIds))
+            .filter((lead) => !onlyPending || !lead.isValidated)
+            .map((lead) => lead.id)
+        : await storage.getUserLeadIds(userId, { onlyPending });
+      const queued = await queueLeadValidation(userId, ids);
+      res.status(202).json({ queued });
+    } catch (error) {
+      console.error("Error queueing lead validation:", error);
+      res.status(500).json({ message: "Failed to start validation" });
+    }
+  });
+
+  // Crawls lead websites for missing contact details in the background
+  app.post('/api/leads/enrich', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = enrichLeadsSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid enrichment request", errors: body.error.flatten().fieldErrors });
+      }
+
+      const { leadIds } = body.data;
+      const ids = leadIds
+        ? (await storage.getUserLeadsByIds(userId, leadIds)).filter((lead) => lead.website).map((lead) => lead.id)
+        : await storage.getUserLeadIds(userId, { needsEnrichment: true });
+      const queued = await queueLeadEnrichment(userId, ids);
+      res.status(202).json({ queued });
+    } catch (error) {
+      console.error("Error queueing lead enrichment:", error);
+      res.status(500).json({ message: "Failed to start enrichment" });
+    }
+  });
+
+  // Locates leads and measures their distance from the campaign centre
+  app.post('/api/leads/geocode', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = geocodeLeadsSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid geocoding request", errors: body.error.flatten().fieldErrors });
+      }
+
+      const { leadIds } = body.data;
+      const ids = leadIds
+        ? (await storage.getUserLeadsByIds(userId, leadIds)).map((lead) => lead.id)
+        : await storage.getUserLeadIds(userId, { notGeocoded: true });
+      const queued = await queueLeadGeocoding(userId, ids);
+      res.status(202).json({ queued });
+    } catch (error) {
+      console.error("Error queueing lead geocoding:", error);
+      res.status(500).json({ message: "Failed to start geocoding" });
+    }
+  });
+
+  app.post('/api/leads/dedup', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await deduplicateUserLeads(userId);
+      res.json(result);
+    } catch (error) {
+      console.error("Error deduplicating leads:", error);
+      res.status(500).json({ message: "Failed to deduplicate leads" });
+    }
+  });
+
+  app.get('/api/leads/:id/duplicates', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getLeadDuplicateGroup(userId, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(group);
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+      res.status(500).json({ message: "Failed to fetch duplicates" });
+    }
+  });
+
+  // Folds duplicates into the canonical lead, taking each field from the
+  // lead chosen in `values`, and deletes the duplicates
+  app.post('/api/leads/:id/merge', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = leadMergeSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid merge request", errors: body.error.flatten().fieldErrors });
+      }
+
+      const group = await storage.getLeadDuplicateGroup(userId, req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (group.canonical.id !== req.params.id) {
+        return res.status(400).json({ message: "Duplicates can only be merged into their canonical lead" });
+      }
+
+      const { duplicateIds, values } = body.data;
+      const sources = new Map([group.canonical, ...group.duplicates].map((lead) => [lead.id, lead]));
+      if (duplicateIds.some((id) => id === group.canonical.id || !sources.has(id))) {
+        return res.status(400).json({ message: "Only duplicates of this lead can be merged" });
+      }
+
+      const updates: Partial<Lead> = {};
+      for (const [field, sourceId] of Object.entries(values)) {
+        if (sourceId !== group.canonical.id && !duplicateIds.includes(sourceId)) {
+          return res.status(400).json({ message: `Value for ${field} must come from a merged lead` });
+        }
+        Object.assign(updates, { [field]: sources.get(sourceId)![field as LeadMergeField] });
+      }
+
+      const lead = await storage.mergeLeads(userId, group.canonical.id, duplicateIds, updates);
+      await recordLeadActivities([{
+        leadId: lead.id,
+        userId,
+        type: "merged",
+        details: {
+          duplicates: duplicateIds.map((id) => ({ id, businessName: sources.get(id)!.businessName })),
+        },
+      }]);
+      if (GEOCODED_LEAD_COLUMNS.some((field) => field in updates)) {
+        await queueLeadGeocoding(userId, [lead.id]);
+      }
+      await scoreLeads(userId, [lead.id]);
+      emitWebhookEvent(userId, "lead.updated", { lead });
+      res.json(lead);
+    } catch (error) {
+      console.error("Error merging leads:", error);
+      res.status(500).json({ message: "Failed to merge leads" });
+    }
+  });
+
+  // Tag routes
+  app.get('/api/tags', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const tags = await storage.getUserTags(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.post('/api/tags', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = createTagSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid tag", errors: body.error.flatten().fieldErrors });
+      }
+      if (await storage.getUserTagByName(userId, body.data.name)) {
+        return res.status(409).json({ message: `A tag named "${body.data.name}" already exists` });
+      }
+      const tag = await storage.createTag(userId, body.data);
+      res.status(201).json(tag);
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      res.status(500).json({ message: "Failed to create tag" });
+    }
+  });
+
+  // Renames or recolours a tag
+  app.patch('/api/tags/:id', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = updateTagSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid tag", errors: body.error.flatten().fieldErrors });
+      }
+      if (body.data.name) {
+        const existing = await storage.getUserTagByName(userId, body.data.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `A tag named "${body.data.name}" already exists. Merge the tags instead.` });
+        }
+      }
+      const tag = await storage.updateUserTag(userId, req.params.id, body.data);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      res.status(500).json({ message: "Failed to update tag" });
+    }
+  });
+
+  // Moves the leads of the listed tags onto this tag and deletes those tags
+  app.post('/api/tags/:id/merge', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = mergeTagsSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid merge request", errors: body.error.flatten().fieldErrors });
+      }
+      const target = await storage.getUserTag(userId, req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      const tags = await storage.getUserTags(userId);
+      if (body.data.tagIds.some((id) => id === target.id || !tags.some((tag) => tag.id === id))) {
+        return res.status(400).json({ message: "Only your other tags can be merged into this tag" });
+      }
+      await storage.mergeUserTags(userId, target.id, body.data.tagIds);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error merging tags:", error);
+      res.status(500).json({ message: "Failed to merge tags" });
+    }
+  });
+
+  app.delete('/api/tags/:id', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteUserTag(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Saved view routes
+  app.get('/api/views', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const views = await storage.getUserSavedViews(userId);
+      res.json(views);
+    } catch (error) {
+      console.error("Error fetching saved views:", error);
+      res.status(500).json({ message: "Failed to fetch saved views" });
+    }
+  });
+
+  // The Dashboard's pinned views with the number of leads each matches now
+  app.get('/api/views/pinned', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const views = (await storage.getUserSavedViews(userId)).filter((view) => view.pinned);
+      const counted = await Promise.all(views.map(async (view) => {
+        const { sort: _sort, ...filters } = parseSavedViewQuery(view.query);
+        return { ...view, count: await storage.countUserLeads(userId, filters) };
+      }));
+      res.json(counted);
+    } catch (error) {
+      console.error("Error fetching pinned views:", error);
+      res.status(500).json({ message: "Failed to fetch pinned views" });
+    }
+  });
+
+  // Opens the user's own view or a view someone shared by link
+  app.get('/api/views/:id', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const view = await storage.getViewableSavedView(userId, req.params.id);
+      if (!view) {
+        return res.status(404).json({ message: "View not found" });
+      }
+      res.json(view.userId === userId ? view : { ...view, query: withoutOwnerFilters(view.query) });
+    } catch (error) {
+      console.error("Error fetching saved view:", error);
+      res.status(500).json({ message: "Failed to fetch saved view" });
+    }
+  });
+
+  app.post('/api/views', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = createSavedViewSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid view", errors: body.error.flatten().fieldErrors });
+      }
+      const view = await storage.createSavedView(userId, body.data);
+      res.status(201).json(view);
+    } catch (error) {
+      console.error("Error creating saved view:", error);
+      res.status(500).json({ message: "Failed to save view" });
+    }
+  });
+
+  app.patch('/api/views/:id', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = updateSavedViewSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid view", errors: body.error.flatten().fieldErrors });
+      }
+      const view = await storage.updateUserSavedView(userId, req.params.id, body.data);
+      if (!view) {
+        return res.status(404).json({ message: "View not found" });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error("Error updating saved view:", error);
+      res.status(500).json({ message: "Failed to update view" });
+    }
+  });
+
+  app.delete('/api/views/:id', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteUserSavedView(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "View not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting saved view:", error);
+      res.status(500).json({ message: "Failed to delete view" });
+    }
+  });
+
   // Stats route
-  app.get('/api/stats', isAuthenticated, async (req: any, res) => {
+  app.get('/api/stats', authorize("leads:read"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const stats = await storage.getLeadStats(userId);
@@ -193,7 +1235,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload routes
-  app.post('/api/files/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/files/upload', authorize("leads:write"), upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -215,7 +1257,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/files', isAuthenticated, async (req: any, res) => {
+  app.get('/api/files', authorize("leads:read"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const files = await storage.getUserFiles(userId);
@@ -226,9 +1268,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/files/:id/download', isAuthenticated, async (req: any, res) => {
+  app.get('/api/files/:id/preview', authorize("leads:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const file = await storage.getUserFile(userId, req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const sheet = await readSpreadsheet(file);
+      res.json(previewSpreadsheet(sheet));
+    } catch (error) {
+      if (error instanceof LeadImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing file:", error);
+      res.status(500).json({ message: "Failed to preview file" });
+    }
+  });
+
+  // Imports every valid row into the chosen (or a new) campaign and reports
+  // the rows that failed validation
+  app.post('/api/files/:id/import', authorize("leads:write"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const body = leadImportSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid import request", errors: body.error.flatten().fieldErrors });
+      }
+
+      const file = await storage.getUserFile(userId, req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const { mapping, campaignId, newCampaign } = body.data;
+      if (campaignId && !(await storage.getUserCampaign(userId, campaignId))) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const sheet = await readSpreadsheet(file);
+      const { leads: rows, errors } = mapSheetToLeads(sheet, mapping);
+      const stages = await storage.getPipelineStages(userId);
+      const leads = rows.map((lead) => ({ ...lead, contactStatus: resolveStageKey(stages, lead.contactStatus) }));
+
+      let targetCampaignId = campaignId ?? null;
+      if (newCampaign && leads.length > 0) {
+        const campaign = await storage.createCampaign(userId, {
+          ...newCampaign,
+          radius: 25,
+          scrapingMode: "standard",
+          status: "completed",
+        });
+        targetCampaignId = campaign.id;
+      }
+
+      const importedIds = targetCampaignId ? await storage.importLeads(targetCampaignId, leads) : [];
+      if (importedIds.length > 0) {
+        await deduplicateUserLeads(userId).catch((error) => {
+          console.error("Error deduplicating imported leads:", error);
+        });
+        emitWebhookEvent(userId, "lead.created", {
+          campaignId: targetCampaignId,
+          leads: await storage.getUserLeadsByIds(userId, importedIds),
+        });
+        await scoreLeads(userId, importedIds);
+        await queueLeadGeocoding(userId, importedIds);
+        await autoValidateLeads(userId, importedIds);
+      }
+      res.json({ campaignId: targetCampaignId, imported: importedIds.length, failed: errors.length, errors });
+    } catch (error) {
+      if (error instanceof LeadImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing leads:", error);
+      res.status(500).json({ message: "Failed to import leads" });
+    }
+  });
+
+  app.get('/api/files/:id/download', authorize("leads:read"), async (req: any, res) => {
     try {
-      const file = await storage.getFile(req.params.id);
+      const userId = req.user.claims.sub;
+      const file = await storage.getUserFile(userId, req.params.id);
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
@@ -248,61 +1369,3 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   return httpServer;
 }
-
-// Simulate scraping process with real-time updates
-async function simulateScraping(campaignId: string, userId: string, broadcastToUser: Function) {
-  const totalPages = 10;
-  let currentPage = 0;
-  let leadsFound = 0;
-
-  const interval = setInterval(async () => {
-    currentPage++;
-    leadsFound += Math.floor(Math.random() * 5) + 1;
-    
-    const progress = Math.round((currentPage / totalPages) * 100);
-    
-    // Update campaign progress
-    await storage.updateCampaign(campaignId, {
-      progress,
-      totalPages: currentPage,
-      leadsFound,
-    });
-
-    // Generate sample leads
-    for (let i = 0; i < 2; i++) {
-      await storage.createLead({
-        campaignId,
-        businessName: `Business ${leadsFound + i}`,
-        category: 'Sample Category',
-        city: 'Sample City',
-        state: 'SC',
-        isValidated: Math.random() > 0.3,
-      });
-    }
-
-    // Broadcast progress update
-    broadcastToUser(userId, {
-      type: 'scraping_progress',
-      campaignId,
-      progress,
-      currentPage,
-      totalPages,
-      leadsFound,
-    });
-
-    if (currentPage >= totalPages) {
-      clearInterval(interval);
-      
-      // Mark campaign as completed
-      await storage.updateCampaign(campaignId, {
-        status: 'completed',
-        progress: 100,
-      });
-
-      broadcastToUser(userId, {
-        type: 'scraping_completed',
-        campaignId,
-      });
-    }
-  }, 2000);
-}
@@ -0,0 +1,133 @@
+import type { Campaign, Job, Lead, LeadScoreBreakdown, ScoreComponent, ScoringRuleKey, ScoringRules } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobQueue";
+import type { BroadcastFn } from "./campaignRunner";
+import { escapeRegex } from "./leadQuery";
+
+export const LEAD_SCORING_JOB = "lead_scoring";
+
+const RESCORE_BATCH_SIZE = 500;
+
+type RuleResult = { value: number; detail: string };
+
+const includesIgnoringCase = (a: string, b: string) => {
+  const [x, y] = [a.trim().toLowerCase(), b.trim().toLowerCase()];
+  return !!x && !!y && (x.includes(y) || y.includes(x));
+};
+
+// Each rule rates a lead between 0 and 1
+const RULES: Record<ScoringRuleKey, (lead: Lead, campaign: Campaign | undefined, rules: ScoringRules) => RuleResult> = {
+  hasEmail: (lead) =>
+    lead.email?.trim() ? { value: 1, detail: "Has an email address" } : { value: 0, detail: "No email address" },
+
+  hasWebsite: (lead) =>
+    lead.website?.trim() ? { value: 1, detail: "Has a website" } : { value: 0, detail: "No website" },
+
+  rating: (lead) => {
+    const rating = parseFloat(lead.rating ?? "");
+    return Number.isNaN(rating)
+      ? { value: 0, detail: "No rating" }
+      : { value: Math.min(1, Math.max(0, rating / 5)), detail: `Rated ${rating.toFixed(1)} of 5` };
+  },
+
+  // Logarithmic, so the first reviews count for more than the hundredth
+  reviewCount: (lead, _campaign, rules) => {
+    const reviews = lead.reviewCount ?? 0;
+    const value = Math.min(1, Math.log1p(reviews) / Math.log1p(rules.reviewCount.target));
+    return { value, detail: `${reviews} of ${rules.reviewCount.target} reviews for full marks` };
+  },
+
+  validation: (lead) => {
+    if (lead.isValidated) return { value: 1, detail: "Contact details validated" };
+    return { value: 0, detail: lead.validatedAt ? "Failed validation" : "Not validated yet" };
+  },
+
+  categoryMatch: (lead, campaign, rules) => {
+    const targets = rules.categoryMatch.categories.length > 0
+      ? rules.categoryMatch.categories
+      : campaign ? [campaign.businessCategory] : [];
+    if (!lead.category) return { value: 0, detail: "No category" };
+    const match = targets.find((target) => includesIgnoringCase(lead.category!, target));
+    return match
+      ? { value: 1, detail: `Category matches "${match}"` }
+      : { value: 0, detail: `Category "${lead.category}" doesn't match` };
+  },
+
+  // Full marks at the campaign centre, half at the edge of its radius and
+  // none beyond. Leads that couldn't be geocoded fall back to matching
+  // their city or state against the campaign's location.
+  distance: (lead, campaign) => {
+    if (lead.distanceMiles !== null && campaign) {
+      const detail = `${lead.distanceMiles} mi from the campaign centre (radius ${campaign.radius} mi)`;
+      return lead.distanceMiles > campaign.radius
+        ? { value: 0, detail }
+        : { value: 1 - lead.distanceMiles / (2 * Math.max(campaign.radius, 1)), detail };
+    }
+    const location = campaign?.location ?? "";
+    if (!lead.city && !lead.state) return { value: 0, detail: "Location unknown" };
+    if (lead.city && includesIgnoringCase(location, lead.city)) {
+      return { value: 1, detail: `In ${lead.city}, the campaign's city` };
+    }
+    if (lead.state && new RegExp(`\\b${escapeRegex(lead.state.trim())}\\b`, "i").test(location)) {
+      return { value: 0.5, detail: `In ${lead.state}, the campaign's state` };
+    }
+    return { value: 0, detail: "Outside the campaign area" };
+  },
+};
+
+// Weighted average of the enabled rules, scaled to 0-100
+export function scoreLead(
+  lead: Lead,
+  campaign: Campaign | undefined,
+  rules: ScoringRules,
+): { score: number; scoreBreakdown: LeadScoreBreakdown } {
+  const active = (Object.keys(RULES) as ScoringRuleKey[]).filter((key) => rules[key].enabled && rules[key].weight > 0);
+  const totalWeight = active.reduce((total, key) => total + rules[key].weight, 0);
+  if (totalWeight === 0) {
+    return { score: 0, scoreBreakdown: [] };
+  }
+
+  const scoreBreakdown: ScoreComponent[] = active.map((rule) => {
+    const { value, detail } = RULES[rule](lead, campaign, rules);
+    const weight = rules[rule].weight;
+    return { rule, weight, value, points: Math.round((1000 * weight * value) / totalWeight) / 10, detail };
+  });
+  const score = Math.round(scoreBreakdown.reduce((total, { weight, value }) => total + weight * value, 0) * 100 / totalWeight);
+  return { score, scoreBreakdown };
+}
+
+// Recomputes the scores of the given leads. Never throws, so a scoring
+// problem can't fail the change that triggered it.
+export async function scoreLeads(userId: string, leadIds: string[]): Promise<void> {
+  if (leadIds.length === 0) return;
+  try {
+    const [rules, campaigns, leads] = await Promise.all([
+      storage.getScoringRules(userId),
+      storage.getUserCampaigns(userId),
+      storage.getUserLeadsByIds(userId, leadIds),
+    ]);
+    const campaignsById = new Map(campaigns.map((campaign) => [campaign.id, campaign]));
+    await storage.saveLeadScores(
+      leads.map((lead) => ({ id: lead.id, ...scoreLead(lead, campaignsById.get(lead.campaignId), rules) })),
+    );
+  } catch (error) {
+    console.error("Error scoring leads:", error);
+  }
+}
+
+// Rescoring everything runs in the background after the rules change
+export async function queueRescore(userId: string): Promise<void> {
+  await storage.enqueueJob({ type: LEAD_SCORING_JOB, userId });
+}
+
+export function createLeadScoringJobHandler(broadcastToUser: BroadcastFn): JobHandler {
+  return {
+    async run(job: Job) {
+      const ids = await storage.getUserLeadIds(job.userId);
+      for (let i = 0; i < ids.length; i += RESCORE_BATCH_SIZE) {
+        await scoreLeads(job.userId, ids.slice(i, i + RESCORE_BATCH_SIZE));
+      }
+      broadcastToUser(job.userId, { type: 'leads_scored', count: ids.length });
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { ScraperProvider } from "./types";
+
+// Generates placeholder listings without touching the network. Useful for
+// exercising the campaign pipeline locally.
+export const debugProvider: ScraperProvider = {
+  name: "debug",
+  label: "Debug (simulated data)",
+
+  async fetchPage(campaign, page, { mode, throttle, log }) {
+    const totalPages = 10;
+    await throttle();
+
+    const count = Math.floor(Math.random() * 5) + 1;
+    const leads = Array.from({ length: count }, (_, i) => {
+      const number = (page - 1) * 5 + i + 1;
+      return {
+        businessName: `Business ${number}`,
+        category: campaign.businessCategory || "Sample Category",
+        city: "Sample City",
+        state: "SC",
+        // Detail pages are where contact info would come from
+        ...(mode.fetchDetails && {
+          phone: `(555) 010-${String(number).padStart(4, "0")}`,
+          website: `https://business-${number}.example.com`,
+        }),
+      };
+    });
+    log(`generated ${count} simulated leads for page ${page}`);
+
+    return { leads, hasMore: page < totalPages };
+  },
+};
@@ -0,0 +1,103 @@
+// Minimal HTML helpers for reading schema.org microdata out of listing pages.
+// These deliberately avoid a full DOM parser: directory pages are expected to
+// mark each listing up as an itemscope with itemprop children.
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+export function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? "");
+}
+
+// Returns the inner HTML of the element whose start tag begins at `start`,
+// honouring nested elements with the same tag name.
+function innerHtmlAt(html: string, start: number, tagName: string): { inner: string; end: number } {
+  const openEnd = html.indexOf(">", start);
+  if (openEnd === -1) return { inner: "", end: html.length };
+  if (html[openEnd - 1] === "/") return { inner: "", end: openEnd + 1 };
+
+  const tagPattern = new RegExp(`<(/?)${tagName}\\b[^>]*>`, "gi");
+  tagPattern.lastIndex = openEnd + 1;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      return { inner: html.slice(openEnd + 1, match.index), end: match.index + match[0].length };
+    }
+  }
+  return { inner: html.slice(openEnd + 1), end: html.length };
+}
+
+// Finds every element carrying an itemtype that matches `typePattern` and
+// returns its inner HTML.
+export function findItemScopes(html: string, typePattern: RegExp): string[] {
+  const scopes: string[] = [];
+  const startTag = /<([a-z][a-z0-9]*)\b[^>]*\sitemscope\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = startTag.exec(html))) {
+    const itemType = getAttribute(match[0], "itemtype");
+    if (!itemType || !typePattern.test(itemType)) continue;
+    const { inner, end } = innerHtmlAt(html, match.index, match[1]);
+    scopes.push(inner);
+    startTag.lastIndex = end;
+  }
+  return scopes;
+}
+
+// Collects itemprop values within a block. Nested scopes are flattened, so
+// e.g. address.streetAddress is reported as "streetAddress". The first
+// occurrence of each property wins.
+export function readItemProps(html: string): Record<string, string> {
+  const props: Record<string, string> = {};
+  const propTag = /<([a-z][a-z0-9]*)\b[^>]*\sitemprop\s*=\s*["']?([^"'\s>]+)[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = propTag.exec(html))) {
+    const [tag, tagName, prop] = match;
+    if (prop in props) continue;
+
+    const content = getAttribute(tag, "content");
+    if (content !== undefined) {
+      props[prop] = content.trim();
+      continue;
+    }
+    if (/\sitemscope\b/i.test(tag)) continue;
+
+    const href = getAttribute(tag, "href");
+    if (href !== undefined && tagName.toLowerCase() === "a" && /^(url|email|telephone|sameAs|mainEntityOfPage)$/.test(prop)) {
+      props[prop] = href.replace(/^(mailto|tel):/i, "").trim();
+      continue;
+    }
+
+    props[prop] = stripTags(innerHtmlAt(html, match.index, tagName).inner);
+  }
+  return props;
+}
+
+export function hasNextLink(html: string): boolean {
+  return /<(a|link)\b[^>]*\srel\s*=\s*["']?next\b/i.test(html);
+}
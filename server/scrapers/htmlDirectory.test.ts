@@ -0,0 +1,133 @@
+import { createServer, type Server } from "http";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Campaign } from "@shared/schema";
+import { HtmlDirectoryProvider, parseListings } from "./htmlDirectory";
+import { getScrapingMode, type ScrapeContext } from "./index";
+
+const DIRECTORY_DIR = path.resolve(import.meta.dirname, "fixtures", "directory");
+
+let server: Server;
+let baseUrl: string;
+let requested: string[];
+
+// Serves /search?page=N from search-N.html and every other path from the file it names
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://fixture");
+    requested.push(`${url.pathname}${url.search}`);
+    const file = url.pathname === "/search"
+      ? path.join(DIRECTORY_DIR, `search-${url.searchParams.get("page")}.html`)
+      : path.join(DIRECTORY_DIR, url.pathname);
+    try {
+      const body = await readFile(file);
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(body);
+    } catch {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requested = [];
+});
+
+const campaign = {
+  id: "campaign-1",
+  businessCategory: "Bakery",
+  location: "Austin, TX",
+  radius: 10,
+} as Campaign;
+
+function context(mode: string): ScrapeContext {
+  return { mode: getScrapingMode(mode), throttle: async () => {}, log: () => {} };
+}
+
+describe("HtmlDirectoryProvider against the fixture directory", () => {
+  it("requests the campaign's search page and parses its listings", async () => {
+    const provider = new HtmlDirectoryProvider({ baseUrl });
+    const result = await provider.fetchPage(campaign, 1, context("fast"));
+
+    expect(requested).toEqual(["/search?category=Bakery&location=Austin%2C+TX&radius=10&page=1"]);
+    expect(result.hasMore).toBe(true);
+    expect(result.leads).toEqual([
+      {
+        businessName: "Harbor Street Bakery",
+        category: "Bakery",
+        phone: "+15125550123",
+        email: null,
+        website: null,
+        address: "12 Harbor St",
+        city: "Austin",
+        state: "TX",
+        zipCode: "78701",
+        rating: "4.7",
+        reviewCount: 212,
+      },
+      expect.objectContaining({ businessName: "Crumbs & Co.", category: "Café", website: "https://crumbs.example/" }),
+    ]);
+  });
+
+  it("stops at the last page", async () => {
+    const provider = new HtmlDirectoryProvider({ baseUrl });
+    const result = await provider.fetchPage(campaign, 2, context("fast"));
+    expect(result.hasMore).toBe(false);
+    expect(result.leads.map((lead) => lead.email)).toEqual(["orders@sunrisekolaches.example"]);
+  });
+
+  it("fills gaps from detail pages, keeping the results page's values", async () => {
+    // The fixture directory is on loopback, which the default detail fetch refuses
+    const provider = new HtmlDirectoryProvider({ baseUrl, detailFetch: fetch });
+    const result = await provider.fetchPage(campaign, 1, context("thorough"));
+
+    expect(requested).toContain("/listings/harbor-street-bakery.html");
+    expect(result.leads[0]).toMatchObject({
+      phone: "+15125550123",
+      email: "hello@harborbakery.example",
+      website: "https://harborbakery.example/",
+    });
+  });
+
+  it("refuses detail pages on private addresses by default", async () => {
+    const logged: string[] = [];
+    const provider = new HtmlDirectoryProvider({ baseUrl });
+    const result = await provider.fetchPage(campaign, 1, { ...context("thorough"), log: (line) => logged.push(line) });
+
+    expect(requested).not.toContain("/listings/harbor-street-bakery.html");
+    expect(logged.some((line) => /private address/.test(line))).toBe(true);
+    expect(result.leads[0]).toMatchObject({ phone: "+15125550123", email: null });
+  });
+
+  it("fails the page when the directory doesn't answer in time", async () => {
+    const provider = new HtmlDirectoryProvider({
+      baseUrl,
+      timeoutMs: 50,
+      fetch: (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        }),
+    });
+    await expect(provider.fetchPage(campaign, 1, context("fast"))).rejects.toThrow(/timed out|aborted/i);
+  });
+});
+
+describe("parseListings", () => {
+  it("skips listings without a name and falls back to the given category", () => {
+    const html = `
+      <div itemscope itemtype="https://schema.org/LocalBusiness"><span itemprop="telephone">555</span></div>
+      <div itemscope itemtype="https://schema.org/Store"><span itemprop="name">Corner Shop</span></div>`;
+    expect(parseListings(html, "Grocery")).toEqual([
+      expect.objectContaining({ businessName: "Corner Shop", category: "Grocery", phone: null }),
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { Campaign } from "@shared/schema";
+import type { ScrapeContext, ScrapedLead, ScrapePageResult, ScraperProvider } from "./types";
+import { publicFetch } from "../publicFetch";
+import { findItemScopes, hasNextLink, readItemProps } from "./html";
+
+export interface HtmlDirectoryOptions {
+  baseUrl?: string;
+  // Results pages, from the configured directory
+  fetch?: typeof fetch;
+  // Detail pages, whose URLs come from the scraped listings
+  detailFetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+const LISTING_TYPE = /schema\.org\/(LocalBusiness|Organization|[A-Za-z]*(Business|Store|Restaurant|Service))\b/;
+
+// Scrapes business directories that render search results as schema.org
+// microdata. Page N of a campaign is requested as
+// `<baseUrl>/search?category=..&location=..&radius=..&page=N`. Listings may
+// link their own detail page through itemprop="mainEntityOfPage".
+export class HtmlDirectoryProvider implements ScraperProvider {
+  name = "html_directory";
+  label = "HTML Business Directory";
+
+  private baseUrl?: string;
+  private fetchImpl: typeof fetch;
+  private detailFetchImpl: typeof fetch;
+  private timeoutMs: number;
+
+  constructor(options: HtmlDirectoryOptions = {}) {
+    this.baseUrl = options.baseUrl;
+    this.fetchImpl = options.fetch ?? fetch;
+    this.detailFetchImpl = options.detailFetch ?? publicFetch;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  pageUrl(campaign: Campaign, page: number): string {
+    if (!this.baseUrl) {
+      throw new Error("HTML directory provider has no base URL configured (set DIRECTORY_BASE_URL)");
+    }
+    const url = new URL("search", this.baseUrl.endsWith("/") ? this.baseUrl : `${this.baseUrl}/`);
+    url.searchParams.set("category", campaign.businessCategory);
+    url.searchParams.set("location", campaign.location);
+    url.searchParams.set("radius", String(campaign.radius));
+    url.searchParams.set("page", String(page));
+    return url.toString();
+  }
+
+  async fetchPage(campaign: Campaign, page: number, context: ScrapeContext): Promise<ScrapePageResult> {
+    const url = this.pageUrl(campaign, page);
+    const html = await this.fetchHtml(this.fetchImpl, url, context);
+    const listings = parseListingProps(html);
+    context.log(`parsed ${listings.length} listings from ${url}`);
+
+    const leads: ScrapedLead[] = [];
+    for (const props of listings) {
+      const detailUrl = props.mainEntityOfPage;
+      if (context.mode.fetchDetails && detailUrl) {
+        try {
+          const detailHtml = await this.fetchHtml(this.detailFetchImpl, new URL(detailUrl, url).toString(), context);
+          const [detail] = parseListingProps(detailHtml);
+          // Results-page values win; the detail page only fills the gaps
+          leads.push(toLead({ ...detail, ...withoutEmpty(props) }, campaign.businessCategory));
+          continue;
+        } catch (error) {
+          context.log(`detail page ${detailUrl} failed: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      leads.push(toLead(props, campaign.businessCategory));
+    }
+
+    return { leads, hasMore: hasNextLink(html) };
+  }
+
+  private async fetchHtml(fetchImpl: typeof fetch, url: string, { throttle, log }: ScrapeContext): Promise<string> {
+    await throttle();
+    log(`GET ${url}`);
+    const response = await fetchImpl(url, {
+      headers: { Accept: "text/html" },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Directory request failed: ${response.status} ${response.statusText} (${url})`);
+    }
+    return await response.text();
+  }
+}
+
+function withoutEmpty(props: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(props).filter(([, value]) => value));
+}
+
+function parseListingProps(html: string): Record<string, string>[] {
+  return findItemScopes(html, LISTING_TYPE)
+    .map((block) => readItemProps(block))
+    .filter((props) => props.name);
+}
+
+export function parseListings(html: string, fallbackCategory?: string): ScrapedLead[] {
+  return parseListingProps(html).map((props) => toLead(props, fallbackCategory));
+}
+
+function toLead(props: Record<string, string>, fallbackCategory?: string): ScrapedLead {
+  const rating = parseFloat(props.ratingValue);
+  const reviewCount = parseInt(props.reviewCount ?? props.ratingCount, 10);
+  return {
+    businessName: props.name,
+    category: props.category || fallbackCategory || null,
+    phone: props.telephone || null,
+    email: props.email || null,
+    website: props.url || null,
+    address: props.streetAddress || null,
+    city: props.addressLocality || null,
+    state: props.addressRegion || null,
+    zipCode: props.postalCode || null,
+    rating: Number.isNaN(rating) ? null : rating.toFixed(1),
+    reviewCount: Number.isNaN(reviewCount) ? null : reviewCount,
+  };
+}
@@ -0,0 +1,24 @@
+import type { ScraperProvider } from "./types";
+import { debugProvider } from "./debug";
+import { HtmlDirectoryProvider } from "./htmlDirectory";
+
+export type { ScrapeContext, ScrapedLead, ScrapePageResult, ScraperProvider } from "./types";
+export { getScrapingMode } from "./modes";
+export { createThrottle } from "./throttle";
+
+const providers = new Map<string, ScraperProvider>();
+
+export function registerScraper(provider: ScraperProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getScraper(name: string): ScraperProvider | undefined {
+  return providers.get(name);
+}
+
+export function listScrapers() {
+  return Array.from(providers.values()).map(({ name, label }) => ({ name, label }));
+}
+
+registerScraper(new HtmlDirectoryProvider({ baseUrl: process.env.DIRECTORY_BASE_URL }));
+registerScraper(debugProvider);
@@ -0,0 +1,21 @@
+// Behaviour behind each campaign scrapingMode. The campaign's own pageLimit
+// and delay still apply on top of these.
+export interface ScrapingModeProfile {
+  // Fetch each listing's detail page to fill fields missing from the results page
+  fetchDetails: boolean;
+  // Extra attempts for a failed page request before the job attempt fails
+  pageRetries: number;
+  // Log every request and parsed listing
+  verbose: boolean;
+}
+
+export const SCRAPING_MODES: Record<string, ScrapingModeProfile> = {
+  fast: { fetchDetails: false, pageRetries: 0, verbose: false },
+  standard: { fetchDetails: false, pageRetries: 1, verbose: false },
+  thorough: { fetchDetails: true, pageRetries: 3, verbose: false },
+  debug: { fetchDetails: true, pageRetries: 0, verbose: true },
+};
+
+export function getScrapingMode(mode: string): ScrapingModeProfile {
+  return SCRAPING_MODES[mode] ?? SCRAPING_MODES.standard;
+}
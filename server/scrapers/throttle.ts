@@ -0,0 +1,12 @@
+// Spaces out outbound requests so that consecutive calls are at least
+// `intervalMs` apart, however long the work in between took.
+export function createThrottle(intervalMs: number) {
+  let last = 0;
+  return async () => {
+    const wait = last + intervalMs - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    last = Date.now();
+  };
+}
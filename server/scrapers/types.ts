@@ -0,0 +1,23 @@
+import type { Campaign, InsertLead } from "@shared/schema";
+import type { ScrapingModeProfile } from "./modes";
+
+// A lead as produced by a scraper, before it is attached to a campaign
+export type ScrapedLead = Omit<InsertLead, "campaignId">;
+
+export interface ScrapePageResult {
+  leads: ScrapedLead[];
+  hasMore: boolean;
+}
+
+export interface ScrapeContext {
+  mode: ScrapingModeProfile;
+  // Must be awaited before every outbound request
+  throttle: () => Promise<void>;
+  log: (message: string) => void;
+}
+
+export interface ScraperProvider {
+  name: string;
+  label: string;
+  fetchPage(campaign: Campaign, page: number, context: ScrapeContext): Promise<ScrapePageResult>;
+}
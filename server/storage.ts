@@ -1,45 +1,360 @@
 import {
   users,
   campaigns,
+  campaignRuns,
   leads,
+  leadActivities,
+  tags,
+  leadTags,
+  savedViews,
   files,
+  jobs,
+  userSettings,
+  leadScoringRules,
+  leadPipelines,
+  apiKeys,
+  webhooks,
+  webhookDeliveries,
+  defaultUserSettings,
+  defaultScoringRules,
+  defaultPipelineStages,
   type User,
   type UpsertUser,
   type Campaign,
   type InsertCampaign,
+  type CampaignRun,
+  type CampaignRunStatus,
+  type InsertCampaignRun,
   type Lead,
+  type TaggedLead,
+  type LeadTag,
+  type Tag,
+  type TagWithCount,
+  type CreateTagRequest,
+  type UpdateTagRequest,
   type InsertLead,
+  type ImportedLead,
   type File,
   type InsertFile,
+  type Job,
+  type InsertJob,
+  type LeadQuery,
+  type UserSettings,
+  type LeadDuplicateGroup,
+  type ApiKey,
+  type ApiKeySummary,
+  type InsertApiKey,
+  type Webhook,
+  type WebhookSummary,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type LeadPage,
+  type LeadEnrichment,
+  type LeadLocation,
+  type LeadMapData,
+  type LeadMapPoint,
+  type LeadActivity,
+  type InsertLeadActivity,
+  type ScoringRules,
+  type PipelineStage,
+  type BulkLeadChange,
+  type BulkLeadFailure,
+  type SavedView,
+  type CreateSavedViewRequest,
+  type UpdateSavedViewRequest,
+  uniqueTagNames,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, count, avg } from "drizzle-orm";
+import {
+  afterCursor,
+  encodeCursor,
+  leadFilters,
+  leadOrderBy,
+  leadSortKeys,
+  sortKeyValues,
+  type LeadFilterQuery,
+  type SortKey,
+} from "./leadQuery";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  eq,
+  desc,
+  and,
+  arrayContains,
+  count,
+  avg,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  notInArray,
+  or,
+  sql,
+  getTableColumns,
+  type SQL,
+  type SQLWrapper,
+} from "drizzle-orm";
+
+const ACTIVE_JOB_STATUSES = ["queued", "running", "paused"];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Leads are owned through their campaign
+function leadOwnedBy(userId: string) {
+  return inArray(
+    leads.campaignId,
+    db.select({ id: campaigns.id }).from(campaigns).where(eq(campaigns.userId, userId)),
+  );
+}
+
+// Sets a text column only while it is empty and the user hasn't edited it
+function fillIfUnedited(column: PgColumn, field: string, value: string | null | undefined) {
+  if (!value) return undefined;
+  return sql`case when coalesce(${column}, '') = '' and not (${field} = any(coalesce(${leads.editedFields}, '{}'))) then ${value} else ${column} end`;
+}
+
+// A user edit: the changed fields are remembered so enrichment won't refill them
+function userEdit(updates: Partial<Lead>) {
+  const fields = Object.keys(updates);
+  const editedFields = fields.length > 0
+    ? sql`array(select distinct unnest(coalesce(${leads.editedFields}, '{}') || array[${sql.join(fields.map((field) => sql`${field}`), sql`, `)}]::text[]))`
+    : undefined;
+  // Time in stage restarts only when the lead actually moves
+  const stageChangedAt = updates.contactStatus !== undefined
+    ? sql`case when ${leads.contactStatus} is distinct from ${updates.contactStatus} then now() else ${leads.stageChangedAt} end`
+    : undefined;
+  return { ...updates, editedFields, stageChangedAt, updatedAt: new Date() };
+}
+
+// The lead's tags as a JSON array, selected alongside its columns. The lead
+// id is qualified by hand: single-table selects render columns unqualified,
+// which inside this subquery would resolve to tags.id.
+const leadTagList = sql<LeadTag[]>`coalesce((
+  select json_agg(json_build_object('id', ${tags.id}, 'name', ${tags.name}, 'color', ${tags.color}) order by lower(${tags.name}))
+  from ${leadTags} inner join ${tags} on ${tags.id} = ${leadTags.tagId}
+  where ${leadTags.leadId} = ${leads}.${sql.identifier(leads.id.name)}
+), '[]'::json)`;
+
+const lowerNames = (names: string[]) => names.map((name) => name.toLowerCase());
+
+// Looks tags up by name, ignoring case, and creates the missing ones
+async function ensureTags(tx: Transaction, userId: string, names: string[]): Promise<Tag[]> {
+  if (names.length === 0) return [];
+  await tx.insert(tags).values(names.map((name) => ({ userId, name }))).onConflictDoNothing();
+  return await tx
+    .select()
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(sql`lower(${tags.name})`, lowerNames(names))));
+}
+
+// Adds the tags to the leads, skipping pairs that already exist. Returns
+// the ids of the leads that gained a tag.
+async function insertLeadTags(tx: Transaction, leadIds: string[], tagIds: string[]): Promise<string[]> {
+  const pairs = leadIds.flatMap((leadId) => tagIds.map((tagId) => ({ leadId, tagId })));
+  const tagged: string[] = [];
+  for (let i = 0; i < pairs.length; i += 500) {
+    const inserted = await tx
+      .insert(leadTags)
+      .values(pairs.slice(i, i + 500))
+      .onConflictDoNothing()
+      .returning({ leadId: leadTags.leadId });
+    tagged.push(...inserted.map(({ leadId }) => leadId));
+  }
+  return tagged;
+}
+
+// Run before leads are deleted: each duplicate group headed by one of them
+// gets its oldest surviving lead as the new canonical one, so no duplicate is
+// left pointing at a lead that no longer exists
+async function relinkDuplicatesOf(tx: Transaction, deletedIds: string[] | SQLWrapper): Promise<void> {
+  const survivors = await tx
+    .select({ id: leads.id, canonicalLeadId: leads.canonicalLeadId })
+    .from(leads)
+    .where(and(inArray(leads.canonicalLeadId, deletedIds), notInArray(leads.id, deletedIds)))
+    .orderBy(leads.createdAt, leads.id);
+
+  const groups = new Map<string, string[]>();
+  for (const { id, canonicalLeadId } of survivors) {
+    groups.set(canonicalLeadId!, [...(groups.get(canonicalLeadId!) ?? []), id]);
+  }
+  for (const [canonicalId, ...duplicateIds] of Array.from(groups.values())) {
+    await tx.update(leads).set({ isDuplicate: false, canonicalLeadId: null }).where(eq(leads.id, canonicalId));
+    if (duplicateIds.length > 0) {
+      await tx.update(leads).set({ canonicalLeadId: canonicalId }).where(inArray(leads.id, duplicateIds));
+    }
+  }
+}
+
+// A lead's stage changes, oldest first, for the pipeline analytics
+export interface PipelineHistory {
+  leads: Pick<Lead, "id" | "contactStatus" | "createdAt" | "stageChangedAt">[];
+  moves: { leadId: string; from: string | null; to: string | null; at: Date | null }[];
+}
+
+// The leads a bulk change was saved for, as they were and as they are now
+// (null once deleted), and the ones left unchanged
+export interface BulkLeadChangeResult {
+  succeeded: { before: TaggedLead; after: TaggedLead | null }[];
+  failed: BulkLeadFailure[];
+}
+
+export interface LeadFacets {
+  categories: string[];
+  cities: string[];
+  states: string[];
+}
+
+// Pages fetched by a run so far, and one page's lead counts to add to it
+export interface CampaignRunCounts {
+  runId: string;
+  pagesFetched: number;
+  leadsFound: number;
+  leadsNew: number;
+  leadsDuplicate: number;
+}
+
+// Limits which job types a worker slot may claim
+export interface JobTypeFilter {
+  types?: string[];
+  excludeTypes?: string[];
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  
-  // Campaign operations
-  createCampaign(userId: string, campaign: InsertCampaign): Promise<Campaign>;
+
+  // Settings operations
+  getUserSettings(userId: string): Promise<UserSettings>;
+  saveUserSettings(userId: string, settings: UserSettings): Promise<UserSettings>;
+  getScoringRules(userId: string): Promise<ScoringRules>;
+  saveScoringRules(userId: string, rules: ScoringRules): Promise<ScoringRules>;
+  getPipelineStages(userId: string): Promise<PipelineStage[]>;
+  // Saves the stages, first moving the leads of removed stages as reassigned
+  savePipelineStages(userId: string, stages: PipelineStage[], reassign: Record<string, string>): Promise<PipelineStage[]>;
+  getStageCounts(userId: string): Promise<Record<string, number>>;
+  getPipelineHistory(userId: string): Promise<PipelineHistory>;
+
+  // API key operations
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKeySummary>;
+  getUserApiKeys(userId: string): Promise<ApiKeySummary[]>;
+  revokeUserApiKey(userId: string, id: string): Promise<boolean>;
+  getActiveApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  touchApiKey(id: string): Promise<void>;
+
+  // Webhook operations
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  getUserWebhooks(userId: string): Promise<WebhookSummary[]>;
+  updateUserWebhook(userId: string, id: string, updates: Partial<Webhook>): Promise<WebhookSummary | undefined>;
+  deleteUserWebhook(userId: string, id: string): Promise<boolean>;
+  getSubscribedWebhooks(userId: string, event: string): Promise<Webhook[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<{ delivery: WebhookDelivery; webhook: Webhook } | undefined>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void>;
+  getUserWebhookDeliveries(userId: string, webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+
+  // Campaign operations. Methods taking a userId only ever see that user's
+  // records; getCampaign/updateCampaign are unscoped for background workers.
+  // The status is only set here for campaigns created outside a run, e.g. by an import
+  createCampaign(userId: string, campaign: InsertCampaign & Partial<Pick<Campaign, "status">>): Promise<Campaign>;
   getUserCampaigns(userId: string): Promise<Campaign[]>;
+  getUserCampaign(userId: string, id: string): Promise<Campaign | undefined>;
+  updateUserCampaign(userId: string, id: string, updates: Partial<Campaign>): Promise<Campaign | undefined>;
+  deleteUserCampaign(userId: string, id: string): Promise<boolean>;
   getCampaign(id: string): Promise<Campaign | undefined>;
   updateCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign>;
-  deleteCampaign(id: string): Promise<void>;
+  // Only applies while the campaign is still running
+  updateRunningCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign | undefined>;
+  // Only applies while the campaign's status is one of `statuses`
+  updateCampaignInStatus(id: string, statuses: string[], updates: Partial<Campaign>): Promise<Campaign | undefined>;
+  getDueScheduledCampaigns(now: Date): Promise<Campaign[]>;
+  claimScheduledCampaign(id: string, dueAt: Date, nextRunAt: Date | null): Promise<Campaign | undefined>;
+
+  // Campaign run history
+  createCampaignRun(run: InsertCampaignRun): Promise<CampaignRun>;
+  addCampaignRunError(runId: string, message: string): Promise<void>;
+  finishCampaignRuns(campaignId: string, status: CampaignRunStatus): Promise<void>;
+  getUserCampaignRuns(userId: string, campaignId: string, limit?: number): Promise<CampaignRun[]>;
+  getUserCampaignRun(userId: string, campaignId: string, runId: string): Promise<CampaignRun | undefined>;
+  getLatestCampaignRuns(userId: string): Promise<CampaignRun[]>;
   
   // Lead operations
   createLead(lead: InsertLead): Promise<Lead>;
-  getCampaignLeads(campaignId: string): Promise<Lead[]>;
+  importLeads(campaignId: string, rows: ImportedLead[]): Promise<string[]>;
+  getCampaignLeads(userId: string, campaignId: string): Promise<Lead[]>;
   getUserLeads(userId: string): Promise<Lead[]>;
-  updateLead(id: string, updates: Partial<Lead>): Promise<Lead>;
-  deleteLead(id: string): Promise<void>;
+  getUserLeadsByIds(userId: string, ids: string[]): Promise<Lead[]>;
+  getUserLeadIds(
+    userId: string,
+    options?: { onlyPending?: boolean; needsEnrichment?: boolean; notGeocoded?: boolean; campaignId?: string },
+  ): Promise<string[]>;
+  // The ids of the leads matching the filters, in their sort order
+  getFilteredLeadIds(userId: string, query: LeadFilterQuery, limit: number): Promise<string[]>;
+  queryUserLeads(userId: string, query: LeadQuery): Promise<LeadPage>;
+  countUserLeads(userId: string, query: Omit<LeadFilterQuery, "sort">): Promise<number>;
+  iterateUserLeads(userId: string, query: LeadFilterQuery, batchSize?: number): AsyncGenerator<TaggedLead[]>;
+  getLeadFacets(userId: string): Promise<LeadFacets>;
+  getLeadMapData(userId: string, query: Omit<LeadFilterQuery, "sort">, limit: number): Promise<LeadMapData>;
+  getUserLead(userId: string, id: string): Promise<TaggedLead | undefined>;
+  updateUserLead(userId: string, id: string, updates: Partial<Lead>): Promise<Lead | undefined>;
+  deleteUserLead(userId: string, id: string): Promise<boolean>;
+  applyBulkLeadChange(userId: string, leadIds: string[], change: BulkLeadChange): Promise<BulkLeadChangeResult>;
+  saveDuplicateGroups(userId: string, groups: { canonicalId: string; duplicateIds: string[] }[]): Promise<void>;
+  getLeadDuplicateGroup(userId: string, leadId: string): Promise<LeadDuplicateGroup | undefined>;
+  mergeLeads(userId: string, canonicalId: string, duplicateIds: string[], updates: Partial<Lead>): Promise<Lead>;
+  saveLeadValidation(id: string, result: Pick<Lead, "isValidated" | "validationDetails">): Promise<void>;
+  saveLeadEnrichment(
+    id: string,
+    updates: Partial<Pick<Lead, "email" | "phone" | "description" | "socialProfiles">>,
+    enrichment: LeadEnrichment,
+  ): Promise<Lead | undefined>;
+  saveLeadScores(scores: Pick<Lead, "id" | "score" | "scoreBreakdown">[]): Promise<void>;
+  saveLeadLocations(locations: (Partial<LeadLocation> & { id: string })[]): Promise<void>;
+  getLeadActivities(userId: string, leadId: string): Promise<LeadActivity[]>;
+  createLeadActivities(activities: InsertLeadActivity[]): Promise<void>;
   getLeadStats(userId: string): Promise<any>;
+
+  // Tag operations
+  getUserTags(userId: string): Promise<TagWithCount[]>;
+  getUserTag(userId: string, id: string): Promise<Tag | undefined>;
+  getUserTagByName(userId: string, name: string): Promise<Tag | undefined>;
+  createTag(userId: string, tag: CreateTagRequest): Promise<Tag>;
+  updateUserTag(userId: string, id: string, updates: UpdateTagRequest): Promise<Tag | undefined>;
+  deleteUserTag(userId: string, id: string): Promise<boolean>;
+  // Moves the leads of the merged tags onto the target tag and deletes them
+  mergeUserTags(userId: string, targetId: string, tagIds: string[]): Promise<void>;
+  // Replaces the lead's tags, creating tags that don't exist yet
+  setLeadTags(userId: string, leadId: string, names: string[]): Promise<LeadTag[]>;
   
+  // Saved view operations
+  getUserSavedViews(userId: string): Promise<SavedView[]>;
+  getUserSavedView(userId: string, id: string): Promise<SavedView | undefined>;
+  // The user's own view, or another user's shared one
+  getViewableSavedView(userId: string, id: string): Promise<SavedView | undefined>;
+  createSavedView(userId: string, view: CreateSavedViewRequest): Promise<SavedView>;
+  updateUserSavedView(userId: string, id: string, updates: UpdateSavedViewRequest): Promise<SavedView | undefined>;
+  deleteUserSavedView(userId: string, id: string): Promise<boolean>;
+
   // File operations
   createFile(userId: string, file: InsertFile): Promise<File>;
   getUserFiles(userId: string): Promise<File[]>;
-  getFile(id: string): Promise<File | undefined>;
-  deleteFile(id: string): Promise<void>;
+  getUserFile(userId: string, id: string): Promise<File | undefined>;
+  deleteUserFile(userId: string, id: string): Promise<boolean>;
+
+  // Job operations
+  enqueueJob(job: InsertJob): Promise<Job>;
+  claimNextJob(workerId: string, filter?: JobTypeFilter): Promise<Job | undefined>;
+  getActiveCampaignJob(campaignId: string): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job>;
+  getStaleJobs(heartbeatBefore: Date): Promise<Job[]>;
+  requeuePausedCampaignJob(campaignId: string): Promise<Job | undefined>;
+  cancelPendingCampaignJobs(campaignId: string): Promise<void>;
+  saveCampaignPage(jobId: string, campaignId: string, pageLeads: (InsertLead & Partial<LeadLocation>)[], checkpoint: Partial<Campaign> & { lastPage: number }, runCounts?: CampaignRunCounts): Promise<Lead[]>;
+  failOrphanedCampaigns(): Promise<Campaign[]>;
+  // Moves the old comma-separated lead tags into tags and lead_tags
+  backfillLegacyLeadTags(): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -63,7 +378,228 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createCampaign(userId: string, campaign: InsertCampaign): Promise<Campaign> {
+  // Stored sections are merged over the defaults so settings added later
+  // get their default value
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    const [row] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return {
+      notifications: { ...defaultUserSettings.notifications, ...row?.notifications },
+      scraping: { ...defaultUserSettings.scraping, ...row?.scraping },
+      export: { ...defaultUserSettings.export, ...row?.export },
+    };
+  }
+
+  async saveUserSettings(userId: string, settings: UserSettings): Promise<UserSettings> {
+    await db
+      .insert(userSettings)
+      .values({ userId, ...settings })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...settings, updatedAt: new Date() },
+      });
+    return settings;
+  }
+
+  // Rules added since the user last saved fall back to their defaults
+  async getScoringRules(userId: string): Promise<ScoringRules> {
+    const [row] = await db.select().from(leadScoringRules).where(eq(leadScoringRules.userId, userId));
+    const saved: Partial<ScoringRules> = row?.rules ?? {};
+    return Object.fromEntries(
+      Object.entries(defaultScoringRules).map(([key, rule]) => [key, { ...rule, ...saved[key as keyof ScoringRules] }]),
+    ) as ScoringRules;
+  }
+
+  async saveScoringRules(userId: string, rules: ScoringRules): Promise<ScoringRules> {
+    await db
+      .insert(leadScoringRules)
+      .values({ userId, rules })
+      .onConflictDoUpdate({
+        target: leadScoringRules.userId,
+        set: { rules, updatedAt: new Date() },
+      });
+    return rules;
+  }
+
+  async getPipelineStages(userId: string): Promise<PipelineStage[]> {
+    const [row] = await db.select().from(leadPipelines).where(eq(leadPipelines.userId, userId));
+    return row?.stages ?? defaultPipelineStages;
+  }
+
+  async savePipelineStages(userId: string, stages: PipelineStage[], reassign: Record<string, string>): Promise<PipelineStage[]> {
+    return await db.transaction(async (tx) => {
+      for (const [from, to] of Object.entries(reassign)) {
+        const moved = await tx
+          .update(leads)
+          .set({ contactStatus: to, stageChangedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(leads.contactStatus, from), leadOwnedBy(userId)))
+          .returning({ id: leads.id });
+        for (let i = 0; i < moved.length; i += 500) {
+          await tx.insert(leadActivities).values(
+            moved.slice(i, i + 500).map(({ id }) => ({
+              leadId: id,
+              userId,
+              type: "status_changed" as const,
+              details: { from, to },
+            })),
+          );
+        }
+      }
+      await tx
+        .insert(leadPipelines)
+        .values({ userId, stages })
+        .onConflictDoUpdate({
+          target: leadPipelines.userId,
+          set: { stages, updatedAt: new Date() },
+        });
+      return stages;
+    });
+  }
+
+  async getStageCounts(userId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ stage: leads.contactStatus, count: count() })
+      .from(leads)
+      .where(leadOwnedBy(userId))
+      .groupBy(leads.contactStatus);
+    return Object.fromEntries(rows.map(({ stage, count }) => [stage ?? "", count]));
+  }
+
+  async getPipelineHistory(userId: string): Promise<PipelineHistory> {
+    const [leadRows, moves] = await Promise.all([
+      db
+        .select({
+          id: leads.id,
+          contactStatus: leads.contactStatus,
+          createdAt: leads.createdAt,
+          stageChangedAt: leads.stageChangedAt,
+        })
+        .from(leads)
+        .where(leadOwnedBy(userId)),
+      db
+        .select({
+          leadId: leadActivities.leadId,
+          from: sql<string | null>`${leadActivities.details}->>'from'`,
+          to: sql<string | null>`${leadActivities.details}->>'to'`,
+          at: leadActivities.createdAt,
+        })
+        .from(leadActivities)
+        .innerJoin(leads, eq(leadActivities.leadId, leads.id))
+        .where(and(eq(leadActivities.type, "status_changed"), leadOwnedBy(userId)))
+        .orderBy(leadActivities.createdAt),
+    ]);
+    return { leads: leadRows, moves };
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKeySummary> {
+    const { keyHash, ...columns } = getTableColumns(apiKeys);
+    const [created] = await db.insert(apiKeys).values(apiKey).returning(columns);
+    return created;
+  }
+
+  async getUserApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    const { keyHash, ...columns } = getTableColumns(apiKeys);
+    return await db
+      .select(columns)
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async revokeUserApiKey(userId: string, id: string): Promise<boolean> {
+    const revoked = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+    return revoked.length > 0;
+  }
+
+  async getActiveApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)));
+    return apiKey;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async getUserWebhooks(userId: string): Promise<WebhookSummary[]> {
+    const { secret, ...columns } = getTableColumns(webhooks);
+    return await db
+      .select(columns)
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(desc(webhooks.createdAt));
+  }
+
+  async updateUserWebhook(userId: string, id: string, updates: Partial<Webhook>): Promise<WebhookSummary | undefined> {
+    const { secret, ...columns } = getTableColumns(webhooks);
+    const [updated] = await db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning(columns);
+    return updated;
+  }
+
+  async deleteUserWebhook(userId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [webhook] = await tx
+        .select({ id: webhooks.id })
+        .from(webhooks)
+        .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+      if (!webhook) return false;
+
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+      await tx.delete(webhooks).where(eq(webhooks.id, id));
+      return true;
+    });
+  }
+
+  async getSubscribedWebhooks(userId: string, event: string): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.userId, userId), eq(webhooks.active, true), arrayContains(webhooks.events, [event])));
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getWebhookDelivery(id: string): Promise<{ delivery: WebhookDelivery; webhook: Webhook } | undefined> {
+    const [row] = await db
+      .select({ delivery: webhookDeliveries, webhook: webhooks })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(eq(webhookDeliveries.id, id));
+    return row;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void> {
+    await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id));
+  }
+
+  async getUserWebhookDeliveries(userId: string, webhookId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select(getTableColumns(webhookDeliveries))
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(and(eq(webhookDeliveries.webhookId, webhookId), eq(webhooks.userId, userId)))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async createCampaign(userId: string, campaign: InsertCampaign & Partial<Pick<Campaign, "status">>): Promise<Campaign> {
     const [newCampaign] = await db
       .insert(campaigns)
       .values({ ...campaign, userId })
@@ -79,6 +615,48 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(campaigns.createdAt));
   }
 
+  async getUserCampaign(userId: string, id: string): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)));
+    return campaign;
+  }
+
+  async updateUserCampaign(userId: string, id: string, updates: Partial<Campaign>): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserCampaign(userId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [campaign] = await tx
+        .select({ id: campaigns.id })
+        .from(campaigns)
+        .where(and(eq(campaigns.id, id), eq(campaigns.userId, userId)));
+      if (!campaign) return false;
+
+      const campaignLeadIds = tx.select({ id: leads.id }).from(leads).where(eq(leads.campaignId, id));
+      await relinkDuplicatesOf(tx, campaignLeadIds);
+      await tx.delete(leadActivities).where(inArray(leadActivities.leadId, campaignLeadIds));
+      await tx.delete(leadTags).where(inArray(leadTags.leadId, campaignLeadIds));
+      await tx.delete(leads).where(eq(leads.campaignId, id));
+      await tx.delete(jobs).where(eq(jobs.campaignId, id));
+      // Leads moved to another campaign outlive the run that found them
+      await tx
+        .update(leads)
+        .set({ runId: null })
+        .where(inArray(leads.runId, tx.select({ id: campaignRuns.id }).from(campaignRuns).where(eq(campaignRuns.campaignId, id))));
+      await tx.delete(campaignRuns).where(eq(campaignRuns.campaignId, id));
+      await tx.delete(campaigns).where(eq(campaigns.id, id));
+      return true;
+    });
+  }
+
   async getCampaign(id: string): Promise<Campaign | undefined> {
     const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
     return campaign;
@@ -93,8 +671,94 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async deleteCampaign(id: string): Promise<void> {
-    await db.delete(campaigns).where(eq(campaigns.id, id));
+  async updateRunningCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.status, "running")))
+      .returning();
+    return updated;
+  }
+
+  async updateCampaignInStatus(id: string, statuses: string[], updates: Partial<Campaign>): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), inArray(campaigns.status, statuses)))
+      .returning();
+    return updated;
+  }
+
+  async getDueScheduledCampaigns(now: Date): Promise<Campaign[]> {
+    return await db
+      .select()
+      .from(campaigns)
+      .where(lte(campaigns.nextRunAt, now))
+      .orderBy(campaigns.nextRunAt);
+  }
+
+  // Moves a due campaign on to its next run time. Only succeeds while
+  // nextRunAt is still dueAt, so each occurrence is claimed once even with
+  // several servers polling.
+  async claimScheduledCampaign(id: string, dueAt: Date, nextRunAt: Date | null): Promise<Campaign | undefined> {
+    const [claimed] = await db
+      .update(campaigns)
+      .set({ nextRunAt, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.nextRunAt, dueAt)))
+      .returning();
+    return claimed;
+  }
+
+  async createCampaignRun(run: InsertCampaignRun): Promise<CampaignRun> {
+    const [newRun] = await db.insert(campaignRuns).values(run).returning();
+    return newRun;
+  }
+
+  // Recorded against the page after the last one the run saved
+  async addCampaignRunError(runId: string, message: string): Promise<void> {
+    await db
+      .update(campaignRuns)
+      .set({
+        errors: sql`${campaignRuns.errors} || jsonb_build_array(jsonb_build_object(
+          'message', ${message}::text,
+          'page', ${campaignRuns.pagesFetched} + 1,
+          'at', ${new Date().toISOString()}::text))`,
+      })
+      .where(eq(campaignRuns.id, runId));
+  }
+
+  // Closes whichever run of the campaign is still open
+  async finishCampaignRuns(campaignId: string, status: CampaignRunStatus): Promise<void> {
+    await db
+      .update(campaignRuns)
+      .set({ status, finishedAt: new Date() })
+      .where(and(eq(campaignRuns.campaignId, campaignId), eq(campaignRuns.status, "running")));
+  }
+
+  async getUserCampaignRuns(userId: string, campaignId: string, limit = 50): Promise<CampaignRun[]> {
+    return await db
+      .select()
+      .from(campaignRuns)
+      .where(and(eq(campaignRuns.campaignId, campaignId), eq(campaignRuns.userId, userId)))
+      .orderBy(desc(campaignRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getUserCampaignRun(userId: string, campaignId: string, runId: string): Promise<CampaignRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(campaignRuns)
+      .where(and(eq(campaignRuns.id, runId), eq(campaignRuns.campaignId, campaignId), eq(campaignRuns.userId, userId)));
+    return run;
+  }
+
+  // The most recent run of each of the user's campaigns
+  async getLatestCampaignRuns(userId: string): Promise<CampaignRun[]> {
+    return await db
+      .selectDistinctOn([campaignRuns.campaignId])
+      .from(campaignRuns)
+      .where(eq(campaignRuns.userId, userId))
+      .orderBy(campaignRuns.campaignId, desc(campaignRuns.startedAt));
   }
 
   async createLead(lead: InsertLead): Promise<Lead> {
@@ -102,55 +766,425 @@ export class DatabaseStorage implements IStorage {
     return newLead;
   }
 
-  async getCampaignLeads(campaignId: string): Promise<Lead[]> {
+  // Inserts imported rows, tags them (creating the campaign owner's missing
+  // tags) and counts them towards the campaign's leads. Returns the new lead ids.
+  async importLeads(campaignId: string, rows: ImportedLead[]): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const [{ userId }] = await tx.select({ userId: campaigns.userId }).from(campaigns).where(eq(campaigns.id, campaignId));
+      const ids: string[] = [];
+      for (let i = 0; i < rows.length; i += 500) {
+        const inserted = await tx
+          .insert(leads)
+          .values(rows.slice(i, i + 500).map(({ tags: _tags, ...row }) => ({ ...row, campaignId })))
+          .returning({ id: leads.id });
+        ids.push(...inserted.map(({ id }) => id));
+      }
+
+      const tagIds = new Map(
+        (await ensureTags(tx, userId, Array.from(new Set(rows.flatMap((row) => row.tags ?? [])))))
+          .map((tag) => [tag.name.toLowerCase(), tag.id]),
+      );
+      const pairs = rows.flatMap((row, index) =>
+        (row.tags ?? []).map((name) => ({ leadId: ids[index], tagId: tagIds.get(name.toLowerCase())! })),
+      );
+      for (let i = 0; i < pairs.length; i += 500) {
+        await tx.insert(leadTags).values(pairs.slice(i, i + 500)).onConflictDoNothing();
+      }
+      await tx
+        .update(campaigns)
+        .set({ leadsFound: sql`coalesce(${campaigns.leadsFound}, 0) + ${rows.length}`, updatedAt: new Date() })
+        .where(eq(campaigns.id, campaignId));
+      return ids;
+    });
+  }
+
+  async getCampaignLeads(userId: string, campaignId: string): Promise<Lead[]> {
     return await db
       .select()
       .from(leads)
-      .where(eq(leads.campaignId, campaignId))
+      .where(and(eq(leads.campaignId, campaignId), leadOwnedBy(userId)))
       .orderBy(desc(leads.createdAt));
   }
 
   async getUserLeads(userId: string): Promise<Lead[]> {
     return await db
-      .select({
-        id: leads.id,
-        campaignId: leads.campaignId,
-        businessName: leads.businessName,
-        category: leads.category,
-        phone: leads.phone,
-        email: leads.email,
-        website: leads.website,
-        address: leads.address,
-        city: leads.city,
-        state: leads.state,
-        zipCode: leads.zipCode,
-        rating: leads.rating,
-        reviewCount: leads.reviewCount,
-        isValidated: leads.isValidated,
-        isDuplicate: leads.isDuplicate,
-        notes: leads.notes,
-        tags: leads.tags,
-        contactStatus: leads.contactStatus,
-        createdAt: leads.createdAt,
-        updatedAt: leads.updatedAt,
-      })
+      .select(getTableColumns(leads))
       .from(leads)
       .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
       .where(eq(campaigns.userId, userId))
       .orderBy(desc(leads.createdAt));
   }
 
-  async updateLead(id: string, updates: Partial<Lead>): Promise<Lead> {
+  async getUserLeadsByIds(userId: string, ids: string[]): Promise<Lead[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(leads)
+      .where(and(inArray(leads.id, ids), leadOwnedBy(userId)));
+  }
+
+  async getUserLeadIds(
+    userId: string,
+    options: { onlyPending?: boolean; needsEnrichment?: boolean; notGeocoded?: boolean; campaignId?: string } = {},
+  ): Promise<string[]> {
+    const conditions = [eq(campaigns.userId, userId)];
+    if (options.onlyPending) {
+      conditions.push(or(eq(leads.isValidated, false), isNull(leads.isValidated))!);
+    }
+    if (options.needsEnrichment) {
+      conditions.push(sql`coalesce(${leads.website}, '') <> ''`, sql`coalesce(${leads.email}, '') = ''`);
+    }
+    if (options.notGeocoded) {
+      conditions.push(isNull(leads.geocodedAt));
+    }
+    if (options.campaignId) {
+      conditions.push(eq(leads.campaignId, options.campaignId));
+    }
+    const rows = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+      .where(and(...conditions))
+      .orderBy(desc(leads.createdAt));
+    return rows.map(({ id }) => id);
+  }
+
+  async getFilteredLeadIds(userId: string, query: LeadFilterQuery, limit: number): Promise<string[]> {
+    const { sort, ...filters } = query;
+    const rows = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+      .where(and(...leadFilters(userId, filters)))
+      .orderBy(...leadOrderBy(leadSortKeys({ sort })))
+      .limit(limit);
+    return rows.map(({ id }) => id);
+  }
+
+  async queryUserLeads(userId: string, query: LeadQuery): Promise<LeadPage> {
+    const { cursor, limit, sort, ...filters } = query;
+    const page = await this.selectLeadPage(leadFilters(userId, filters), leadSortKeys({ sort }), limit, cursor);
+    const total = await this.countUserLeads(userId, filters);
+    return { ...page, total };
+  }
+
+  async countUserLeads(userId: string, query: Omit<LeadFilterQuery, "sort">): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(leads)
+      .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+      .where(and(...leadFilters(userId, query)));
+    return total;
+  }
+
+  async *iterateUserLeads(userId: string, query: LeadFilterQuery, batchSize = 500): AsyncGenerator<TaggedLead[]> {
+    const { sort, ...filters } = query;
+    const conditions = leadFilters(userId, filters);
+    const keys = leadSortKeys({ sort });
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.selectLeadPage(conditions, keys, batchSize, cursor);
+      if (page.leads.length > 0) {
+        yield page.leads;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  private async selectLeadPage(conditions: SQL[], keys: SortKey[], limit: number, cursor?: string) {
+    const rows = await db
+      .select({ ...getTableColumns(leads), tags: leadTagList, sortKeys: sortKeyValues(keys) })
+      .from(leads)
+      .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+      .where(and(...conditions, cursor ? afterCursor(keys, cursor) : undefined))
+      .orderBy(...leadOrderBy(keys))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      leads: page.map(({ sortKeys, ...lead }) => lead),
+      nextCursor: rows.length > limit && last ? encodeCursor(last.sortKeys) : null,
+    };
+  }
+
+  async getLeadMapData(userId: string, query: Omit<LeadFilterQuery, "sort">, limit: number): Promise<LeadMapData> {
+    const conditions = and(...leadFilters(userId, query), isNotNull(leads.latitude), isNotNull(leads.longitude));
+    const [points, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: leads.id,
+          campaignId: leads.campaignId,
+          businessName: leads.businessName,
+          contactStatus: leads.contactStatus,
+          outsideRadius: leads.outsideRadius,
+          latitude: leads.latitude,
+          longitude: leads.longitude,
+        })
+        .from(leads)
+        .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+        .where(conditions)
+        .orderBy(desc(leads.createdAt))
+        .limit(limit),
+      db
+        .select({ total: count() })
+        .from(leads)
+        .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+        .where(conditions),
+    ]);
+    return { points: points as LeadMapPoint[], total };
+  }
+
+  async getLeadFacets(userId: string): Promise<LeadFacets> {
+    const distinctValues = async (column: typeof leads.category | typeof leads.city | typeof leads.state) => {
+      const rows = await db
+        .selectDistinct({ value: column })
+        .from(leads)
+        .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+        .where(and(eq(campaigns.userId, userId), isNotNull(column)))
+        .orderBy(column)
+        .limit(500);
+      return rows.map((row) => row.value as string);
+    };
+
+    const [categories, cities, states] = await Promise.all([
+      distinctValues(leads.category),
+      distinctValues(leads.city),
+      distinctValues(leads.state),
+    ]);
+    return { categories, cities, states };
+  }
+
+  async getUserLead(userId: string, id: string): Promise<TaggedLead | undefined> {
+    const [lead] = await db
+      .select({ ...getTableColumns(leads), tags: leadTagList })
+      .from(leads)
+      .where(and(eq(leads.id, id), leadOwnedBy(userId)));
+    return lead;
+  }
+
+  async updateUserLead(userId: string, id: string, updates: Partial<Lead>): Promise<Lead | undefined> {
     const [updated] = await db
       .update(leads)
-      .set({ ...updates, updatedAt: new Date() })
+      .set(userEdit(updates))
+      .where(and(eq(leads.id, id), leadOwnedBy(userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserLead(userId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx
+        .select({ id: leads.id })
+        .from(leads)
+        .where(and(eq(leads.id, id), leadOwnedBy(userId)));
+      if (!lead) return false;
+
+      await relinkDuplicatesOf(tx, [id]);
+      await tx.delete(leadActivities).where(eq(leadActivities.leadId, id));
+      await tx.delete(leadTags).where(eq(leadTags.leadId, id));
+      await tx.delete(leads).where(eq(leads.id, id));
+      return true;
+    });
+  }
+
+  // Applies the change lead by lead in one transaction. Each lead gets a
+  // savepoint, so a lead that fails is rolled back and reported while the
+  // rest of the batch is still saved.
+  async applyBulkLeadChange(userId: string, leadIds: string[], change: BulkLeadChange): Promise<BulkLeadChangeResult> {
+    return await db.transaction(async (tx) => {
+      const found = leadIds.length === 0 ? [] : await tx
+        .select({ ...getTableColumns(leads), tags: leadTagList })
+        .from(leads)
+        .where(and(inArray(leads.id, leadIds), leadOwnedBy(userId)));
+      const leadsById = new Map(found.map((lead) => [lead.id, lead]));
+      // The tags being added or removed are looked up once for the batch
+      let changeTags: Tag[] = [];
+      if (change.type === "add_tags") {
+        changeTags = await ensureTags(tx, userId, change.tags);
+      } else if (change.type === "remove_tags") {
+        changeTags = await tx
+          .select()
+          .from(tags)
+          .where(and(eq(tags.userId, userId), inArray(sql`lower(${tags.name})`, lowerNames(change.tags))));
+      }
+
+      const result: BulkLeadChangeResult = { succeeded: [], failed: [] };
+      for (const id of Array.from(new Set(leadIds))) {
+        const before = leadsById.get(id);
+        if (!before) {
+          result.failed.push({ leadId: id, businessName: null, message: "Lead not found" });
+          continue;
+        }
+        try {
+          const after = await tx.transaction(async (sp) => {
+            switch (change.type) {
+              case "set_stage":
+                await sp.update(leads).set(userEdit({ contactStatus: change.stage })).where(eq(leads.id, id));
+                break;
+              case "mark_validated":
+                await sp.update(leads).set(userEdit({ isValidated: change.isValidated })).where(eq(leads.id, id));
+                break;
+              case "move_campaign":
+                await sp.update(leads).set(userEdit({ campaignId: change.campaignId })).where(eq(leads.id, id));
+                break;
+              case "add_tags":
+                await insertLeadTags(sp, [id], changeTags.map((tag) => tag.id));
+                break;
+              case "remove_tags":
+                if (changeTags.length > 0) {
+                  await sp
+                    .delete(leadTags)
+                    .where(and(eq(leadTags.leadId, id), inArray(leadTags.tagId, changeTags.map((tag) => tag.id))));
+                }
+                break;
+              case "delete":
+                await relinkDuplicatesOf(sp, [id]);
+                await sp.delete(leadActivities).where(eq(leadActivities.leadId, id));
+                await sp.delete(leadTags).where(eq(leadTags.leadId, id));
+                await sp.delete(leads).where(eq(leads.id, id));
+                return null;
+            }
+            const [updated] = await sp
+              .select({ ...getTableColumns(leads), tags: leadTagList })
+              .from(leads)
+              .where(eq(leads.id, id));
+            return updated;
+          });
+          result.succeeded.push({ before, after });
+        } catch (error) {
+          console.error(`Error applying ${change.type} to lead ${id}:`, error);
+          result.failed.push({ leadId: id, businessName: before.businessName, message: "The change could not be saved" });
+        }
+      }
+      return result;
+    });
+  }
+
+  // Replaces the duplicate flags on all of the user's leads in one go
+  async saveDuplicateGroups(userId: string, groups: { canonicalId: string; duplicateIds: string[] }[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(leads)
+        .set({ isDuplicate: false, canonicalLeadId: null })
+        .where(and(leadOwnedBy(userId), or(eq(leads.isDuplicate, true), isNotNull(leads.canonicalLeadId))));
+
+      for (const { canonicalId, duplicateIds } of groups) {
+        await tx
+          .update(leads)
+          .set({ isDuplicate: true, canonicalLeadId: canonicalId })
+          .where(and(inArray(leads.id, duplicateIds), leadOwnedBy(userId)));
+      }
+    });
+  }
+
+  async getLeadDuplicateGroup(userId: string, leadId: string): Promise<LeadDuplicateGroup | undefined> {
+    const lead = await this.getUserLead(userId, leadId);
+    if (!lead) return undefined;
+
+    const canonicalId = lead.canonicalLeadId ?? lead.id;
+    const group = await db
+      .select()
+      .from(leads)
+      .where(and(or(eq(leads.id, canonicalId), eq(leads.canonicalLeadId, canonicalId)), leadOwnedBy(userId)))
+      .orderBy(leads.createdAt);
+
+    const canonical = group.find((item) => item.id === canonicalId);
+    if (!canonical) return undefined;
+    return { canonical, duplicates: group.filter((item) => item.id !== canonicalId) };
+  }
+
+  async mergeLeads(userId: string, canonicalId: string, duplicateIds: string[], updates: Partial<Lead>): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      // The duplicates' history and tags carry over to the merged lead
+      const duplicates = tx.select({ id: leads.id }).from(leads).where(and(inArray(leads.id, duplicateIds), leadOwnedBy(userId)));
+      await tx.update(leadActivities).set({ leadId: canonicalId }).where(inArray(leadActivities.leadId, duplicates));
+      const duplicateTags = await tx
+        .selectDistinct({ tagId: leadTags.tagId })
+        .from(leadTags)
+        .where(inArray(leadTags.leadId, duplicates));
+      await insertLeadTags(tx, [canonicalId], duplicateTags.map(({ tagId }) => tagId));
+      await tx.delete(leadTags).where(inArray(leadTags.leadId, duplicates));
+      await relinkDuplicatesOf(tx, duplicates);
+      await tx.delete(leads).where(and(inArray(leads.id, duplicateIds), leadOwnedBy(userId)));
+
+      const [merged] = await tx
+        .update(leads)
+        .set({ ...updates, isDuplicate: false, canonicalLeadId: null, updatedAt: new Date() })
+        .where(and(eq(leads.id, canonicalId), leadOwnedBy(userId)))
+        .returning();
+      return merged;
+    });
+  }
+
+  async saveLeadValidation(id: string, result: Pick<Lead, "isValidated" | "validationDetails">): Promise<void> {
+    await db
+      .update(leads)
+      .set({ ...result, validatedAt: new Date(), updatedAt: new Date() })
+      .where(eq(leads.id, id));
+  }
+
+  // The guards are repeated in SQL so an edit made while the site was being
+  // crawled still wins
+  async saveLeadEnrichment(
+    id: string,
+    updates: Partial<Pick<Lead, "email" | "phone" | "description" | "socialProfiles">>,
+    enrichment: LeadEnrichment,
+  ): Promise<Lead | undefined> {
+    const [updated] = await db
+      .update(leads)
+      .set({
+        email: fillIfUnedited(leads.email, "email", updates.email),
+        phone: fillIfUnedited(leads.phone, "phone", updates.phone),
+        description: fillIfUnedited(leads.description, "description", updates.description),
+        socialProfiles: updates.socialProfiles
+          ? sql`${JSON.stringify(updates.socialProfiles)}::jsonb || coalesce(${leads.socialProfiles}, '{}'::jsonb)`
+          : undefined,
+        enrichment,
+        enrichedAt: new Date(),
+        updatedAt: new Date(),
+      })
       .where(eq(leads.id, id))
       .returning();
     return updated;
   }
 
-  async deleteLead(id: string): Promise<void> {
-    await db.delete(leads).where(eq(leads.id, id));
+  // Scores are derived data, so updatedAt is left alone
+  async saveLeadScores(scores: Pick<Lead, "id" | "score" | "scoreBreakdown">[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { id, score, scoreBreakdown } of scores) {
+        await tx.update(leads).set({ score, scoreBreakdown }).where(eq(leads.id, id));
+      }
+    });
+  }
+
+  // Like scores, locations are derived data and leave updatedAt alone
+  async saveLeadLocations(locations: (Partial<LeadLocation> & { id: string })[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { id, ...location } of locations) {
+        await tx.update(leads).set(location).where(eq(leads.id, id));
+      }
+    });
+  }
+
+  // Newest first
+  async getLeadActivities(userId: string, leadId: string): Promise<LeadActivity[]> {
+    const activities = await db
+      .select(getTableColumns(leadActivities))
+      .from(leadActivities)
+      .innerJoin(leads, eq(leadActivities.leadId, leads.id))
+      .where(and(eq(leadActivities.leadId, leadId), leadOwnedBy(userId)))
+      .orderBy(desc(leadActivities.createdAt), desc(leadActivities.id));
+    return activities as LeadActivity[];
+  }
+
+  async createLeadActivities(activities: InsertLeadActivity[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < activities.length; i += 500) {
+        await tx.insert(leadActivities).values(activities.slice(i, i + 500));
+      }
+    });
   }
 
   async getLeadStats(userId: string): Promise<any> {
@@ -177,6 +1211,15 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
       .where(eq(campaigns.userId, userId));
 
+    const topCategories = await db
+      .select({ name: leads.category, count: count() })
+      .from(leads)
+      .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+      .where(and(eq(campaigns.userId, userId), isNotNull(leads.category)))
+      .groupBy(leads.category)
+      .orderBy(desc(count()))
+      .limit(5);
+
     return {
       totalLeads: totalLeads[0]?.count || 0,
       validatedLeads: validatedLeads[0]?.count || 0,
@@ -184,9 +1227,147 @@ export class DatabaseStorage implements IStorage {
       conversionRate: totalLeads[0]?.count > 0 
         ? ((validatedLeads[0]?.count || 0) / (totalLeads[0]?.count || 1) * 100).toFixed(1)
         : "0.0",
+      topCategories: topCategories.map((category) => ({
+        ...category,
+        percentage: totalLeads[0]?.count > 0 ? Math.round((category.count / totalLeads[0].count) * 100) : 0,
+      })),
     };
   }
 
+  // Alphabetical, with the number of leads carrying each tag
+  async getUserTags(userId: string): Promise<TagWithCount[]> {
+    return await db
+      .select({ ...getTableColumns(tags), leadCount: count(leadTags.leadId) })
+      .from(tags)
+      .leftJoin(leadTags, eq(leadTags.tagId, tags.id))
+      .where(eq(tags.userId, userId))
+      .groupBy(tags.id)
+      .orderBy(sql`lower(${tags.name})`);
+  }
+
+  async getUserTag(userId: string, id: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)));
+    return tag;
+  }
+
+  async getUserTagByName(userId: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.userId, userId), eq(sql`lower(${tags.name})`, name.toLowerCase())));
+    return tag;
+  }
+
+  async createTag(userId: string, tag: CreateTagRequest): Promise<Tag> {
+    const [newTag] = await db
+      .insert(tags)
+      .values({ ...tag, userId })
+      .returning();
+    return newTag;
+  }
+
+  async updateUserTag(userId: string, id: string, updates: UpdateTagRequest): Promise<Tag | undefined> {
+    const [updated] = await db
+      .update(tags)
+      .set(updates)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserTag(userId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [tag] = await tx
+        .select({ id: tags.id })
+        .from(tags)
+        .where(and(eq(tags.id, id), eq(tags.userId, userId)));
+      if (!tag) return false;
+
+      await tx.delete(leadTags).where(eq(leadTags.tagId, id));
+      await tx.delete(tags).where(eq(tags.id, id));
+      return true;
+    });
+  }
+
+  async mergeUserTags(userId: string, targetId: string, tagIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const merged = tx
+        .select({ id: tags.id })
+        .from(tags)
+        .where(and(inArray(tags.id, tagIds), eq(tags.userId, userId)));
+      const taggedLeads = await tx
+        .selectDistinct({ leadId: leadTags.leadId })
+        .from(leadTags)
+        .where(inArray(leadTags.tagId, merged));
+      await insertLeadTags(tx, taggedLeads.map(({ leadId }) => leadId), [targetId]);
+      await tx.delete(leadTags).where(inArray(leadTags.tagId, merged));
+      await tx.delete(tags).where(and(inArray(tags.id, tagIds), eq(tags.userId, userId)));
+    });
+  }
+
+  async setLeadTags(userId: string, leadId: string, names: string[]): Promise<LeadTag[]> {
+    return await db.transaction(async (tx) => {
+      const assigned = await ensureTags(tx, userId, names);
+      await tx.delete(leadTags).where(eq(leadTags.leadId, leadId));
+      await insertLeadTags(tx, [leadId], assigned.map((tag) => tag.id));
+      return assigned
+        .map(({ id, name, color }) => ({ id, name, color }))
+        .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+    });
+  }
+
+  async getUserSavedViews(userId: string): Promise<SavedView[]> {
+    return await db
+      .select()
+      .from(savedViews)
+      .where(eq(savedViews.userId, userId))
+      .orderBy(sql`lower(${savedViews.name})`);
+  }
+
+  async getUserSavedView(userId: string, id: string): Promise<SavedView | undefined> {
+    const [view] = await db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+    return view;
+  }
+
+  async getViewableSavedView(userId: string, id: string): Promise<SavedView | undefined> {
+    const [view] = await db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.id, id), or(eq(savedViews.userId, userId), eq(savedViews.shared, true))));
+    return view;
+  }
+
+  async createSavedView(userId: string, view: CreateSavedViewRequest): Promise<SavedView> {
+    const [created] = await db
+      .insert(savedViews)
+      .values({ ...view, userId })
+      .returning();
+    return created;
+  }
+
+  async updateUserSavedView(userId: string, id: string, updates: UpdateSavedViewRequest): Promise<SavedView | undefined> {
+    const [updated] = await db
+      .update(savedViews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserSavedView(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning({ id: savedViews.id });
+    return deleted.length > 0;
+  }
+
   async createFile(userId: string, file: InsertFile): Promise<File> {
     const [newFile] = await db
       .insert(files)
@@ -203,13 +1384,198 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(files.uploadedAt));
   }
 
-  async getFile(id: string): Promise<File | undefined> {
-    const [file] = await db.select().from(files).where(eq(files.id, id));
+  async getUserFile(userId: string, id: string): Promise<File | undefined> {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(and(eq(files.id, id), eq(files.userId, userId)));
     return file;
   }
 
-  async deleteFile(id: string): Promise<void> {
-    await db.delete(files).where(eq(files.id, id));
+  async deleteUserFile(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(files)
+      .where(and(eq(files.id, id), eq(files.userId, userId)))
+      .returning({ id: files.id });
+    return deleted.length > 0;
+  }
+
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db.insert(jobs).values(job).returning();
+    return newJob;
+  }
+
+  // Atomically takes the oldest runnable job. SKIP LOCKED lets several
+  // workers poll the same table without handing out a job twice.
+  async claimNextJob(workerId: string, filter: JobTypeFilter = {}): Promise<Job | undefined> {
+    const typeCondition = and(
+      filter.types ? inArray(jobs.type, filter.types) : undefined,
+      filter.excludeTypes?.length ? notInArray(jobs.type, filter.excludeTypes) : undefined,
+    ) ?? sql`true`;
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        lockedBy: workerId,
+        lockedAt: new Date(),
+        attempts: sql`${jobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(
+        eq(
+          jobs.id,
+          sql`(select ${jobs.id} from ${jobs}
+               where ${jobs.status} = 'queued' and ${jobs.runAfter} <= now() and ${typeCondition}
+               order by ${jobs.createdAt}
+               limit 1
+               for update skip locked)`,
+        ),
+      )
+      .returning();
+    return job;
+  }
+
+  async getActiveCampaignJob(campaignId: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.campaignId, campaignId), inArray(jobs.status, ACTIVE_JOB_STATUSES)))
+      .orderBy(desc(jobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job> {
+    const [updated] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getStaleJobs(heartbeatBefore: Date): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, heartbeatBefore)));
+  }
+
+  async requeuePausedCampaignJob(campaignId: string): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      // A pause is not a failed attempt, so give back the attempt the claim used
+      .set({
+        status: "queued",
+        attempts: sql`greatest(${jobs.attempts} - 1, 0)`,
+        runAfter: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(jobs.campaignId, campaignId), eq(jobs.status, "paused")))
+      .returning();
+    return job;
+  }
+
+  // Running jobs are left alone; the runner notices the cancelled campaign
+  // between pages and stops itself.
+  async cancelPendingCampaignJobs(campaignId: string): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ status: "cancelled", finishedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.campaignId, campaignId), inArray(jobs.status, ["queued", "paused"])));
+  }
+
+  // Persists one scraped page together with the campaign and job checkpoint,
+  // so a resumed job never re-inserts leads from a page it already saved.
+  async saveCampaignPage(
+    jobId: string,
+    campaignId: string,
+    pageLeads: (InsertLead & Partial<LeadLocation>)[],
+    checkpoint: Partial<Campaign> & { lastPage: number },
+    runCounts?: CampaignRunCounts,
+  ): Promise<Lead[]> {
+    const { lastPage, ...campaignUpdates } = checkpoint;
+    return await db.transaction(async (tx) => {
+      const inserted = pageLeads.length > 0
+        ? await tx.insert(leads).values(pageLeads.map((lead) => ({ ...lead, runId: runCounts?.runId }))).returning()
+        : [];
+      if (runCounts) {
+        await tx
+          .update(campaignRuns)
+          .set({
+            pagesFetched: runCounts.pagesFetched,
+            leadsFound: sql`${campaignRuns.leadsFound} + ${runCounts.leadsFound}`,
+            leadsNew: sql`${campaignRuns.leadsNew} + ${runCounts.leadsNew}`,
+            leadsDuplicate: sql`${campaignRuns.leadsDuplicate} + ${runCounts.leadsDuplicate}`,
+          })
+          // A closed run keeps the counts it was closed with
+          .where(and(eq(campaignRuns.id, runCounts.runId), eq(campaignRuns.status, "running")));
+      }
+      await tx
+        .update(campaigns)
+        .set({ ...campaignUpdates, updatedAt: new Date() })
+        .where(eq(campaigns.id, campaignId));
+      await tx
+        .update(jobs)
+        .set({ lastPage, lockedAt: new Date(), updatedAt: new Date() })
+        .where(eq(jobs.id, jobId));
+      return inserted;
+    });
+  }
+
+  // Campaigns left "running" without a queued or running job can never
+  // finish (e.g. runs started before the job queue existed).
+  async failOrphanedCampaigns(): Promise<Campaign[]> {
+    const orphaned = await db
+      .update(campaigns)
+      .set({ status: "failed", updatedAt: new Date() })
+      .where(
+        and(
+          eq(campaigns.status, "running"),
+          sql`not exists (select 1 from ${jobs}
+                          where ${jobs.campaignId} = ${campaigns.id}
+                          and ${jobs.status} in ('queued', 'running', 'paused'))`,
+        ),
+      )
+      .returning();
+    if (orphaned.length > 0) {
+      await db
+        .update(campaignRuns)
+        .set({ status: "failed", finishedAt: new Date() })
+        .where(
+          and(
+            inArray(campaignRuns.campaignId, orphaned.map((campaign) => campaign.id)),
+            eq(campaignRuns.status, "running"),
+          ),
+        );
+    }
+    return orphaned;
+  }
+
+  // Leads saved before tags had their own tables keep their tags as text.
+  // Each name becomes a tag of the campaign's owner and the text is cleared,
+  // so running this again only picks up what is left. Returns the number of
+  // leads converted.
+  async backfillLegacyLeadTags(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const pending = await tx
+        .select({ id: leads.id, legacyTags: leads.legacyTags, userId: campaigns.userId })
+        .from(leads)
+        .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+        .where(isNotNull(leads.legacyTags));
+      for (const lead of pending) {
+        const names = uniqueTagNames((lead.legacyTags ?? "").split(",").map((name) => name.trim().slice(0, 50)));
+        const leadTagList = await ensureTags(tx, lead.userId, names);
+        await insertLeadTags(tx, [lead.id], leadTagList.map((tag) => tag.id));
+      }
+      if (pending.length > 0) {
+        await tx
+          .update(leads)
+          .set({ legacyTags: null })
+          .where(inArray(leads.id, pending.map((lead) => lead.id)));
+      }
+      return pending.length;
+    });
   }
 }
 
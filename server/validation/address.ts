@@ -0,0 +1,38 @@
+import type { Lead } from "@shared/schema";
+import type { LeadCheck } from "./types";
+
+const US_ZIP = /^\d{5}(-\d{4})?$/;
+
+const PARTS: { key: "address" | "city" | "state" | "zipCode"; label: string }[] = [
+  { key: "address", label: "street address" },
+  { key: "city", label: "city" },
+  { key: "state", label: "state" },
+  { key: "zipCode", label: "ZIP code" },
+];
+
+// An address is complete when it has a street, city, state and US ZIP code
+export const addressCheck: LeadCheck = {
+  field: "address",
+
+  async check(lead) {
+    const present = PARTS.filter(({ key }) => lead[key]?.trim());
+    if (present.length === 0) {
+      return { status: "missing" };
+    }
+
+    const missing = PARTS.filter((part) => !present.includes(part)).map(({ label }) => label);
+    if (missing.length > 0) {
+      return { status: "invalid", message: `Missing ${missing.join(", ")}` };
+    }
+
+    const zipCode = lead.zipCode!.trim();
+    if (!US_ZIP.test(zipCode)) {
+      return { status: "invalid", message: `"${zipCode}" is not a valid ZIP code` };
+    }
+    return { status: "valid", normalized: formatAddress(lead) };
+  },
+};
+
+function formatAddress(lead: Lead): string {
+  return `${lead.address!.trim()}, ${lead.city!.trim()}, ${lead.state!.trim()} ${lead.zipCode!.trim()}`;
+}
@@ -0,0 +1,73 @@
+import { promises as dns } from "dns";
+import type { FieldValidation, Lead } from "@shared/schema";
+import type { LeadCheck } from "./types";
+
+export type MxResolver = (domain: string) => Promise<{ exchange: string; priority: number }[]>;
+
+export interface EmailCheckOptions {
+  // Defaults to the system resolver; pass null to check syntax only
+  resolveMx?: MxResolver | null;
+}
+
+// Deliberately loose: one @, no whitespace, a dotted domain with a
+// 2+ letter TLD. Anything stricter rejects real-world addresses.
+const EMAIL_SYNTAX = /^[^\s@]+@([a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+// DNS errors that mean the domain can't receive mail, as opposed to a
+// lookup that failed for unrelated reasons
+const NO_MAIL_ERRORS = new Set(["ENOTFOUND", "ENODATA"]);
+
+const MX_CACHE_LIMIT = 1000;
+
+export class EmailCheck implements LeadCheck {
+  field = "email" as const;
+
+  private resolveMx: MxResolver | null;
+  // Many leads share a mail provider, so lookups are memoised per domain
+  private mxCache = new Map<string, Promise<FieldValidation>>();
+
+  constructor(options: EmailCheckOptions = {}) {
+    this.resolveMx = options.resolveMx === undefined ? dns.resolveMx : options.resolveMx;
+  }
+
+  async check(lead: Lead): Promise<FieldValidation> {
+    const email = lead.email?.trim().toLowerCase();
+    if (!email) {
+      return { status: "missing" };
+    }
+    if (!EMAIL_SYNTAX.test(email)) {
+      return { status: "invalid", message: "Not a valid email address" };
+    }
+    if (!this.resolveMx) {
+      return { status: "valid", message: "Syntax only; MX lookup skipped", normalized: email };
+    }
+
+    const domain = email.slice(email.indexOf("@") + 1);
+    let result = this.mxCache.get(domain);
+    if (!result) {
+      if (this.mxCache.size >= MX_CACHE_LIMIT) {
+        this.mxCache.clear();
+      }
+      result = this.lookupMx(this.resolveMx, domain);
+      this.mxCache.set(domain, result);
+    }
+    return { ...(await result), normalized: email };
+  }
+
+  private async lookupMx(resolveMx: MxResolver, domain: string): Promise<FieldValidation> {
+    try {
+      const records = await resolveMx(domain);
+      return records.length > 0
+        ? { status: "valid" }
+        : { status: "invalid", message: `${domain} has no mail servers` };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code && NO_MAIL_ERRORS.has(code)) {
+        return { status: "invalid", message: `${domain} has no mail servers` };
+      }
+      // Transient failures shouldn't stick to every lead on the domain
+      this.mxCache.delete(domain);
+      return { status: "unverified", message: `MX lookup failed (${code ?? "unknown error"})` };
+    }
+  }
+}
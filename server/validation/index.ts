@@ -0,0 +1,53 @@
+import type { Lead, LeadValidationDetails, ValidatedLeadField } from "@shared/schema";
+import type { LeadCheck } from "./types";
+import { EmailCheck } from "./email";
+import { PhoneCheck } from "./phone";
+import { WebsiteCheck } from "./website";
+import { addressCheck } from "./address";
+
+export type { LeadCheck } from "./types";
+
+// Fields through which a lead can be reached; the address is reported but
+// doesn't decide whether a lead counts as validated
+const CONTACT_FIELDS: ValidatedLeadField[] = ["email", "phone", "website"];
+
+const checks = new Map<ValidatedLeadField, LeadCheck>();
+
+export function registerValidationCheck(check: LeadCheck) {
+  checks.set(check.field, check);
+}
+
+export interface LeadValidationResult {
+  isValidated: boolean;
+  validationDetails: LeadValidationDetails;
+}
+
+// Runs every registered check. A lead is validated when at least one of
+// its contact details checks out and none is known to be bad.
+export async function validateLead(lead: Lead): Promise<LeadValidationResult> {
+  const results = await Promise.all(
+    Array.from(checks.values()).map(async (check) => {
+      try {
+        return [check.field, await check.check(lead)] as const;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return [check.field, { status: "unverified", message }] as const;
+      }
+    }),
+  );
+
+  const validationDetails: LeadValidationDetails = Object.fromEntries(results);
+  const contactStatuses = CONTACT_FIELDS.map((field) => validationDetails[field]?.status);
+  return {
+    isValidated: contactStatuses.includes("valid") && !contactStatuses.includes("invalid"),
+    validationDetails,
+  };
+}
+
+// VALIDATION_OFFLINE=true skips DNS and HTTP lookups (local development, CI)
+const offline = process.env.VALIDATION_OFFLINE === "true";
+
+registerValidationCheck(new EmailCheck({ resolveMx: offline ? null : undefined }));
+registerValidationCheck(new PhoneCheck());
+registerValidationCheck(new WebsiteCheck({ offline }));
+registerValidationCheck(addressCheck);
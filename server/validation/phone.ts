@@ -0,0 +1,34 @@
+import { parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+import type { FieldValidation, Lead } from "@shared/schema";
+import type { LeadCheck } from "./types";
+
+export interface PhoneCheckOptions {
+  // Region assumed for numbers written without a country code
+  defaultCountry?: CountryCode;
+}
+
+export class PhoneCheck implements LeadCheck {
+  field = "phone" as const;
+
+  private defaultCountry: CountryCode;
+
+  constructor(options: PhoneCheckOptions = {}) {
+    this.defaultCountry = options.defaultCountry ?? "US";
+  }
+
+  async check(lead: Lead): Promise<FieldValidation> {
+    const phone = lead.phone?.trim();
+    if (!phone) {
+      return { status: "missing" };
+    }
+
+    const parsed = parsePhoneNumberFromString(phone, this.defaultCountry);
+    if (!parsed) {
+      return { status: "invalid", message: "Not a phone number" };
+    }
+    if (!parsed.isValid()) {
+      return { status: "invalid", message: `Not a valid ${parsed.country ?? this.defaultCountry} number` };
+    }
+    return { status: "valid", normalized: parsed.number };
+  }
+}
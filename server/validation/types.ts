@@ -0,0 +1,7 @@
+import type { FieldValidation, Lead, ValidatedLeadField } from "@shared/schema";
+
+export interface LeadCheck {
+  field: ValidatedLeadField;
+  // Reports "missing" when the lead has nothing to check
+  check(lead: Lead): Promise<FieldValidation>;
+}
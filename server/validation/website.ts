@@ -0,0 +1,81 @@
+import type { FieldValidation, Lead } from "@shared/schema";
+import type { LeadCheck } from "./types";
+import { BlockedAddressError, publicFetch } from "../publicFetch";
+
+export interface WebsiteCheckOptions {
+  fetch?: typeof fetch;
+  // Reports every website as unverified instead of requesting it
+  offline?: boolean;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+// Servers that refuse HEAD get a second chance with GET
+const HEAD_UNSUPPORTED = new Set([403, 405, 501]);
+
+export class WebsiteCheck implements LeadCheck {
+  field = "website" as const;
+
+  private fetchImpl: typeof fetch;
+  private offline: boolean;
+  private timeoutMs: number;
+
+  constructor(options: WebsiteCheckOptions = {}) {
+    this.fetchImpl = options.fetch ?? publicFetch;
+    this.offline = options.offline ?? false;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async check(lead: Lead): Promise<FieldValidation> {
+    const website = lead.website?.trim();
+    if (!website) {
+      return { status: "missing" };
+    }
+
+    let url: URL;
+    try {
+      url = new URL(/^[a-z]+:\/\//i.test(website) ? website : `http://${website}`);
+    } catch {
+      return { status: "invalid", message: "Not a valid URL" };
+    }
+    if ((url.protocol !== "http:" && url.protocol !== "https:") || !url.hostname.includes(".")) {
+      return { status: "invalid", message: "Not a valid website address" };
+    }
+    if (this.offline) {
+      return { status: "unverified", message: "Reachability check skipped", normalized: url.toString() };
+    }
+
+    try {
+      let response = await this.request(url, "HEAD");
+      if (HEAD_UNSUPPORTED.has(response.status)) {
+        response = await this.request(url, "GET");
+      }
+      // Redirects are followed, so report where the site actually lives
+      const normalized = response.url || url.toString();
+      return response.ok
+        ? { status: "valid", normalized }
+        : { status: "invalid", message: `Responded with ${response.status}`, normalized };
+    } catch (error) {
+      if (error instanceof BlockedAddressError) {
+        return { status: "invalid", message: "Not a public website address", normalized: url.toString() };
+      }
+      if (error instanceof Error && error.name === "TimeoutError") {
+        return { status: "unverified", message: "Timed out", normalized: url.toString() };
+      }
+      const cause = error instanceof Error ? (error.cause as Error | undefined)?.message ?? error.message : String(error);
+      return { status: "invalid", message: `Unreachable (${cause})`, normalized: url.toString() };
+    }
+  }
+
+  private async request(url: URL, method: "HEAD" | "GET"): Promise<Response> {
+    const response = await this.fetchImpl(url, {
+      method,
+      redirect: "follow",
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    // Only the status matters; don't download the page
+    await response.body?.cancel().catch(() => {});
+    return response;
+  }
+}
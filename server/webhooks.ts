@@ -0,0 +1,140 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type { Job, WebhookEvent } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobQueue";
+import { BlockedAddressError, assertPublicUrl, publicFetch } from "./publicFetch";
+
+export const WEBHOOK_DELIVERY_JOB = "webhook_delivery";
+
+// Retries use the job queue's exponential backoff (5s, 10s, 20s, 40s)
+const MAX_ATTEMPTS = 5;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Stored response bodies are cut off so a chatty endpoint can't bloat the history
+const RESPONSE_BODY_LIMIT = 1000;
+
+export function generateWebhookSecret(): string {
+  return "whsec_" + randomBytes(24).toString("hex");
+}
+
+// Receivers verify HMAC-SHA256(secret, "<timestamp>.<body>") against the
+// X-Webhook-Signature header and reject stale timestamps
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Why the URL can't receive webhooks, or undefined when it can. The target is
+// checked again on every delivery, as DNS may change after the webhook is saved.
+export async function webhookUrlProblem(url: string): Promise<string | undefined> {
+  try {
+    await assertPublicUrl(url);
+    return undefined;
+  } catch (error) {
+    if (error instanceof BlockedAddressError) {
+      return "Webhooks can't be sent to private or local addresses";
+    }
+    return `Couldn't resolve ${new URL(url).hostname}`;
+  }
+}
+
+// Queues a delivery of the event to every active webhook of the user that
+// subscribes to it. Never throws, so callers can fire and forget.
+export async function emitWebhookEvent(userId: string, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const subscriptions = await storage.getSubscribedWebhooks(userId, event);
+    for (const webhook of subscriptions) {
+      const id = randomUUID();
+      await storage.createWebhookDelivery({
+        id,
+        webhookId: webhook.id,
+        event,
+        payload: { id, event, createdAt: new Date().toISOString(), data },
+      });
+      await storage.enqueueJob({
+        type: WEBHOOK_DELIVERY_JOB,
+        userId,
+        payload: { deliveryId: id },
+        maxAttempts: MAX_ATTEMPTS,
+      });
+    }
+  } catch (error) {
+    console.error(`Error queueing ${event} webhooks:`, error);
+  }
+}
+
+const deliveryId = (job: Job) => (job.payload as { deliveryId: string }).deliveryId;
+
+async function deliver(job: Job): Promise<void> {
+  const found = await storage.getWebhookDelivery(deliveryId(job));
+  if (!found) {
+    // The webhook was deleted along with its history
+    return;
+  }
+
+  const { delivery, webhook } = found;
+  if (!webhook.active) {
+    await storage.updateWebhookDelivery(delivery.id, { status: "failed", error: "Webhook was disabled" });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempt = { attempts: job.attempts, lastAttemptAt: new Date() };
+
+  let response: Response;
+  try {
+    response = await publicFetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Retrying won't make a private address public
+    const blocked = error instanceof BlockedAddressError;
+    await storage.updateWebhookDelivery(delivery.id, {
+      ...attempt,
+      ...(blocked ? { status: "failed" } : {}),
+      responseStatus: null,
+      responseBody: null,
+      error: message,
+    });
+    if (blocked) return;
+    throw error;
+  }
+
+  const responseBody = (await response.text().catch(() => "")).slice(0, RESPONSE_BODY_LIMIT);
+  if (!response.ok) {
+    const message = `Endpoint responded with ${response.status}`;
+    await storage.updateWebhookDelivery(delivery.id, {
+      ...attempt,
+      responseStatus: response.status,
+      responseBody,
+      error: message,
+    });
+    throw new Error(message);
+  }
+
+  await storage.updateWebhookDelivery(delivery.id, {
+    ...attempt,
+    status: "succeeded",
+    responseStatus: response.status,
+    responseBody,
+    error: null,
+  });
+}
+
+export const webhookDeliveryJobHandler: JobHandler = {
+  run: deliver,
+
+  async onFailed(job, error) {
+    await storage.updateWebhookDelivery(deliveryId(job), { status: "failed", error });
+  },
+};
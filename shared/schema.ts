@@ -1,6 +1,8 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
+  primaryKey,
   jsonb,
   pgTable,
   timestamp,
@@ -9,6 +11,8 @@ import {
   integer,
   boolean,
   decimal,
+  doublePrecision,
+  type PgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -36,47 +40,217 @@ export const users = pgTable("users", {
 });
 
 // Lead Generation Campaigns
-export const campaigns = pgTable("campaigns", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  name: varchar("name").notNull(),
-  businessCategory: varchar("business_category").notNull(),
-  location: varchar("location").notNull(),
-  radius: integer("radius").notNull(),
-  scrapingMode: varchar("scraping_mode").notNull(),
-  pageLimit: integer("page_limit").default(50),
-  delay: decimal("delay", { precision: 3, scale: 1 }).default("1.5"),
-  status: varchar("status").notNull().default("draft"), // draft, running, completed, failed
-  progress: integer("progress").default(0),
-  totalPages: integer("total_pages").default(0),
-  leadsFound: integer("leads_found").default(0),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const campaigns = pgTable(
+  "campaigns",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    businessCategory: varchar("business_category").notNull(),
+    location: varchar("location").notNull(),
+    radius: integer("radius").notNull(),
+    // Centre of the search area, geocoded from location
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    // flag or exclude: what happens to scraped leads beyond the radius
+    outsideRadiusAction: varchar("outside_radius_action").notNull().default("flag"),
+    scrapingMode: varchar("scraping_mode").notNull(),
+    scraperProvider: varchar("scraper_provider").notNull().default("debug"),
+    pageLimit: integer("page_limit").default(50),
+    delay: decimal("delay", { precision: 3, scale: 1 }).default("1.5"),
+    status: varchar("status").notNull().default("draft"), // draft, running, paused, completed, cancelled, failed
+    progress: integer("progress").default(0),
+    totalPages: integer("total_pages").default(0),
+    leadsFound: integer("leads_found").default(0),
+    // One-off or recurring; null for campaigns that are only started by hand
+    schedule: jsonb("schedule").$type<CampaignSchedule>(),
+    // When the scheduler next starts a run; null once nothing is due
+    nextRunAt: timestamp("next_run_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_campaigns_user").on(table.userId),
+    index("IDX_campaigns_next_run").on(table.nextRunAt),
+  ],
+);
+
+// One execution of a campaign, started by hand or by its schedule
+export const campaignRuns = pgTable(
+  "campaign_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    campaignId: varchar("campaign_id").notNull().references(() => campaigns.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    trigger: varchar("trigger").notNull(), // manual, scheduled
+    status: varchar("status").notNull().default("running"), // running, completed, cancelled, failed
+    // The campaign's search settings when the run started
+    parameters: jsonb("parameters").$type<CampaignRunParameters>().notNull(),
+    pagesFetched: integer("pages_fetched").notNull().default(0),
+    // Scraped leads within the radius: new ones are saved, duplicates are
+    // ones the campaign already had from an earlier run
+    leadsFound: integer("leads_found").notNull().default(0),
+    leadsNew: integer("leads_new").notNull().default(0),
+    leadsDuplicate: integer("leads_duplicate").notNull().default(0),
+    // Failed attempts, including ones the run recovered from on retry
+    errors: jsonb("errors").$type<CampaignRunError[]>().notNull().default([]),
+    startedAt: timestamp("started_at").defaultNow(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [index("IDX_campaign_runs_campaign_started").on(table.campaignId, table.startedAt)],
+);
+
+// Full-text document searched by the lead query API. The GIN index below
+// is built from the same expression so the planner can use it.
+export function leadSearchDocument(columns: {
+  businessName: PgColumn;
+  category: PgColumn;
+  city: PgColumn;
+  state: PgColumn;
+  email: PgColumn;
+  notes: PgColumn;
+}) {
+  return sql`to_tsvector('simple',
+    coalesce(${columns.businessName}, '') || ' ' || coalesce(${columns.category}, '') || ' ' ||
+    coalesce(${columns.city}, '') || ' ' || coalesce(${columns.state}, '') || ' ' ||
+    coalesce(${columns.email}, '') || ' ' || coalesce(${columns.notes}, ''))`;
+}
 
 // Generated Leads
-export const leads = pgTable("leads", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  campaignId: varchar("campaign_id").notNull().references(() => campaigns.id),
-  businessName: varchar("business_name").notNull(),
-  category: varchar("category"),
-  phone: varchar("phone"),
-  email: varchar("email"),
-  website: varchar("website"),
-  address: text("address"),
-  city: varchar("city"),
-  state: varchar("state"),
-  zipCode: varchar("zip_code"),
-  rating: decimal("rating", { precision: 2, scale: 1 }),
-  reviewCount: integer("review_count"),
-  isValidated: boolean("is_validated").default(false),
-  isDuplicate: boolean("is_duplicate").default(false),
-  notes: text("notes"),
-  tags: text("tags"),
-  contactStatus: varchar("contact_status").default("not_contacted"), // not_contacted, contacted, interested, not_interested
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const leads = pgTable(
+  "leads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    campaignId: varchar("campaign_id").notNull().references(() => campaigns.id),
+    businessName: varchar("business_name").notNull(),
+    category: varchar("category"),
+    phone: varchar("phone"),
+    email: varchar("email"),
+    website: varchar("website"),
+    address: text("address"),
+    city: varchar("city"),
+    state: varchar("state"),
+    zipCode: varchar("zip_code"),
+    rating: decimal("rating", { precision: 2, scale: 1 }),
+    reviewCount: integer("review_count"),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    geocodePrecision: varchar("geocode_precision"), // address, zip, city
+    geocodedAt: timestamp("geocoded_at"),
+    // Miles from the campaign centre; null until both ends are geocoded
+    distanceMiles: doublePrecision("distance_miles"),
+    outsideRadius: boolean("outside_radius").default(false),
+    isValidated: boolean("is_validated").default(false),
+    // Per-field results of the last validation run
+    validationDetails: jsonb("validation_details").$type<LeadValidationDetails>(),
+    validatedAt: timestamp("validated_at"),
+    // 0-100 from the owner's scoring rules; null until first scored
+    score: integer("score"),
+    scoreBreakdown: jsonb("score_breakdown").$type<LeadScoreBreakdown>(),
+    isDuplicate: boolean("is_duplicate").default(false),
+    // Set on duplicates; points at the lead the group is merged into
+    canonicalLeadId: varchar("canonical_lead_id"),
+    // The campaign run that scraped the lead; null for imported leads
+    runId: varchar("run_id").references(() => campaignRuns.id),
+    description: text("description"),
+    socialProfiles: jsonb("social_profiles").$type<SocialProfiles>(),
+    // Pages crawled by the last website enrichment and where each value came from
+    enrichment: jsonb("enrichment").$type<LeadEnrichment>(),
+    enrichedAt: timestamp("enriched_at"),
+    // Fields changed by the user, which enrichment must leave alone
+    editedFields: text("edited_fields").array(),
+    notes: text("notes"),
+    // Comma-separated tags from before tags had their own tables. Copied into
+    // tags/lead_tags and cleared at startup; drop the column once every
+    // database has been through that.
+    legacyTags: text("tags"),
+    // Key of the owner's pipeline stage the lead is in
+    contactStatus: varchar("contact_status").default("not_contacted"),
+    stageChangedAt: timestamp("stage_changed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_leads_campaign_created").on(table.campaignId, table.createdAt),
+    index("IDX_leads_contact_status").on(table.contactStatus),
+    index("IDX_leads_category").on(table.category),
+    index("IDX_leads_location").on(sql`lower(${table.city})`, table.state),
+    index("IDX_leads_rating").on(table.rating),
+    index("IDX_leads_canonical").on(table.canonicalLeadId),
+    index("IDX_leads_run").on(table.runId),
+    index("IDX_leads_score").on(table.score),
+    index("IDX_leads_distance").on(table.distanceMiles),
+    index("IDX_leads_search").using("gin", leadSearchDocument(table)),
+  ],
+);
+
+// History shown on the lead's timeline. Activities follow their lead when
+// duplicates are merged and are deleted with it.
+export const leadActivities = pgTable(
+  "lead_activities",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    leadId: varchar("lead_id").notNull().references(() => leads.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: varchar("type").notNull().$type<LeadActivityType>(),
+    details: jsonb("details").notNull().$type<LeadActivityDetails[LeadActivityType]>(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_lead_activities_lead_created").on(table.leadId, table.createdAt)],
+);
+
+// Per-user lead labels; names are unique per user regardless of case
+export const tags = pgTable(
+  "tags",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    color: varchar("color").notNull().default("#6b7280"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_tags_user_name").on(table.userId, sql`lower(${table.name})`)],
+);
+
+export const leadTags = pgTable(
+  "lead_tags",
+  {
+    leadId: varchar("lead_id").notNull().references(() => leads.id),
+    tagId: varchar("tag_id").notNull().references(() => tags.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.leadId, table.tagId] }),
+    index("IDX_lead_tags_tag").on(table.tagId),
+  ],
+);
+
+// Durable background jobs (campaign runs and other long-running work)
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: varchar("type").notNull(), // campaign_run, webhook_delivery, lead_validation, lead_enrichment, lead_scoring
+    userId: varchar("user_id").notNull().references(() => users.id),
+    campaignId: varchar("campaign_id").references(() => campaigns.id),
+    payload: jsonb("payload"),
+    status: varchar("status").notNull().default("queued"), // queued, running, paused, completed, cancelled, failed
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    lastPage: integer("last_page").notNull().default(0),
+    error: text("error"),
+    runAfter: timestamp("run_after").defaultNow(),
+    lockedBy: varchar("locked_by"),
+    lockedAt: timestamp("locked_at"),
+    finishedAt: timestamp("finished_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_jobs_status_run_after").on(table.status, table.runAfter),
+    index("IDX_jobs_campaign").on(table.campaignId),
+  ],
+);
 
 // File Management
 export const files = pgTable("files", {
@@ -90,22 +264,160 @@ export const files = pgTable("files", {
   uploadedAt: timestamp("uploaded_at").defaultNow(),
 });
 
+// Per-user preferences edited on the Settings page
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  notifications: jsonb("notifications").$type<UserSettings["notifications"]>().notNull(),
+  scraping: jsonb("scraping").$type<UserSettings["scraping"]>().notNull(),
+  export: jsonb("export").$type<UserSettings["export"]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-user weights for lead scoring
+export const leadScoringRules = pgTable("lead_scoring_rules", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  rules: jsonb("rules").$type<ScoringRules>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const leadPipelines = pgTable("lead_pipelines", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  stages: jsonb("stages").$type<PipelineStage[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Personal API keys. Only a SHA-256 hash of the key is stored; the prefix
+// is kept so users can tell their keys apart.
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    prefix: varchar("prefix").notNull(),
+    keyHash: varchar("key_hash").notNull(),
+    scopes: text("scopes").array().notNull(), // leads:read, leads:write, campaigns:run
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_api_keys_hash").on(table.keyHash),
+    index("IDX_api_keys_user").on(table.userId),
+  ],
+);
+
+// Outbound webhook subscriptions. The secret signs every delivery.
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    url: varchar("url").notNull(),
+    secret: varchar("secret").notNull(),
+    events: text("events").array().notNull(),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_webhooks_user").on(table.userId)],
+);
+
+// One row per event sent to a webhook, updated after every attempt
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    webhookId: varchar("webhook_id").notNull().references(() => webhooks.id),
+    event: varchar("event").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status").notNull().default("pending"), // pending, succeeded, failed
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+  },
+  (table) => [index("IDX_webhook_deliveries_webhook_created").on(table.webhookId, table.createdAt)],
+);
+
+// Named Results setups: the lead query as query parameters (filters and
+// sort) and the optional table columns shown
+export const savedViews = pgTable(
+  "saved_views",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    query: jsonb("query").$type<SavedViewQuery>().notNull(),
+    columns: text("columns").array().$type<LeadColumn[]>().notNull(),
+    pinned: boolean("pinned").notNull().default(false),
+    // Shared views can be opened by anyone signed in who has the link
+    shared: boolean("shared").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_saved_views_user").on(table.userId)],
+);
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
-export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+export const outsideRadiusActions = ["flag", "exclude"] as const;
+export type OutsideRadiusAction = (typeof outsideRadiusActions)[number];
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  // Stored as decimal(3,1) but submitted as a number of seconds
+  delay: z.coerce.number().min(0.5).max(10).transform(String).optional(),
+  outsideRadiusAction: z.enum(outsideRadiusActions).optional(),
+}).omit({
   id: true,
   userId: true,
+  latitude: true,
+  longitude: true,
+  // Set through PUT /api/campaigns/:id/schedule
+  schedule: true,
+  nextRunAt: true,
+  // Run state only moves through the start/pause/resume/cancel routes
+  status: true,
+  progress: true,
+  totalPages: true,
+  leadsFound: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Validation, enrichment, scoring and geocoding results, and the run that
+// scraped a lead, are only ever written by their pipelines
 export const insertLeadSchema = createInsertSchema(leads).omit({
   id: true,
+  latitude: true,
+  longitude: true,
+  geocodePrecision: true,
+  geocodedAt: true,
+  distanceMiles: true,
+  outsideRadius: true,
+  validationDetails: true,
+  validatedAt: true,
+  socialProfiles: true,
+  enrichment: true,
+  enrichedAt: true,
+  editedFields: true,
+  score: true,
+  scoreBreakdown: true,
+  stageChangedAt: true,
+  runId: true,
+  legacyTags: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Ownership-related columns can't be changed through an update
+export const updateCampaignSchema = insertCampaignSchema.partial();
+
+export const updateLeadSchema = insertLeadSchema.omit({ campaignId: true, canonicalLeadId: true }).partial();
+
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
   userId: true,
@@ -114,7 +426,749 @@ export const insertFileSchema = createInsertSchema(files).omit({
 
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
+export type CampaignRun = typeof campaignRuns.$inferSelect;
+export type InsertCampaignRun = typeof campaignRuns.$inferInsert;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
 export type InsertFile = z.infer<typeof insertFileSchema>;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
 export type File = typeof files.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type SavedView = typeof savedViews.$inferSelect;
+
+// Lead query API (GET /api/leads)
+export const leadSortFields = [
+  "createdAt",
+  "businessName",
+  "category",
+  "city",
+  "state",
+  "rating",
+  "reviewCount",
+  "contactStatus",
+  "score",
+  "distance",
+] as const;
+export type LeadSortField = (typeof leadSortFields)[number];
+
+// Accepts a repeated query parameter (?city=a&city=b) or a single value
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]).map((item) => item.trim()).filter(Boolean))
+  .optional();
+
+const leadSortParam = z.string().transform((value, ctx) => {
+  const [field, direction = "asc"] = value.split(":");
+  if (!leadSortFields.includes(field as LeadSortField) || (direction !== "asc" && direction !== "desc")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid sort "${value}"` });
+    return z.NEVER;
+  }
+  return { field: field as LeadSortField, direction: direction as "asc" | "desc" };
+});
+
+// Polygon vertices as "lat,lng;lat,lng;..."; at least a triangle
+const polygonParam = z.string().transform((value, ctx) => {
+  const points = value.split(";").filter(Boolean).map((pair) => pair.split(",").map(Number));
+  const valid = points.every(
+    (point) => point.length === 2 && Math.abs(point[0]) <= 90 && Math.abs(point[1]) <= 180,
+  );
+  if (!valid || points.length < 3 || points.length > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Expected 3 to 100 lat,lng points separated by ;" });
+    return z.NEVER;
+  }
+  return points.map(([latitude, longitude]) => ({ latitude, longitude }));
+});
+
+export type GeoPolygon = z.infer<typeof polygonParam>;
+
+export const leadQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  q: z.string().trim().optional(),
+  isValidated: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  isDuplicate: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  outsideRadius: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  contactStatus: listParam,
+  category: listParam,
+  city: listParam,
+  state: listParam,
+  campaignId: listParam,
+  // Only leads scraped by these campaign runs
+  runId: listParam,
+  // Only these leads
+  id: listParam,
+  tags: listParam,
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  maxRating: z.coerce.number().min(0).max(5).optional(),
+  // Only leads located inside the polygon
+  polygon: polygonParam.optional(),
+  sort: z
+    .union([leadSortParam, z.array(leadSortParam)])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .optional(),
+});
+
+export type LeadQuery = z.infer<typeof leadQuerySchema>;
+export type LeadQueryParams = z.input<typeof leadQuerySchema>;
+
+// The filters alone, for acting on every lead that matches
+export const leadFilterSchema = leadQuerySchema.omit({ cursor: true, limit: true, sort: true });
+
+// A tag as listed on a lead
+export type LeadTag = Pick<Tag, "id" | "name" | "color">;
+
+// Leads read through the API come with their tags, sorted by name
+export type TaggedLead = Lead & { tags: LeadTag[] };
+
+export interface LeadPage {
+  leads: TaggedLead[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Lead map API (GET /api/leads/map)
+export type LeadMapPoint = Pick<
+  Lead,
+  "id" | "campaignId" | "businessName" | "contactStatus" | "outsideRadius"
+> & { latitude: number; longitude: number };
+
+export interface LeadMapData {
+  points: LeadMapPoint[];
+  // Located leads matching the filters; points stops at the server's limit
+  total: number;
+}
+
+// Lead export API (GET /api/leads/export)
+export const exportFormats = ["csv", "xlsx", "json", "vcard"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+const booleanParam = z.enum(["true", "false"]).transform((value) => value === "true");
+
+export const leadExportQuerySchema = leadQuerySchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(exportFormats).optional(),
+  includeMetadata: booleanParam.optional(),
+  compress: booleanParam.optional(),
+});
+
+export type LeadExportQuery = z.infer<typeof leadExportQuerySchema>;
+export type LeadExportParams = z.input<typeof leadExportQuerySchema>;
+
+// Lead import API (POST /api/files/:id/import)
+export const importableLeadFields = [
+  "businessName",
+  "category",
+  "phone",
+  "email",
+  "website",
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "rating",
+  "reviewCount",
+  "contactStatus",
+  "tags",
+  "notes",
+] as const;
+export type ImportableLeadField = (typeof importableLeadFields)[number];
+
+// Maps lead fields to the spreadsheet column header they are read from
+export type ImportColumnMapping = Partial<Record<ImportableLeadField, string>>;
+
+// Spreadsheet cells arrive as text; numeric columns are coerced and checked.
+// The campaign is chosen for the whole import, not per row, and tags are
+// read as a comma-separated list.
+export const importLeadRowSchema = insertLeadSchema.omit({ campaignId: true }).extend({
+  businessName: z.string({ required_error: "Required" }).trim().min(1, "Required"),
+  email: z.string().trim().email("Invalid email address").optional(),
+  rating: z.coerce.number({ invalid_type_error: "Must be a number" }).min(0).max(5).transform(String).optional(),
+  reviewCount: z.coerce.number({ invalid_type_error: "Must be a number" }).int().min(0).optional(),
+  tags: z
+    .string()
+    .transform((value) => uniqueTagNames(value.split(",")))
+    .pipe(z.array(z.string().max(50, "Tags can be at most 50 characters")))
+    .optional(),
+});
+
+export const leadImportSchema = z
+  .object({
+    mapping: z.record(z.enum(importableLeadFields), z.string().min(1)),
+    campaignId: z.string().optional(),
+    newCampaign: insertCampaignSchema.pick({ name: true, businessCategory: true, location: true }).optional(),
+  })
+  .refine((value) => value.mapping.businessName, {
+    message: "Map a column to Business Name",
+    path: ["mapping"],
+  })
+  .refine((value) => Boolean(value.campaignId) !== Boolean(value.newCampaign), {
+    message: "Choose an existing campaign or create a new one",
+    path: ["campaignId"],
+  });
+
+export type ImportedLead = z.infer<typeof importLeadRowSchema>;
+export type LeadImportRequest = z.infer<typeof leadImportSchema>;
+
+export interface FilePreview {
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+  suggestedMapping: ImportColumnMapping;
+}
+
+export interface ImportRowError {
+  // Row number as shown in a spreadsheet, counting the header row
+  row: number;
+  errors: string[];
+}
+
+export interface LeadImportResult {
+  // Null when no row was valid and no campaign had to be created
+  campaignId: string | null;
+  imported: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+// User settings API (GET/PUT /api/settings)
+export const userSettingsSchema = z.object({
+  notifications: z.object({
+    emailAlerts: z.boolean(),
+    campaignComplete: z.boolean(),
+    weeklyReports: z.boolean(),
+    systemUpdates: z.boolean(),
+  }),
+  scraping: z.object({
+    defaultMode: z.enum(["fast", "standard", "thorough", "debug"]),
+    defaultDelay: z.number().min(0.5).max(10),
+    defaultPageLimit: z.number().int().min(1).max(200),
+    autoValidation: z.boolean(),
+  }),
+  export: z.object({
+    defaultFormat: z.enum(exportFormats),
+    includeMetadata: z.boolean(),
+    compressFiles: z.boolean(),
+  }),
+});
+
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+
+// Used until the user saves their own settings
+export const defaultUserSettings: UserSettings = {
+  notifications: {
+    emailAlerts: true,
+    campaignComplete: true,
+    weeklyReports: false,
+    systemUpdates: true,
+  },
+  scraping: {
+    defaultMode: "standard",
+    defaultDelay: 1.5,
+    defaultPageLimit: 50,
+    autoValidation: true,
+  },
+  export: {
+    defaultFormat: "csv",
+    includeMetadata: true,
+    compressFiles: false,
+  },
+};
+
+// API key management (/api/api-keys)
+// campaigns:run also grants campaigns:read
+export const apiKeyScopes = ["leads:read", "leads:write", "campaigns:read", "campaigns:run"] as const;
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Choose at least one scope"),
+});
+
+// What the API returns for a key; the hash never leaves the server
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+// Returned once, when the key is created
+export interface CreatedApiKey extends ApiKeySummary {
+  key: string;
+}
+
+// Webhook API (/api/webhooks)
+export const webhookEvents = [
+  "campaign.started",
+  "campaign.completed",
+  "campaign.failed",
+  "lead.created",
+  "lead.updated",
+] as const;
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export const createWebhookSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine((url) => /^https?:\/\//i.test(url), "Use an http(s) URL"),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+});
+
+export const updateWebhookSchema = createWebhookSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+// The signing secret is only returned when the webhook is created
+export type WebhookSummary = Omit<Webhook, "secret">;
+
+// Lead deduplication API (/api/leads/dedup, /api/leads/:id/merge).
+// Tags aren't picked from one lead; the merged lead keeps all of them.
+export const leadMergeFields = [
+  "businessName",
+  "category",
+  "phone",
+  "email",
+  "website",
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "rating",
+  "reviewCount",
+  "contactStatus",
+  "notes",
+] as const;
+export type LeadMergeField = (typeof leadMergeFields)[number];
+
+export const leadMergeSchema = z.object({
+  // Duplicates folded into the lead being merged into, then deleted
+  duplicateIds: z.array(z.string()).min(1, "Choose at least one duplicate"),
+  // Field -> id of the lead whose value is kept
+  values: z.record(z.enum(leadMergeFields), z.string()).default({}),
+});
+
+export type LeadMergeRequest = z.infer<typeof leadMergeSchema>;
+
+export interface DedupResult {
+  scanned: number;
+  groups: number;
+  duplicates: number;
+}
+
+export interface LeadDuplicateGroup {
+  canonical: Lead;
+  duplicates: Lead[];
+}
+
+// Lead validation
+export const validatedLeadFields = ["email", "phone", "website", "address"] as const;
+export type ValidatedLeadField = (typeof validatedLeadFields)[number];
+
+// unverified: the check could not reach a verdict (DNS timeout, offline mode)
+export const fieldValidationStatuses = ["valid", "invalid", "unverified", "missing"] as const;
+export type FieldValidationStatus = (typeof fieldValidationStatuses)[number];
+
+export interface FieldValidation {
+  status: FieldValidationStatus;
+  message?: string;
+  // Canonical form of the value, e.g. the E.164 phone number
+  normalized?: string;
+}
+
+export type LeadValidationDetails = Partial<Record<ValidatedLeadField, FieldValidation>>;
+
+export const validateLeadsSchema = z.object({
+  // Defaults to all of the user's leads
+  leadIds: z.array(z.string()).min(1).optional(),
+  onlyPending: z.boolean().default(false),
+});
+
+export type ValidateLeadsRequest = z.input<typeof validateLeadsSchema>;
+
+export interface LeadValidationQueued {
+  queued: number;
+}
+
+// Website enrichment
+export const socialNetworks = ["facebook", "instagram", "linkedin", "twitter", "youtube", "tiktok"] as const;
+export type SocialNetwork = (typeof socialNetworks)[number];
+export type SocialProfiles = Partial<Record<SocialNetwork, string>>;
+
+export const enrichedLeadFields = ["email", "phone", "description", ...socialNetworks] as const;
+export type EnrichedLeadField = (typeof enrichedLeadFields)[number];
+
+export interface EnrichedValue {
+  value: string;
+  sourceUrl: string;
+}
+
+export interface LeadEnrichment {
+  pages: string[];
+  // Pages robots.txt kept the crawler away from
+  blocked: string[];
+  // Each extracted value with the page it came from, including values that
+  // weren't applied because the field was already filled in
+  found: Partial<Record<EnrichedLeadField, EnrichedValue>>;
+  // Fields this run filled in
+  applied: EnrichedLeadField[];
+  error?: string;
+}
+
+export const enrichLeadsSchema = z.object({
+  // Defaults to every lead with a website that is missing an email
+  leadIds: z.array(z.string()).min(1).optional(),
+});
+
+export type EnrichLeadsRequest = z.input<typeof enrichLeadsSchema>;
+
+export interface LeadEnrichmentQueued {
+  queued: number;
+}
+
+// Lead scoring (GET/PUT /api/scoring-rules)
+export const scoringRuleKeys = [
+  "hasEmail",
+  "hasWebsite",
+  "rating",
+  "reviewCount",
+  "validation",
+  "categoryMatch",
+  "distance",
+] as const;
+export type ScoringRuleKey = (typeof scoringRuleKeys)[number];
+
+// Weights are relative; a lead's score is its weighted average times 100
+const scoringRule = z.object({
+  enabled: z.boolean(),
+  weight: z.number().int().min(0).max(100),
+});
+
+export const scoringRulesSchema = z.object({
+  hasEmail: scoringRule,
+  hasWebsite: scoringRule,
+  rating: scoringRule,
+  reviewCount: scoringRule.extend({
+    // Review count that earns full marks; fewer score on a log scale
+    target: z.number().int().min(1).max(100000),
+  }),
+  validation: scoringRule,
+  categoryMatch: scoringRule.extend({
+    // Empty matches against each lead's campaign category
+    categories: z.array(z.string().trim().min(1)).max(50),
+  }),
+  distance: scoringRule,
+});
+
+export type ScoringRules = z.infer<typeof scoringRulesSchema>;
+
+export const defaultScoringRules: ScoringRules = {
+  hasEmail: { enabled: true, weight: 25 },
+  hasWebsite: { enabled: true, weight: 15 },
+  rating: { enabled: true, weight: 20 },
+  reviewCount: { enabled: true, weight: 15, target: 200 },
+  validation: { enabled: true, weight: 15 },
+  categoryMatch: { enabled: true, weight: 5, categories: [] },
+  distance: { enabled: true, weight: 5 },
+};
+
+export interface ScoreComponent {
+  rule: ScoringRuleKey;
+  weight: number;
+  // 0-1 share of the rule's weight the lead earned
+  value: number;
+  // Contribution to the 0-100 score
+  points: number;
+  detail: string;
+}
+
+export type LeadScoreBreakdown = ScoreComponent[];
+
+// Geocoding (POST /api/leads/geocode)
+// How closely a lead's coordinates pin down its location
+export const geocodePrecisions = ["address", "zip", "city"] as const;
+export type GeocodePrecision = (typeof geocodePrecisions)[number];
+
+export type LeadLocation = Pick<
+  Lead,
+  "latitude" | "longitude" | "geocodePrecision" | "geocodedAt" | "distanceMiles" | "outsideRadius"
+>;
+
+export const geocodeLeadsSchema = z.object({
+  // Defaults to every lead that hasn't been geocoded yet
+  leadIds: z.array(z.string()).min(1).optional(),
+});
+
+export type GeocodeLeadsRequest = z.input<typeof geocodeLeadsSchema>;
+
+export interface LeadGeocodingQueued {
+  queued: number;
+}
+
+// Lead activity timeline (/api/leads/:id/activities)
+export const leadActivityTypes = ["status_changed", "updated", "note_added", "exported", "merged"] as const;
+export type LeadActivityType = (typeof leadActivityTypes)[number];
+
+export interface LeadFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface LeadActivityDetails {
+  status_changed: { from: string | null; to: string | null };
+  // Field -> old and new value, for every edited field but the status
+  updated: { changes: Record<string, LeadFieldChange> };
+  note_added: { note: string };
+  exported: { fileId: string; fileName: string; format: ExportFormat };
+  merged: { duplicates: { id: string; businessName: string }[] };
+}
+
+export type InsertLeadActivity = {
+  [T in LeadActivityType]: { leadId: string; userId: string; type: T; details: LeadActivityDetails[T] };
+}[LeadActivityType];
+
+export type LeadActivity = InsertLeadActivity & { id: string; createdAt: Date | null };
+
+export const createLeadNoteSchema = z.object({
+  note: z.string().trim().min(1, "Write a note").max(5000),
+});
+
+export type CreateLeadNoteRequest = z.infer<typeof createLeadNoteSchema>;
+
+// Sales pipeline (GET/PUT /api/pipeline). Stages are per user and ordered;
+// leads.contactStatus holds the key of the stage a lead is in.
+export const pipelineStageOutcomes = ["open", "won", "lost"] as const;
+export type PipelineStageOutcome = (typeof pipelineStageOutcomes)[number];
+
+const pipelineStageSchema = z.object({
+  // Left out for new stages, which get one made from their name
+  key: z.string().regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores").max(50).optional(),
+  name: z.string().trim().min(1, "Name the stage").max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour like #2563eb"),
+  outcome: z.enum(pipelineStageOutcomes).default("open"),
+});
+
+export const pipelineSchema = z.object({
+  stages: z
+    .array(pipelineStageSchema)
+    .min(1, "Keep at least one stage")
+    .max(20)
+    .refine((stages) => new Set(stages.map((stage) => stage.name.toLowerCase())).size === stages.length, {
+      message: "Stage names must be unique",
+    }),
+  // Removed stage key -> key of the stage its leads move to
+  reassign: z.record(z.string(), z.string()).default({}),
+});
+
+export type PipelineStage = z.infer<typeof pipelineStageSchema> & { key: string };
+export type PipelineUpdate = z.input<typeof pipelineSchema>;
+
+// New leads start in the first stage
+export const defaultPipelineStages: PipelineStage[] = [
+  { key: "not_contacted", name: "Not Contacted", color: "#6b7280", outcome: "open" },
+  { key: "contacted", name: "Contacted", color: "#2563eb", outcome: "open" },
+  { key: "interested", name: "Interested", color: "#16a34a", outcome: "open" },
+  { key: "won", name: "Won", color: "#7c3aed", outcome: "won" },
+  { key: "not_interested", name: "Not Interested", color: "#dc2626", outcome: "lost" },
+];
+
+export interface PipelineStageStats {
+  key: string;
+  // Leads in the stage now
+  current: number;
+  // Leads that have ever been in the stage
+  reached: number;
+  // Share of those that went on to a later stage; null for won/lost stages
+  conversionRate: number | null;
+  // Average days spent in the stage by leads that have left it
+  avgDaysInStage: number | null;
+  // Average days the leads in the stage now have been there
+  avgDaysCurrent: number | null;
+}
+
+export interface PipelineStats {
+  stages: PipelineStageStats[];
+  // Share of the leads in won or lost stages that were won
+  winRate: number | null;
+}
+
+// Lead tags (/api/tags, /api/leads/:id/tags). Tagging many leads at once is
+// a bulk lead action.
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name the tag")
+  .max(50)
+  .refine((name) => !name.includes(","), "Tag names can't contain commas");
+
+const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour like #2563eb");
+
+// Drops blank names and repeats that differ only in case, keeping the first spelling
+export function uniqueTagNames(names: string[]): string[] {
+  const unique = new Map<string, string>();
+  for (const name of names.map((item) => item.trim()).filter(Boolean)) {
+    if (!unique.has(name.toLowerCase())) unique.set(name.toLowerCase(), name);
+  }
+  return Array.from(unique.values());
+}
+
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema.optional(),
+});
+
+export const updateTagSchema = createTagSchema.partial();
+
+export const mergeTagsSchema = z.object({
+  // Tags folded into the tag being merged into, then deleted
+  tagIds: z.array(z.string()).min(1, "Choose at least one tag to merge"),
+});
+
+// Tags are named; names that don't exist yet become new tags
+export const setLeadTagsSchema = z.object({
+  tags: z.array(tagNameSchema).max(50),
+});
+
+export type CreateTagRequest = z.infer<typeof createTagSchema>;
+export type UpdateTagRequest = z.infer<typeof updateTagSchema>;
+
+export type TagWithCount = Tag & { leadCount: number };
+
+// Bulk lead actions (POST /api/leads/bulk)
+export const bulkLeadLimit = 5000;
+
+export const bulkLeadActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("set_stage"), stage: z.string().min(1) }),
+  z.object({ type: z.literal("add_tags"), tags: z.array(tagNameSchema).min(1, "Choose tags to add").max(50) }),
+  z.object({ type: z.literal("remove_tags"), tags: z.array(tagNameSchema).min(1, "Choose tags to remove").max(50) }),
+  z.object({ type: z.literal("mark_validated"), isValidated: z.boolean().default(true) }),
+  z.object({ type: z.literal("move_campaign"), campaignId: z.string().min(1) }),
+  z.object({ type: z.literal("export"), format: z.enum(exportFormats).optional() }),
+  z.object({ type: z.literal("delete") }),
+]);
+
+// Acts on the ticked leads or on every lead matching the Results filters
+export const bulkLeadRequestSchema = z
+  .object({
+    leadIds: z.array(z.string()).min(1).max(bulkLeadLimit).optional(),
+    filter: leadFilterSchema.optional(),
+    action: bulkLeadActionSchema,
+  })
+  .refine((value) => Boolean(value.leadIds) !== Boolean(value.filter), {
+    message: "Send either leadIds or filter",
+    path: ["leadIds"],
+  });
+
+export type BulkLeadAction = z.infer<typeof bulkLeadActionSchema>;
+export type BulkLeadActionType = BulkLeadAction["type"];
+// Everything but export changes the leads themselves
+export type BulkLeadChange = Exclude<BulkLeadAction, { type: "export" }>;
+export type BulkLeadRequest = z.input<typeof bulkLeadRequestSchema>;
+
+export interface BulkLeadFailure {
+  leadId: string;
+  businessName: string | null;
+  message: string;
+}
+
+export interface BulkLeadResult {
+  action: BulkLeadActionType;
+  succeeded: number;
+  // Leads left unchanged; the rest of the batch is still saved
+  failed: BulkLeadFailure[];
+  // The file an export was saved to
+  fileId?: string;
+  fileName?: string;
+}
+
+// Saved views (/api/views)
+// Results table columns that can be hidden; the business name and actions always show
+export const leadColumns = ["category", "contact", "location", "status", "score"] as const;
+export type LeadColumn = (typeof leadColumns)[number];
+
+const savedViewQueryParser = leadQuerySchema.omit({ cursor: true, limit: true, id: true }).strict();
+export type SavedViewQuery = z.input<typeof savedViewQueryParser>;
+
+// The query is stored as sent, so Results can restore its filter controls
+// from it; it only has to parse as a lead query
+const savedViewQuerySchema = z.custom<SavedViewQuery>(
+  (value) => savedViewQueryParser.safeParse(value).success,
+  "Invalid filters",
+);
+
+export function parseSavedViewQuery(query: SavedViewQuery): Omit<LeadQuery, "cursor" | "limit" | "id"> {
+  return savedViewQueryParser.parse(query);
+}
+
+// Campaign and run filters name the owner's records, so they are left out
+// when someone else opens a shared view
+export function withoutOwnerFilters(query: SavedViewQuery): SavedViewQuery {
+  const { campaignId: _campaignId, runId: _runId, ...filters } = query;
+  return filters;
+}
+
+export const createSavedViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  query: savedViewQuerySchema,
+  columns: z.array(z.enum(leadColumns)).default([...leadColumns]),
+  pinned: z.boolean().default(false),
+});
+
+export const updateSavedViewSchema = createSavedViewSchema
+  .partial()
+  .extend({ shared: z.boolean().optional() });
+
+export type CreateSavedViewRequest = z.infer<typeof createSavedViewSchema>;
+export type UpdateSavedViewRequest = z.infer<typeof updateSavedViewSchema>;
+
+// Pinned views on the Dashboard, with the number of leads they match now
+export type SavedViewWithCount = SavedView & { count: number };
+
+// Campaign schedules. A recurring schedule is a five-field cron expression
+// (minute hour day-of-month month day-of-week) read in an IANA timezone.
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const campaignScheduleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("once"), runAt: z.string().datetime({ offset: true }) }),
+  z.object({
+    type: z.literal("recurring"),
+    cron: z.string().trim().min(1).max(100),
+    timezone: z.string().refine(isTimeZone, "Unknown timezone"),
+  }),
+]);
+
+// Null clears the schedule
+export const setCampaignScheduleSchema = z.object({
+  schedule: campaignScheduleSchema.nullable(),
+});
+
+export type CampaignSchedule = z.infer<typeof campaignScheduleSchema>;
+export type CampaignRunTrigger = "manual" | "scheduled";
+export type CampaignRunStatus = "running" | "completed" | "cancelled" | "failed";
+
+export type CampaignRunParameters = Pick<
+  Campaign,
+  | "businessCategory"
+  | "location"
+  | "radius"
+  | "outsideRadiusAction"
+  | "scraperProvider"
+  | "scrapingMode"
+  | "pageLimit"
+  | "delay"
+>;
+
+export interface CampaignRunError {
+  message: string;
+  // The page being fetched when the attempt failed
+  page: number;
+  at: string;
+}
+
+// GET /api/campaigns
+export type CampaignWithLastRun = Campaign & { lastRun: CampaignRun | null };